@@ -17,7 +17,7 @@ program
     .description("Start the arbitrage bot")
     .option("-i, --interval <interval>", "Polling interval in milliseconds", "5000")
     .option("-d, --dry-run", "Run in dry-run mode (no real orders)")
-    .option("-l, --log-level <level>", "Log level (debug, info, warn, error)", "info")
+    .option("-l, --log-level <level>", "Log level (debug, info, warn, error); defaults to LOG_LEVEL")
     .action(async (options: { dryRun?: boolean; logLevel?: string; interval: string }) => {
         try {
             // Override config with CLI options
@@ -25,8 +25,9 @@ program
             if (options.dryRun) {
                 process.env.DRY_RUN = "true";
             }
+            // The logger is already running, so the level is changed on it directly
             if (options.logLevel) {
-                process.env.LOG_LEVEL = options.logLevel;
+                logger.setLevel(options.logLevel);
             }
             
             const intervalMs = parseInt(options.interval, 10);
@@ -34,7 +35,7 @@ program
             logger.info("Starting arbitrage bot with CLI options", {
                 intervalMs,
                 dryRun: options.dryRun || config.dryRun,
-                logLevel: options.logLevel || config.logLevel
+                logLevel: logger.getLevel()
             });
             
             await startArbBot(intervalMs);
@@ -49,34 +50,241 @@ program
     .description("Check for arbitrage opportunities without executing trades")
     .action(async () => {
         try {
-            // Force dry-run mode
-            process.env.DRY_RUN = "true";
-            
             logger.info("Checking for arbitrage opportunities (dry-run)");
             
-            // Run a single cycle
-            const { createOrder: _createOrderProbo, getDepth: getDepthProbo } = await import("./probo");
-            const { createOrder: _createOrderPoly, getDepth: getDepthPoly } = await import("./polymarket");
-            const { findAndExecArb } = await import("./index");
+            // Run a single cycle over every enabled market pair; the config is already
+            // loaded, so dry run is passed down rather than set through DRY_RUN
+            const { getDefaultExchanges } = await import("./exchanges");
+            const { checkMarketPairs } = await import("./index");
+            const { createFxRateProvider } = await import("./utils/fx");
+            const { getEnabledMarketPairs, loadMarketPairs } = await import("./utils/markets");
+            const { flushDatabase } = await import("./utils/database");
             
-            const config = getConfig();
+            await checkMarketPairs(getEnabledMarketPairs(loadMarketPairs()), getDefaultExchanges(), createFxRateProvider());
+            flushDatabase();
+            
+            process.exit(0);
+        } catch (error) {
+            logger.error("Error checking arbitrage opportunities", error);
+            process.exit(1);
+        }
+    });
+
+program
+    .command("record")
+    .description("Record the order books of every enabled market pair without trading")
+    .option("-i, --interval <interval>", "Polling interval in milliseconds", "5000")
+    .action(async (options: { interval: string }) => {
+        try {
+            const { startRecorder } = await import("./index");
+            await startRecorder(parseInt(options.interval, 10));
+            process.exit(0);
+        } catch (error) {
+            logger.error("Error recording depth", error);
+            process.exit(1);
+        }
+    });
+
+/**
+ * Parse a comma-separated option into numbers, for parameter sweeps
+ * @param value The raw option value
+ * @returns The numbers
+ */
+function numberList(value: string): number[] {
+    return value.split(",").map(item => Number(item.trim())).filter(item => Number.isFinite(item));
+}
+
+program
+    .command("backtest")
+    .description("Replay recorded order books through the strategy offline; comma-separated values are swept")
+    .option("--dir <dir>", "Directory of recorded depth files (default RECORD_DIR)")
+    .option("-p, --pair <pairId>", "Only replay this market pair")
+    .option("--min-profit <percents>", "Minimum net profit % to trade", numberList)
+    .option("--probo-fee <percents>", "Probo fee %", numberList)
+    .option("--poly-fee-bps <bps>", "Polymarket fee in basis points", numberList)
+    .option("--fx-spread <percents>", "INR/USD conversion cost %", numberList)
+    .option("--fx-rate <rates>", "Price at this USD/INR rate instead of the recorded one", numberList)
+    .option("--latency <ms>", "Time for an order to reach the venue", numberList)
+    .option("--mode <modes>", "Execution mode: sequential, concurrent", (value: string) => value.split(","))
+    .option("--trades", "Log every simulated trade")
+    .action(async (options: {
+        dir?: string;
+        pair?: string;
+        minProfit?: number[];
+        proboFee?: number[];
+        polyFeeBps?: number[];
+        fxSpread?: number[];
+        fxRate?: number[];
+        latency?: number[];
+        mode?: string[];
+        trades?: boolean;
+    }) => {
+        try {
+            const { loadDepthRecords, sweepBacktest } = await import("./utils/backtest");
+            const { loadMarketPairs } = await import("./utils/markets");
+            const { ExecutionMode } = await import("./types");
+            
+            const executionModes = options.mode?.map(mode => {
+                const executionMode = Object.values(ExecutionMode).find(value => value === mode);
+                if (!executionMode) {
+                    throw new Error(`Unknown execution mode ${mode}`);
+                }
+                return executionMode;
+            });
             
-            // Fetch market depths
-            const [depthProbo, depthPoly] = await Promise.all([
-                getDepthProbo(config.proboTokenId),
-                getDepthPoly(config.polymarketTokenId)
-            ]);
+            const records = loadDepthRecords(options.dir, options.pair);
+            if (records.length === 0) {
+                throw new Error("No recorded depth found, run the record command first");
+            }
             
-            // Find arbitrage opportunities
-            await findAndExecArb(depthPoly, depthProbo);
+            const reports = sweepBacktest(records, {
+                expectedArbPercentMin: options.minProfit,
+                proboFeePercent: options.proboFee,
+                polymarketFeeRateBps: options.polyFeeBps,
+                fxSpreadPercent: options.fxSpread,
+                fxRate: options.fxRate,
+                latencyMs: options.latency,
+                executionMode: executionModes
+            }, loadMarketPairs());
             
+            for (const report of reports) {
+                const { trades, ...summary } = report;
+                logger.info(`Backtest: ${trades.length} trades, net ₹${report.netPnlInr.toFixed(2)}`, {
+                    ...summary,
+                    firstSnapshot: records[0].timestamp,
+                    lastSnapshot: records[records.length - 1].timestamp,
+                    ...(options.trades ? { trades } : {})
+                });
+            }
             process.exit(0);
         } catch (error) {
-            logger.error("Error checking arbitrage opportunities", error);
+            logger.error("Error running backtest", error);
+            process.exit(1);
+        }
+    });
+
+program
+    .command("positions")
+    .description("Show positions held, from the position ledger")
+    .option("-e, --exchange <exchange>", "Only show positions on this exchange (probo, polymarket)")
+    .option("-m, --market <marketId>", "Only show positions on this Probo event ID or Polymarket token ID")
+    .option("-p, --pair <pairId>", "Only show positions on this market pair")
+    .option("-a, --all", "Include closed positions")
+    .action(async (options: { exchange?: string; market?: string; pair?: string; all?: boolean }) => {
+        try {
+            const { getPositions } = await import("./utils/database");
+            const { Exchange } = await import("./types");
+            
+            const exchange = Object.values(Exchange).find(value => value === options.exchange);
+            if (options.exchange && !exchange) {
+                throw new Error(`Unknown exchange ${options.exchange}`);
+            }
+            
+            const positions = getPositions({ exchange, marketId: options.market, pairId: options.pair }, options.all);
+            
+            const totalInr = positions.reduce((total, position) => total + position.costBasisInr, 0);
+            logger.info(`${positions.length} positions, cost basis ₹${totalInr.toFixed(2)}`, positions);
+            process.exit(0);
+        } catch (error) {
+            logger.error("Error reading positions", error);
+            process.exit(1);
+        }
+    });
+
+program
+    .command("cancel")
+    .description("Cancel an order by ID, or every open order on a market")
+    .requiredOption("-e, --exchange <exchange>", "Exchange to cancel on (probo, polymarket)")
+    .option("-o, --order <orderId>", "Order ID to cancel")
+    .option("-m, --market <marketId>", "Cancel all open orders on this Probo event ID or Polymarket token ID")
+    .option("-d, --dry-run", "Show what would be cancelled without cancelling")
+    .action(async (options: { exchange: string; order?: string; market?: string; dryRun?: boolean }) => {
+        try {
+            if (!options.order === !options.market) {
+                throw new Error("Pass exactly one of --order or --market");
+            }
+            
+            // The config is already loaded, so DRY_RUN can't be switched on from here
+            if (options.dryRun) {
+                logger.info(`DRY RUN: Would cancel ${options.order ? `order ${options.order}` : `all orders on market ${options.market}`} on ${options.exchange}`);
+                process.exit(0);
+                return;
+            }
+            
+            const { getExchangeAdapter } = await import("./exchanges");
+            const { Exchange } = await import("./types");
+            if (!Object.values(Exchange).includes(options.exchange as any)) {
+                throw new Error(`Unknown exchange ${options.exchange}`);
+            }
+            const adapter = getExchangeAdapter(options.exchange as any);
+            
+            const result = options.order
+                ? await adapter.cancelOrder(options.order)
+                : await adapter.cancelAllOrders(options.market as string);
+            
+            if (!result.success) {
+                logger.error("Cancellation failed", result.error);
+                process.exit(1);
+            }
+            logger.info("Cancellation complete", result.exchangeResponse);
+            process.exit(0);
+        } catch (error) {
+            logger.error("Error cancelling orders", error);
             process.exit(1);
         }
     });
 
+program
+    .command("settle")
+    .description("Record how a venue resolved a market pair and settle the positions held there")
+    .requiredOption("-p, --pair <pairId>", "Market pair that resolved")
+    .requiredOption("-e, --exchange <exchange>", "Exchange that resolved it (probo, polymarket)")
+    .requiredOption("-o, --outcome <outcome>", "Winning outcome (yes, no, void)")
+    .action(async (options: { pair: string; exchange: string; outcome: string }) => {
+        try {
+            const { Exchange } = await import("./types");
+            if (!Object.values(Exchange).includes(options.exchange as any)) {
+                throw new Error(`Unknown exchange ${options.exchange}`);
+            }
+            if (!["yes", "no", "void"].includes(options.outcome)) {
+                throw new Error(`Unknown outcome ${options.outcome}`);
+            }
+            
+            const { recordResolution } = await import("./utils/database");
+            const { createFxRateProvider } = await import("./utils/fx");
+            const fxRate = await createFxRateProvider().getRate();
+            
+            const report = recordResolution(options.pair, options.exchange as any, options.outcome as any, fxRate.rate);
+            const realisedInr = report.settlements.reduce((total, settlement) => total + settlement.realisedPnlInr, 0);
+            logger.info(`Settled ${report.settlements.length} positions, realised ₹${realisedInr.toFixed(2)}`, report);
+            process.exit(report.mismatch ? 2 : 0);
+        } catch (error) {
+            logger.error("Error recording settlement", error);
+            process.exit(1);
+        }
+    });
+
+program
+    .command("halt")
+    .description("Engage the kill switch: running bots stop sending new orders")
+    .option("-r, --reason <reason>", "Why trading is being halted", "manual halt from CLI")
+    .action(async (options: { reason: string }) => {
+        const { engageKillSwitch } = await import("./utils/circuitBreaker");
+        engageKillSwitch(options.reason);
+        process.exit(0);
+    });
+
+program
+    .command("resume")
+    .description("Release the kill switch so running bots can trade again")
+    .action(async () => {
+        const { releaseKillSwitch } = await import("./utils/circuitBreaker");
+        if (!releaseKillSwitch()) {
+            logger.info("Kill switch was not engaged");
+        }
+        process.exit(0);
+    });
+
 // Declare process if it's not recognized by TypeScript
 declare const process: {
     argv: string[];
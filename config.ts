@@ -2,6 +2,7 @@
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
+import { ExecutionMode, OrderSide } from './types';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -9,7 +10,12 @@ dotenv.config();
 export interface Config {
     // Market IDs
     proboTokenId: number;
-    polymarketTokenId: string;
+    polymarketTokenId: string; // YES outcome token
+    polymarketNoTokenId: string; // NO outcome token, empty to only trade the YES direction
+    
+    // Probo offer types for each outcome; the depth book for an outcome is keyed by the same side
+    proboYesSide: OrderSide;
+    proboNoSide: OrderSide;
     
     // API credentials
     proboAuthToken: string;
@@ -19,6 +25,7 @@ export interface Config {
     ethPrivateKey: string;
     
     // API endpoints
+    proboApiUrl: string;
     clobApiUrl: string;
     rpcUrl: string;
     
@@ -26,12 +33,99 @@ export interface Config {
     dollarPriceInr: number;
     expectedArbPercentMin: number;
     
+    // FX rate source
+    fxRateSource: 'static' | 'file' | 'http';
+    fxRateFilePath: string;
+    fxRateUrl: string;
+    fxRateMaxAgeMs: number;
+    fxMaxMovePercent: number;
+    
+    // Cost model
+    proboFeePercent: number;
+    proboGstPercent: number;
+    polymarketFeeRateBps: number;
+    polygonGasCostUsd: number;
+    fxSpreadPercent: number;
+    
+    // Instrument metadata
+    polymarketTickSize: number;
+    polymarketMinQty: number;
+    polymarketMaxQty: number;
+    polymarketQtyStep: number;
+    proboTickSize: number;
+    proboMinQty: number;
+    proboMaxQty: number;
+    proboQtyStep: number;
+    
+    // Execution settings
+    executionMode: ExecutionMode;
+    /** Sequential mode only: which leg goes first, or the one taking the larger share of its book */
+    firstLeg: 'polymarket' | 'probo' | 'less_liquid';
+    legTimeoutMs: number;
+    orderPollIntervalMs: number;
+    orderTrackTimeoutMs: number;
+    cancelOrdersOnShutdown: boolean;
+    
+    // Recovery settings
+    maxHedgeSlippagePercent: number;
+    
+    // Preflight checks
+    /** Only send a USDC approve when the allowance has fallen below this */
+    minUsdcAllowanceUsd: number;
+    approveGasPriceGwei: number;
+    
+    // Risk limits (INR)
+    maxNotionalPerTradeInr: number;
+    maxExposurePerMarketInr: number;
+    maxExposurePerExchangeInr: number;
+    maxDailyLossInr: number;
+    maxTradesPerHour: number;
+    
+    // Circuit breaker and kill switch
+    breakerMaxConsecutiveFailures: number;
+    breakerMaxOneSidedFills: number;
+    breakerOneSidedWindowMs: number;
+    breakerCooldownMs: number;
+    killSwitchPath: string;
+    
     // Operational settings
     dryRun: boolean;
+    /** In dry-run, fill orders against live books with virtual balances instead of assuming every order fills */
+    paperTrading: boolean;
+    paperBalanceUsd: number;
+    paperBalanceInr: number;
     logLevel: 'debug' | 'info' | 'warn' | 'error';
+    /** Also write logs to this file, rotated by size; empty for console only */
+    logFile: string;
+    logMaxFileBytes: number;
+    logMaxFiles: number;
+    /** Serve Prometheus metrics at /metrics on this port; 0 disables the server */
+    metricsPort: number;
     
     // Data storage
     dbPath: string;
+    /** How long opportunity logs may sit in memory before the history file is rewritten */
+    dbFlushIntervalMs: number;
+    
+    // Depth recorder
+    /** Record every book seen while trading */
+    recordDepth: boolean;
+    recordDir: string;
+    recordRotateMinutes: number;
+    
+    // Market data
+    /** Evaluate pairs when a streamed or polled book changes, or poll every pair on a timer */
+    marketDataMode: 'stream' | 'poll';
+    /** Polymarket market channel; empty to poll Polymarket books instead */
+    polymarketWsUrl: string;
+    wsReconnectDelayMs: number;
+    /** Adaptive polling: back off from the minimum towards the maximum while a book is unchanged */
+    pollMinIntervalMs: number;
+    pollMaxIntervalMs: number;
+    /** Never trade on a book fetched longer ago than this */
+    maxBookAgeMs: number;
+    /** Never trade on two books fetched further apart than this */
+    maxBookSkewMs: number;
     
     // Retry settings
     maxRetries: number;
@@ -39,12 +133,36 @@ export interface Config {
     
     // Rate limiting
     requestThrottleMs: number;
+    proboRequestsPerSecond: number;
+    polymarketRequestsPerSecond: number;
+    
+    // Market pair registry
+    marketPairsPath: string;
+    maxConcurrentScans: number;
+}
+
+/**
+ * Parse a numeric environment variable, keeping explicit zeroes
+ * @param value The raw environment value
+ * @param fallback Value to use when unset or not a number
+ * @returns The parsed number
+ */
+function numberFromEnv(value: string | undefined, fallback: number): number {
+    if (value === undefined || value.trim() === '') {
+        return fallback;
+    }
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
 }
 
 // Default configuration
 const defaultConfig: Config = {
     proboTokenId: 4031200,
     polymarketTokenId: "35192935476060157102953995417579331568794667667550449899073688437267716869794",
+    polymarketNoTokenId: process.env.POLYMARKET_NO_TOKEN_ID || "",
+    
+    proboYesSide: (process.env.PROBO_YES_SIDE as OrderSide) || OrderSide.BUY,
+    proboNoSide: (process.env.PROBO_NO_SIDE as OrderSide) || OrderSide.SELL,
     
     proboAuthToken: process.env.PROBO_AUTH_TOKEN || "OjhfQB2HA8pbmsBTkdLti9/XAtBslZIGrirt4vW8w6Q=",
     polymarketApiKey: process.env.POLYMARKET_API_KEY || "",
@@ -52,23 +170,99 @@ const defaultConfig: Config = {
     polymarketPassPhrase: process.env.POLYMARKET_PASS_PHRASE || "",
     ethPrivateKey: process.env.PRIVATE_KEY || "",
     
+    proboApiUrl: process.env.PROBO_API_URL || "https://prod.api.probo.in",
     clobApiUrl: process.env.CLOB_API_URL || "https://clob.polymarket.com",
     rpcUrl: process.env.RPC_URL || "https://polygon-rpc.com",
     
     dollarPriceInr: Number(process.env.DOLLAR_PRICE_INR) || 85,
     expectedArbPercentMin: Number(process.env.EXPECTED_ARB_PERCENT_MIN) || 5,
     
+    fxRateSource: (process.env.FX_RATE_SOURCE as 'static' | 'file' | 'http') || 'static',
+    fxRateFilePath: process.env.FX_RATE_FILE || './data/fx-rate.json',
+    fxRateUrl: process.env.FX_RATE_URL || "",
+    fxRateMaxAgeMs: Number(process.env.FX_RATE_MAX_AGE_MS) || 300000,
+    fxMaxMovePercent: Number(process.env.FX_MAX_MOVE_PERCENT) || 0.5,
+    
+    // Explicit zeroes are honoured, so these can't use the `|| default` pattern
+    proboFeePercent: numberFromEnv(process.env.PROBO_FEE_PERCENT, 2),
+    proboGstPercent: numberFromEnv(process.env.PROBO_GST_PERCENT, 18),
+    polymarketFeeRateBps: numberFromEnv(process.env.POLYMARKET_FEE_RATE_BPS, 0),
+    polygonGasCostUsd: numberFromEnv(process.env.POLYGON_GAS_COST_USD, 0.01),
+    fxSpreadPercent: numberFromEnv(process.env.FX_SPREAD_PERCENT, 1),
+    
+    polymarketTickSize: Number(process.env.POLYMARKET_TICK_SIZE) || 0.01,
+    polymarketMinQty: Number(process.env.POLYMARKET_MIN_QTY) || 5,
+    polymarketMaxQty: Number(process.env.POLYMARKET_MAX_QTY) || 100000,
+    polymarketQtyStep: Number(process.env.POLYMARKET_QTY_STEP) || 0.01,
+    proboTickSize: Number(process.env.PROBO_TICK_SIZE) || 0.5,
+    proboMinQty: Number(process.env.PROBO_MIN_QTY) || 1,
+    proboMaxQty: Number(process.env.PROBO_MAX_QTY) || 10000,
+    proboQtyStep: Number(process.env.PROBO_QTY_STEP) || 1,
+    
+    executionMode: (process.env.EXECUTION_MODE as ExecutionMode) || ExecutionMode.SEQUENTIAL,
+    firstLeg: (process.env.FIRST_LEG as 'polymarket' | 'probo' | 'less_liquid') || 'polymarket',
+    legTimeoutMs: Number(process.env.LEG_TIMEOUT_MS) || 10000,
+    orderPollIntervalMs: Number(process.env.ORDER_POLL_INTERVAL_MS) || 2000,
+    // Longer than Probo's one-minute auto_cancel, so resting orders reach a final state
+    orderTrackTimeoutMs: Number(process.env.ORDER_TRACK_TIMEOUT_MS) || 90000,
+    cancelOrdersOnShutdown: process.env.CANCEL_ORDERS_ON_SHUTDOWN !== "false",
+    
+    maxHedgeSlippagePercent: Number(process.env.MAX_HEDGE_SLIPPAGE_PERCENT) || 2,
+    
+    minUsdcAllowanceUsd: Number(process.env.MIN_USDC_ALLOWANCE_USD) || 10000,
+    approveGasPriceGwei: Number(process.env.APPROVE_GAS_PRICE_GWEI) || 100,
+    
+    maxNotionalPerTradeInr: Number(process.env.MAX_NOTIONAL_PER_TRADE_INR) || 50000,
+    maxExposurePerMarketInr: Number(process.env.MAX_EXPOSURE_PER_MARKET_INR) || 200000,
+    maxExposurePerExchangeInr: Number(process.env.MAX_EXPOSURE_PER_EXCHANGE_INR) || 500000,
+    maxDailyLossInr: Number(process.env.MAX_DAILY_LOSS_INR) || 10000,
+    maxTradesPerHour: Number(process.env.MAX_TRADES_PER_HOUR) || 20,
+    
+    breakerMaxConsecutiveFailures: Number(process.env.BREAKER_MAX_CONSECUTIVE_FAILURES) || 5,
+    breakerMaxOneSidedFills: Number(process.env.BREAKER_MAX_ONE_SIDED_FILLS) || 2,
+    breakerOneSidedWindowMs: Number(process.env.BREAKER_ONE_SIDED_WINDOW_MS) || 3600000,
+    breakerCooldownMs: Number(process.env.BREAKER_COOLDOWN_MS) || 300000,
+    killSwitchPath: process.env.KILL_SWITCH_FILE || './data/KILL_SWITCH',
+    
     dryRun: process.env.DRY_RUN === "true" || false,
+    paperTrading: process.env.PAPER_TRADING !== "false",
+    paperBalanceUsd: Number(process.env.PAPER_BALANCE_USD) || 1000,
+    paperBalanceInr: Number(process.env.PAPER_BALANCE_INR) || 100000,
     logLevel: (process.env.LOG_LEVEL as 'debug' | 'info' | 'warn' | 'error') || 'info',
+    logFile: process.env.LOG_FILE || '',
+    logMaxFileBytes: Number(process.env.LOG_MAX_FILE_BYTES) || 10 * 1024 * 1024,
+    logMaxFiles: Number(process.env.LOG_MAX_FILES) || 5,
+    metricsPort: Number(process.env.METRICS_PORT) || 0,
     
     dbPath: process.env.DB_PATH || './data/arb-history.json',
+    dbFlushIntervalMs: Number(process.env.DB_FLUSH_INTERVAL_MS) || 5000,
+    
+    recordDepth: process.env.RECORD_DEPTH === "true",
+    recordDir: process.env.RECORD_DIR || './data/depth',
+    recordRotateMinutes: Number(process.env.RECORD_ROTATE_MINUTES) || 60,
+    
+    marketDataMode: (process.env.MARKET_DATA_MODE as 'stream' | 'poll') || 'stream',
+    polymarketWsUrl: process.env.POLYMARKET_WS_URL ?? "wss://ws-subscriptions-clob.polymarket.com/ws/market",
+    wsReconnectDelayMs: Number(process.env.WS_RECONNECT_DELAY_MS) || 2000,
+    pollMinIntervalMs: Number(process.env.POLL_MIN_INTERVAL_MS) || 1000,
+    pollMaxIntervalMs: Number(process.env.POLL_MAX_INTERVAL_MS) || 5000,
+    maxBookAgeMs: Number(process.env.MAX_BOOK_AGE_MS) || 10000,
+    maxBookSkewMs: Number(process.env.MAX_BOOK_SKEW_MS) || 6000,
     
     maxRetries: Number(process.env.MAX_RETRIES) || 3,
     retryDelayMs: Number(process.env.RETRY_DELAY_MS) || 1000,
     
-    requestThrottleMs: Number(process.env.REQUEST_THROTTLE_MS) || 500
+    requestThrottleMs: Number(process.env.REQUEST_THROTTLE_MS) || 500,
+    proboRequestsPerSecond: Number(process.env.PROBO_REQUESTS_PER_SECOND) || 2,
+    polymarketRequestsPerSecond: Number(process.env.POLYMARKET_REQUESTS_PER_SECOND) || 5,
+    
+    marketPairsPath: process.env.MARKET_PAIRS_PATH || './markets.json',
+    maxConcurrentScans: Number(process.env.MAX_CONCURRENT_SCANS) || 4
 };
 
+// Overrides seen by every getConfig() call while withConfigOverrides runs
+let activeOverrides: Partial<Config> = {};
+
 /**
  * Get configuration with optional overrides
  * @param overrides Optional configuration overrides
@@ -76,9 +270,26 @@ const defaultConfig: Config = {
  */
 export const getConfig = (overrides: Partial<Config> = {}): Config => {
     // Apply any overrides to the default config
-    return { ...defaultConfig, ...overrides };
+    return { ...defaultConfig, ...activeOverrides, ...overrides };
 };
 
+/**
+ * Run a synchronous function with config overrides applied everywhere,
+ * e.g. to price a backtest at different fees
+ * @param overrides Configuration overrides
+ * @param fn The function to run
+ * @returns What the function returned
+ */
+export function withConfigOverrides<T>(overrides: Partial<Config>, fn: () => T): T {
+    const previous = activeOverrides;
+    activeOverrides = { ...previous, ...overrides };
+    try {
+        return fn();
+    } finally {
+        activeOverrides = previous;
+    }
+}
+
 /**
  * Create a config file if it doesn't exist
  */
@@ -0,0 +1,95 @@
+// Registry of exchange adapters keyed by venue
+import { ArbExchanges, Exchange, ExchangeAdapter } from "./types";
+import { proboAdapter } from "./probo";
+import { polymarketAdapter } from "./polymarket";
+import { createRateLimiter } from "./utils/scheduler";
+import { botMetrics } from "./utils/metrics";
+
+const adapters = new Map<Exchange, ExchangeAdapter>([
+    [Exchange.PROBO, proboAdapter],
+    [Exchange.POLYMARKET, polymarketAdapter]
+]);
+
+/**
+ * Register (or replace) the adapter used for an exchange
+ * @param adapter The exchange adapter
+ */
+export function registerExchangeAdapter(adapter: ExchangeAdapter): void {
+    adapters.set(adapter.exchange, adapter);
+}
+
+/**
+ * Get the adapter registered for an exchange
+ * @param exchange The exchange
+ * @returns The exchange adapter
+ */
+export function getExchangeAdapter(exchange: Exchange): ExchangeAdapter {
+    const adapter = adapters.get(exchange);
+    
+    if (!adapter) {
+        throw new Error(`No adapter registered for exchange ${exchange}`);
+    }
+    
+    return adapter;
+}
+
+/**
+ * Get the default Polymarket/Probo pair used by the arbitrage loop
+ * @returns The registered adapters for both legs
+ */
+export function getDefaultExchanges(): ArbExchanges {
+    return {
+        polymarket: getExchangeAdapter(Exchange.POLYMARKET),
+        probo: getExchangeAdapter(Exchange.PROBO)
+    };
+}
+
+/**
+ * Wrap an adapter so every call against the exchange respects a request rate
+ * @param adapter The exchange adapter
+ * @param requestsPerSecond Maximum requests started per second
+ * @returns The rate-limited adapter
+ */
+export function rateLimitExchange(adapter: ExchangeAdapter, requestsPerSecond: number): ExchangeAdapter {
+    const limiter = createRateLimiter(requestsPerSecond);
+    
+    return {
+        exchange: adapter.exchange,
+        getDepth: (marketId) => limiter.schedule(() => adapter.getDepth(marketId)),
+        createOrder: (marketId, side, size, price) =>
+            limiter.schedule(() => adapter.createOrder(marketId, side, size, price)),
+        getOrderStatus: (orderId) => limiter.schedule(() => adapter.getOrderStatus(orderId)),
+        cancelOrder: (orderId) => limiter.schedule(() => adapter.cancelOrder(orderId)),
+        cancelAllOrders: (marketId) => limiter.schedule(() => adapter.cancelAllOrders(marketId)),
+        getBalance: () => limiter.schedule(() => adapter.getBalance())
+    };
+}
+
+/**
+ * Wrap an adapter so every depth request is timed and its failures counted
+ * @param adapter The exchange adapter
+ * @returns The instrumented adapter
+ */
+export function instrumentExchange(adapter: ExchangeAdapter): ExchangeAdapter {
+    const labels = { exchange: adapter.exchange };
+    
+    return {
+        exchange: adapter.exchange,
+        getDepth: async (marketId) => {
+            const started = Date.now();
+            try {
+                return await adapter.getDepth(marketId);
+            } catch (error) {
+                botMetrics.depthFetchErrors.inc(labels);
+                throw error;
+            } finally {
+                botMetrics.depthFetchSeconds.observe(labels, (Date.now() - started) / 1000);
+            }
+        },
+        createOrder: (marketId, side, size, price) => adapter.createOrder(marketId, side, size, price),
+        getOrderStatus: (orderId) => adapter.getOrderStatus(orderId),
+        cancelOrder: (orderId) => adapter.cancelOrder(orderId),
+        cancelAllOrders: (marketId) => adapter.cancelAllOrders(marketId),
+        getBalance: () => adapter.getBalance()
+    };
+}
@@ -1,37 +1,105 @@
 /**
  * @jest-environment node
  */
-import { findAndExecArb, startArbBot } from "./index";
-import { calculateArbOpportunity } from "./utils/helpers";
-import type { Depth, ArbOpportunity } from "./types";
+import { checkMarketPairs, findAndExecArb, scanMarketPair, startArbBot } from "./index";
+import { calculateArbOpportunity, sleep } from "./utils/helpers";
+import { checkRiskLimits } from "./utils/risk";
+import { fitToBalances, getRequiredFunds } from "./utils/preflight";
+import { getPositions, getRecentOpportunities, getStats, recordResolution } from "./utils/database";
+import { getConfig } from "./config";
+import { createMemorySink, logger } from "./utils/logger";
+import { botMetrics, registry } from "./utils/metrics";
+import {
+    ArbDirection,
+    Exchange,
+    ExecutionMode,
+    OrderSide,
+    OrderStatus,
+    RecoveryAction,
+    RecoveryStatus,
+    RiskLimit
+} from "./types";
+import type { Depth, ArbOpportunity, ExchangeAdapter, MarketPair, RiskState } from "./types";
 // In Jest, these globals are automatically available without imports
 
 // Mock the imports
-jest.mock("./probo", () => ({
-    createOrder: jest.fn().mockResolvedValue({ success: true, orderId: "probo-order-1" }),
-    getDepth: jest.fn().mockResolvedValue({
+jest.mock("./probo", () => {
+    const createOrder = jest.fn().mockResolvedValue({ success: true, orderId: "probo-order-1" });
+    const getDepth = jest.fn().mockResolvedValue({
         buy: { "1.8": "500" },
         sell: { "2.0": "1000" }
-    })
-}));
+    });
+    return {
+        createOrder,
+        getDepth,
+        proboAdapter: {
+            exchange: "probo",
+            createOrder,
+            getDepth,
+            getOrderStatus: jest.fn().mockResolvedValue({ orderId: "probo-order-1", exchange: "probo", status: "filled" }),
+            cancelOrder: jest.fn().mockResolvedValue({ success: true }),
+            cancelAllOrders: jest.fn().mockResolvedValue({ success: true })
+        }
+    };
+});
 
-jest.mock("./polymarket", () => ({
-    createOrder: jest.fn().mockResolvedValue({ success: true, orderId: "poly-order-1" }),
-    getDepth: jest.fn().mockResolvedValue({
+jest.mock("./polymarket", () => {
+    const createOrder = jest.fn().mockResolvedValue({ success: true, orderId: "poly-order-1" });
+    const getDepth = jest.fn().mockResolvedValue({
         buy: { "0.6": "200" },
         sell: { "0.8": "300" }
-    }),
-    approveAllowance: jest.fn().mockResolvedValue(true)
-}));
+    });
+    return {
+        createOrder,
+        getDepth,
+        approveAllowance: jest.fn().mockResolvedValue(true),
+        polymarketAdapter: {
+            exchange: "polymarket",
+            createOrder,
+            getDepth,
+            getOrderStatus: jest.fn().mockResolvedValue({ orderId: "poly-order-1", exchange: "polymarket", status: "filled" }),
+            cancelOrder: jest.fn().mockResolvedValue({ success: true }),
+            cancelAllOrders: jest.fn().mockResolvedValue({ success: true })
+        }
+    };
+});
 
 jest.mock("./config", () => ({
     getConfig: jest.fn().mockReturnValue({
         proboTokenId: 12345,
         polymarketTokenId: "6789",
+        polymarketNoTokenId: "9876",
+        proboYesSide: "buy",
+        proboNoSide: "sell",
         dollarPriceInr: 85,
         expectedArbPercentMin: 5,
-        dryRun: true
-    })
+        dryRun: true,
+        maxRetries: 0,
+        maxHedgeSlippagePercent: 2,
+        proboFeePercent: 0,
+        proboGstPercent: 0,
+        polymarketFeeRateBps: 0,
+        polygonGasCostUsd: 0,
+        fxSpreadPercent: 0,
+        polymarketTickSize: 0.01,
+        polymarketMinQty: 1,
+        polymarketMaxQty: 100000,
+        polymarketQtyStep: 0.01,
+        proboTickSize: 0.01,
+        proboMinQty: 1,
+        proboMaxQty: 100000,
+        proboQtyStep: 1,
+        fxRateMaxAgeMs: 60000,
+        fxMaxMovePercent: 0.5,
+        fxRateSource: "static",
+        maxConcurrentScans: 4,
+        executionMode: "sequential",
+        firstLeg: "polymarket",
+        legTimeoutMs: 10000,
+        orderPollIntervalMs: 0,
+        orderTrackTimeoutMs: 1000
+    }),
+    ensureConfigFile: jest.fn()
 }));
 
 jest.mock("./utils/helpers", () => {
@@ -42,6 +110,9 @@ jest.mock("./utils/helpers", () => {
     };
 });
 
+// Books as fetchPairDepth hands them over, stamped with the time they were fetched
+const fetched = (depth: Depth): Depth => ({ ...depth, fetchedAt: new Date().toISOString() });
+
 describe("Arbitrage Logic Tests", () => {
     // Sample test data
     const polyDepth: Depth = {
@@ -68,7 +139,7 @@ describe("Arbitrage Logic Tests", () => {
                 proboQty: 2550
             });
         
-        const result = await findAndExecArb(polyDepth, proboDepth);
+        const result = await findAndExecArb(fetched(polyDepth), fetched(proboDepth));
         
         expect(result).not.toBeNull();
         expect(result?.opportunity.found).toBe(true);
@@ -94,7 +165,7 @@ describe("Arbitrage Logic Tests", () => {
                 reason: "Profit below minimum threshold"
             });
 
-        const result = await findAndExecArb(polyDepth, proboDepth);
+        const result = await findAndExecArb(fetched(polyDepth), fetched(proboDepth));
         
         expect(result).toBeNull();
         
@@ -116,7 +187,7 @@ describe("Arbitrage Logic Tests", () => {
                 reason: "Combined price exceeds 10, no arbitrage possible"
             });
 
-        const result = await findAndExecArb(polyDepth, proboDepth);
+        const result = await findAndExecArb(fetched(polyDepth), fetched(proboDepth));
         
         expect(result).toBeNull();
         
@@ -130,13 +201,13 @@ describe("Direct Arbitrage Tests", () => {
     test("Viable arbitrage opportunity with specific depths", async () => {
         // This is a viable arbitrage (poly: 0.74, probo: 2.0)
         // Combined: 0.74*10 + 2.0 = 9.4 < 10, profit: 0.6 (6%)
-        const viableResult = await findAndExecArb({
+        const viableResult = await findAndExecArb(fetched({
             buy: { "0.7": "100" },
             sell: { "0.74": "100" }
-        }, {
+        }), fetched({
             buy: { "1.8": "100" },
             sell: { "2.0": "100000" }
-        });
+        }));
         
         expect(viableResult).not.toBeNull();
     });
@@ -144,18 +215,513 @@ describe("Direct Arbitrage Tests", () => {
     test("Non-viable arbitrage opportunity with specific depths", async () => {
         // This is a non-viable arbitrage (poly: 0.85, probo: 2.0)
         // Combined: 0.85*10 + 2.0 = 10.5 > 10, no arb possible
-        const nonViableResult = await findAndExecArb({
+        const nonViableResult = await findAndExecArb(fetched({
             buy: { "0.8": "100" },
             sell: { "0.85": "100" }
-        }, {
+        }), fetched({
             buy: { "1.9": "100" },
             sell: { "2.0": "100000" }
-        });
+        }));
         
         expect(nonViableResult).toBeNull();
     });
 });
 
+// In-memory exchange used in place of the real venues
+const createFakeExchange = (exchange: Exchange, orderId: string): ExchangeAdapter => ({
+    exchange,
+    getDepth: jest.fn(),
+    createOrder: jest.fn().mockResolvedValue({ success: true, orderId }),
+    getOrderStatus: jest.fn().mockImplementation(async (id: string) => ({ orderId: id, exchange, status: OrderStatus.FILLED })),
+    cancelOrder: jest.fn(),
+    cancelAllOrders: jest.fn(),
+    getBalance: jest.fn().mockResolvedValue(1000)
+});
+
+const viableOpportunity: ArbOpportunity = {
+    found: true,
+    isViable: true,
+    profitPercent: 7.5,
+    polymarketPrice: 0.8,
+    proboPrice: 2.0,
+    polymarketQty: 300,
+    proboQty: 2550
+};
+
+// Exchange adapter tests
+describe("Exchange Adapter Tests", () => {
+    test("findAndExecArb should place both legs on the supplied adapters", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue(viableOpportunity);
+        
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+        
+        expect(polymarket.createOrder).toHaveBeenCalledWith("6789", OrderSide.BUY, 300, 0.8);
+        expect(probo.createOrder).toHaveBeenCalledWith(12345, OrderSide.SELL, 2550, 2.0);
+        expect(result?.polymarketOrder.orderId).toBe("fake-poly-1");
+        expect(result?.proboOrder.orderId).toBe("fake-probo-1");
+        
+        calculateArbOpportunitySpy.mockRestore();
+    });
+
+    test("findAndExecArb should trade NO on Polymarket and YES on Probo when that direction is better", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+
+        // YES on Polymarket + NO on Probo is break-even; NO on Polymarket + YES on Probo pays 10%
+        const result = await findAndExecArb(
+            fetched({ buy: {}, sell: { "0.8": "100" } }),
+            fetched({ buy: { "3.0": "1000" }, sell: { "2.0": "1000" } }),
+            { polymarket, probo },
+            { depthPolyNo: fetched({ buy: {}, sell: { "0.6": "100" } }) }
+        );
+
+        expect(result?.opportunity.direction).toBe(ArbDirection.POLY_NO_PROBO_YES);
+        expect(polymarket.createOrder).toHaveBeenCalledWith("9876", OrderSide.BUY, 100, 0.6);
+        expect(probo.createOrder).toHaveBeenCalledWith(12345, OrderSide.BUY, 850, 3.0);
+    });
+});
+
+// Market pair tests
+describe("Market Pair Tests", () => {
+    const pair: MarketPair = {
+        id: "pair-1",
+        proboEventId: 111,
+        polymarketYesTokenId: "222",
+        expectedArbPercentMin: 2,
+        maxPolymarketQty: 40,
+        enabled: true,
+        tradingEnabled: true
+    };
+    const fxRate = { rate: 85, timestamp: new Date().toISOString(), maxAgeMs: 60000, source: "test" };
+
+    test("scanMarketPair should trade the pair's own markets within its threshold and size cap", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "0.77": "100" } });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.0": "100000" } });
+
+        // 3% profit is below the global 5% minimum but above this pair's 2%
+        const result = await scanMarketPair(pair, { polymarket, probo }, fxRate);
+
+        expect(polymarket.getDepth).toHaveBeenCalledWith("222");
+        expect(probo.getDepth).toHaveBeenCalledWith(111);
+        expect(polymarket.createOrder).toHaveBeenCalledWith("222", OrderSide.BUY, 40, 0.77);
+        expect(result?.opportunity.pairId).toBe("pair-1");
+    });
+
+    test("scanMarketPair should price but not trade a monitor-only pair", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "0.77": "100" } });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.0": "100000" } });
+
+        const result = await scanMarketPair({ ...pair, tradingEnabled: false }, { polymarket, probo }, fxRate);
+
+        expect(result).toBeNull();
+        expect(polymarket.createOrder).not.toHaveBeenCalled();
+    });
+
+    test("scanMarketPair should hand the books it priced to the depth recorder", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "0.9": "100" } });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.0": "100" } });
+        const recorder = { record: jest.fn(), close: jest.fn() };
+
+        await scanMarketPair(pair, { polymarket, probo }, fxRate, undefined, undefined, recorder);
+
+        expect(recorder.record).toHaveBeenCalledWith(expect.objectContaining({
+            pairId: "pair-1",
+            fxRate: 85,
+            probo: expect.objectContaining({
+                marketId: 111,
+                depthData: { buy: {}, sell: { "2.0": "100" }, fetchedAt: expect.any(String) }
+            }),
+            polymarketYes: expect.objectContaining({
+                marketId: "222",
+                depthData: { buy: {}, sell: { "0.9": "100" }, fetchedAt: expect.any(String) }
+            })
+        }));
+    });
+
+    test("checkMarketPairs should price a viable pair without sending an order, even with DRY_RUN off", async () => {
+        const baseConfig = (getConfig as jest.Mock)();
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, dryRun: false, paperBalanceUsd: 1000, paperBalanceInr: 100000 });
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "0.77": "100" } });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.0": "100000" } });
+        const fxRateProvider = { getRate: jest.fn().mockResolvedValue(fxRate) };
+
+        try {
+            const results = await checkMarketPairs([pair], { polymarket, probo }, fxRateProvider);
+
+            expect(results.map(result => result.opportunity.pairId)).toEqual(["pair-1"]);
+            expect(polymarket.createOrder).not.toHaveBeenCalled();
+            expect(probo.createOrder).not.toHaveBeenCalled();
+            expect(polymarket.getBalance).not.toHaveBeenCalled();
+        } finally {
+            (getConfig as jest.Mock).mockReturnValue(baseConfig);
+        }
+    });
+});
+
+// FX rate guard tests
+describe("FX Rate Guard Tests", () => {
+    test("findAndExecArb should refuse to trade on a stale FX rate", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+
+        const result = await findAndExecArb(
+            fetched({ buy: {}, sell: { "0.74": "100" } }),
+            fetched({ buy: {}, sell: { "2.0": "100000" } }),
+            { polymarket, probo },
+            { fxRate: { rate: 85, timestamp: "2020-01-01T00:00:00.000Z", maxAgeMs: 60000, source: "test" } }
+        );
+
+        expect(result).toBeNull();
+        expect(polymarket.createOrder).not.toHaveBeenCalled();
+    });
+
+    test("findAndExecArb should refuse to trade when the FX rate moves within the cycle", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const now = new Date().toISOString();
+
+        const result = await findAndExecArb(
+            fetched({ buy: {}, sell: { "0.74": "100" } }),
+            fetched({ buy: {}, sell: { "2.0": "100000" } }),
+            { polymarket, probo },
+            {
+                fxRate: { rate: 85, timestamp: now, maxAgeMs: 60000, source: "test" },
+                fxRateProvider: {
+                    getRate: jest.fn().mockResolvedValue({ rate: 86, timestamp: now, maxAgeMs: 60000, source: "test" })
+                }
+            }
+        );
+
+        expect(result).toBeNull();
+        expect(polymarket.createOrder).not.toHaveBeenCalled();
+    });
+});
+
+// Stale book tests
+describe("Book Age Tests", () => {
+    const baseConfig = (getConfig as jest.Mock)();
+
+    beforeEach(() => {
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, maxBookAgeMs: 10000, maxBookSkewMs: 2000 });
+    });
+
+    afterEach(() => {
+        (getConfig as jest.Mock).mockReturnValue(baseConfig);
+    });
+
+    const fetchedAgo = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+    test("findAndExecArb should refuse to trade on a stale book and log why", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+
+        const result = await findAndExecArb(
+            { buy: {}, sell: { "0.74": "100" }, fetchedAt: fetchedAgo(0) },
+            { buy: {}, sell: { "2.0": "100000" }, fetchedAt: fetchedAgo(30000) },
+            { polymarket, probo }
+        );
+
+        expect(result).toBeNull();
+        expect(polymarket.createOrder).not.toHaveBeenCalled();
+        expect(getRecentOpportunities(1)[0].opportunity.reason).toMatch(/^Stale probo book: fetched \d+ms ago \(max 10000ms\)$/);
+    });
+
+    test("findAndExecArb should refuse to trade on books fetched too far apart", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+
+        const result = await findAndExecArb(
+            { buy: {}, sell: { "0.74": "100" }, fetchedAt: fetchedAgo(5000) },
+            { buy: {}, sell: { "2.0": "100000" }, fetchedAt: fetchedAgo(0) },
+            { polymarket, probo }
+        );
+
+        expect(result).toBeNull();
+        expect(probo.createOrder).not.toHaveBeenCalled();
+        expect(getRecentOpportunities(1)[0].opportunity.reason).toMatch(/^Books fetched \d+ms apart \(max 2000ms\)$/);
+    });
+
+    test("findAndExecArb should refuse to trade on a book with no fetch time", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+
+        const result = await findAndExecArb(
+            { buy: {}, sell: { "0.74": "100" } },
+            { buy: {}, sell: { "2.0": "100000" }, fetchedAt: fetchedAgo(0) },
+            { polymarket, probo }
+        );
+
+        expect(result).toBeNull();
+        expect(polymarket.createOrder).not.toHaveBeenCalled();
+        expect(getRecentOpportunities(1)[0].opportunity.reason).toBe("No fetch time on polymarket book");
+    });
+
+    test("findAndExecArb should trade on fresh books", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+
+        await findAndExecArb(
+            { buy: {}, sell: { "0.74": "100" }, fetchedAt: fetchedAgo(500) },
+            { buy: {}, sell: { "2.0": "100000" }, fetchedAt: fetchedAgo(0) },
+            { polymarket, probo }
+        );
+
+        expect(polymarket.createOrder).toHaveBeenCalledTimes(1);
+        expect(probo.createOrder).toHaveBeenCalledTimes(1);
+    });
+});
+
+// Correlation ID tests
+describe("Log Correlation Tests", () => {
+    test("findAndExecArb should tag every line about an opportunity, both legs included, with its ID", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const sink = createMemorySink();
+        const removeSink = logger.addSink(sink);
+        const level = logger.getLevel();
+        logger.setLevel("info");
+
+        try {
+            await findAndExecArb(
+                fetched({ buy: {}, sell: { "0.74": "100" } }),
+                fetched({ buy: {}, sell: { "2.0": "100000" } }),
+                { polymarket, probo }
+            );
+        } finally {
+            removeSink();
+            logger.setLevel(level);
+        }
+
+        const opportunityId = getRecentOpportunities(1)[0].opportunity.opportunityId;
+        expect(opportunityId).toMatch(/^opp-/);
+        expect(sink.entries.map(entry => entry.opportunityId)).toEqual(sink.entries.map(() => opportunityId));
+        expect(sink.entries.map(entry => entry.message)).toEqual(expect.arrayContaining([
+            "Viable arbitrage opportunity found",
+            "polymarket order fake-poly-1 filled",
+            "probo order fake-probo-1 filled",
+            "Arbitrage execution completed"
+        ]));
+    });
+});
+
+// Metrics tests
+describe("Metrics Tests", () => {
+    test("findAndExecArb should count the opportunity through to its fills", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const counts = () => ({
+            found: botMetrics.opportunitiesFound.get({ pair: "default" }),
+            viable: botMetrics.opportunitiesViable.get({ pair: "default" }),
+            executed: botMetrics.opportunitiesExecuted.get({ pair: "default" }),
+            polyFilled: botMetrics.legs.get({ exchange: Exchange.POLYMARKET, result: "filled" }),
+            proboFilled: botMetrics.legs.get({ exchange: Exchange.PROBO, result: "filled" }),
+            proboOrdered: botMetrics.legOrderedShares.get({ exchange: Exchange.PROBO }),
+            proboShares: botMetrics.legFilledShares.get({ exchange: Exchange.PROBO })
+        });
+        const before = counts();
+
+        const result = await findAndExecArb(
+            fetched({ buy: {}, sell: { "0.74": "100" } }),
+            fetched({ buy: {}, sell: { "2.0": "100000" } }),
+            { polymarket, probo }
+        );
+        const after = counts();
+
+        expect(after.found - before.found).toBe(1);
+        expect(after.viable - before.viable).toBe(1);
+        expect(after.executed - before.executed).toBe(1);
+        expect(after.polyFilled - before.polyFilled).toBe(1);
+        expect(after.proboFilled - before.proboFilled).toBe(1);
+        expect(after.proboShares - before.proboShares).toBe(after.proboOrdered - before.proboOrdered);
+        expect(botMetrics.profitPercent.get({ pair: "default" })).toBe(result?.opportunity.profitPercent);
+    });
+
+    test("findAndExecArb should report the spread without counting a crossed book as found", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const found = botMetrics.opportunitiesFound.get({ pair: "default" });
+        const executed = botMetrics.opportunitiesExecuted.get({ pair: "default" });
+
+        await findAndExecArb(
+            fetched({ buy: {}, sell: { "0.55": "100" } }),
+            fetched({ buy: {}, sell: { "5.0": "100000" } }),
+            { polymarket, probo }
+        );
+
+        expect(botMetrics.opportunitiesFound.get({ pair: "default" })).toBe(found);
+        expect(botMetrics.opportunitiesExecuted.get({ pair: "default" })).toBe(executed);
+        expect(botMetrics.spreadPercent.get({ pair: "default" })).toBeCloseTo(-5);
+        expect(registry.render()).not.toContain('arb_profit_percent{pair="default"}');
+    });
+});
+
+// Leg recovery tests
+describe("Leg Recovery Tests", () => {
+    const failedOrder = { success: false, error: new Error("rejected"), exchangeResponse: null };
+    let calculateArbOpportunitySpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue(viableOpportunity);
+    });
+
+    afterEach(() => {
+        calculateArbOpportunitySpy.mockRestore();
+    });
+
+    test("should not send the Probo leg when the Polymarket leg fails", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (polymarket.createOrder as jest.Mock).mockResolvedValue(failedOrder);
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(probo.createOrder).not.toHaveBeenCalled();
+        expect(result?.recovery).toBeUndefined();
+    });
+
+    test("should re-price the missing Probo leg within the slippage budget", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-hedge");
+        (probo.createOrder as jest.Mock)
+            .mockResolvedValueOnce(failedOrder)
+            .mockResolvedValueOnce({ success: true, orderId: "fake-probo-hedge" });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.02": "5000" } });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(probo.createOrder).toHaveBeenLastCalledWith(12345, OrderSide.SELL, 2550, 2.02);
+        expect(result?.recovery?.status).toBe(RecoveryStatus.HEDGED);
+        expect(result?.recovery?.steps.map(step => step.action))
+            .toEqual([RecoveryAction.DETECTED, RecoveryAction.HEDGE_ORDER]);
+    });
+
+    test("should size the hedge to what the first leg actually filled", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-hedge");
+        // Only 100 of the 300 Polymarket shares fill before the order is cancelled
+        (polymarket.getOrderStatus as jest.Mock).mockResolvedValue({
+            orderId: "fake-poly-1", exchange: Exchange.POLYMARKET, status: OrderStatus.CANCELLED, filledQty: 100
+        });
+        (probo.createOrder as jest.Mock)
+            .mockResolvedValueOnce(failedOrder)
+            .mockResolvedValueOnce({ success: true, orderId: "fake-probo-hedge" });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.0": "5000" } });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        // 100 shares paying $1 at ₹85 are matched by 850 Probo shares paying ₹10
+        expect(probo.createOrder).toHaveBeenLastCalledWith(12345, OrderSide.SELL, 850, 2.0);
+        expect(result?.recovery?.status).toBe(RecoveryStatus.HEDGED);
+    });
+
+    test("should hedge the difference when both legs fill short by different amounts", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        // 100 Polymarket shares against 340 Probo shares, worth 40 Polymarket shares
+        (polymarket.getOrderStatus as jest.Mock).mockResolvedValue({
+            orderId: "fake-poly-1", exchange: Exchange.POLYMARKET, status: OrderStatus.CANCELLED, filledQty: 100
+        });
+        (probo.getOrderStatus as jest.Mock).mockImplementation(async (orderId: string) => orderId === "fake-probo-1"
+            ? { orderId, exchange: Exchange.PROBO, status: OrderStatus.CANCELLED, filledQty: 340 }
+            : { orderId, exchange: Exchange.PROBO, status: OrderStatus.FILLED });
+        (probo.createOrder as jest.Mock)
+            .mockResolvedValueOnce({ success: true, orderId: "fake-probo-1" })
+            .mockResolvedValueOnce({ success: true, orderId: "fake-probo-hedge" });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.0": "5000" } });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        // The 60 unmatched Polymarket shares need 510 more Probo shares
+        expect(probo.createOrder).toHaveBeenLastCalledWith(12345, OrderSide.SELL, 510, 2.0);
+        expect(result?.recovery?.status).toBe(RecoveryStatus.HEDGED);
+        expect(result?.recovery?.filledExchange).toBe(Exchange.POLYMARKET);
+        expect(result?.recovery?.steps[0]).toMatchObject({ action: RecoveryAction.DETECTED, size: 60 });
+    });
+
+    test("should round the hedge onto the Probo quantity step and record the remainder", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-hedge");
+        // 100.5 Polymarket shares are matched by 854.25 Probo shares, but Probo only takes whole shares
+        (polymarket.getOrderStatus as jest.Mock).mockResolvedValue({
+            orderId: "fake-poly-1", exchange: Exchange.POLYMARKET, status: OrderStatus.CANCELLED, filledQty: 100.5
+        });
+        (probo.createOrder as jest.Mock)
+            .mockResolvedValueOnce(failedOrder)
+            .mockResolvedValueOnce({ success: true, orderId: "fake-probo-hedge" });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.0": "5000" } });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(probo.createOrder).toHaveBeenLastCalledWith(12345, OrderSide.SELL, 854, 2.0);
+        expect(result?.recovery?.status).toBe(RecoveryStatus.HEDGED);
+        expect(result?.recovery?.steps.map(step => step.action))
+            .toEqual([RecoveryAction.DETECTED, RecoveryAction.RESIDUAL_EXPOSURE, RecoveryAction.HEDGE_ORDER]);
+        expect(result?.recovery?.steps[1].size).toBeCloseTo(0.25);
+    });
+
+    test("should record a fill below both venues' minimum order as residual exposure", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        // 0.1 Polymarket shares need 0.85 Probo shares to hedge and cannot be sold back either
+        (polymarket.getOrderStatus as jest.Mock).mockResolvedValue({
+            orderId: "fake-poly-1", exchange: Exchange.POLYMARKET, status: OrderStatus.CANCELLED, filledQty: 0.1
+        });
+        (probo.createOrder as jest.Mock).mockResolvedValue(failedOrder);
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.0": "5000" } });
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: { "0.78": "500" }, sell: {} });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(probo.createOrder).toHaveBeenCalledTimes(1);
+        expect(polymarket.createOrder).toHaveBeenCalledTimes(1);
+        expect(result?.recovery?.status).toBe(RecoveryStatus.RESIDUAL);
+        expect(result?.recovery?.steps.map(step => step.action)).toEqual([
+            RecoveryAction.DETECTED,
+            RecoveryAction.RESIDUAL_EXPOSURE,
+            RecoveryAction.RESIDUAL_EXPOSURE
+        ]);
+    });
+
+    test("should sell the filled Polymarket leg when the hedge exceeds the slippage budget", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.createOrder as jest.Mock).mockResolvedValue(failedOrder);
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.5": "5000" } });
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: { "0.78": "500" }, sell: {} });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(polymarket.createOrder).toHaveBeenLastCalledWith("6789", OrderSide.SELL, 300, 0.78);
+        expect(result?.recovery?.status).toBe(RecoveryStatus.UNWOUND);
+        expect(result?.recovery?.steps.map(step => step.action))
+            .toEqual([RecoveryAction.DETECTED, RecoveryAction.HEDGE_SKIPPED, RecoveryAction.UNWIND_ORDER]);
+    });
+
+    test("should report unknown exposure when neither hedge nor unwind succeeds", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.createOrder as jest.Mock).mockResolvedValue(failedOrder);
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: {} });
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: {} });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(result?.recovery?.status).toBe(RecoveryStatus.FAILED);
+    });
+});
+
 // Helper function tests
 describe("Helper Function Tests", () => {
     test("calculateArbOpportunity should calculate correct arbitrage values", () => {
@@ -178,4 +744,779 @@ describe("Helper Function Tests", () => {
         expect(result.profitPercent).toBeCloseTo(0);
         expect(result.isViable).toBe(false);
     });
+
+    test("calculateArbOpportunity should walk the books while every level clears the threshold", () => {
+        const polyDepth: Depth = {
+            buy: { "0.6": "100" },
+            sell: { "0.7": "100", "0.72": "100", "0.78": "100" }
+        };
+
+        const proboDepth: Depth = {
+            buy: { "1.8": "500" },
+            sell: { "2.0": "850", "2.2": "10000" }
+        };
+
+        const result = calculateArbOpportunity(polyDepth, proboDepth);
+
+        // (0.70, 2.0) clears 10%, (0.72, 2.2) clears 6%, (0.78, 2.2) is break-even and is left out
+        expect(result.isViable).toBe(true);
+        expect(result.levels).toHaveLength(2);
+        expect(result.levels?.[1].profitPercent).toBeCloseTo(6);
+        expect(result.polymarketQty).toBeCloseTo(200);
+        expect(result.proboQty).toBeCloseTo(1700);
+        expect(result.polymarketPrice).toBe(0.72);
+        expect(result.proboPrice).toBe(2.2);
+        expect(result.polymarketAvgPrice).toBeCloseTo(0.71);
+        expect(result.proboAvgPrice).toBeCloseTo(2.1);
+        expect(result.profitPercent).toBeCloseTo(8);
+    });
+});
+
+// Cost model tests
+describe("Cost Model Tests", () => {
+    const baseConfig = (getConfig as jest.Mock)();
+
+    afterEach(() => {
+        (getConfig as jest.Mock).mockReturnValue(baseConfig);
+    });
+
+    test("calculateArbOpportunity should reject opportunities that are only profitable before costs", () => {
+        (getConfig as jest.Mock).mockReturnValue({
+            ...baseConfig,
+            proboFeePercent: 2,
+            proboGstPercent: 18,
+            polygonGasCostUsd: 0.01,
+            fxSpreadPercent: 1
+        });
+
+        const result = calculateArbOpportunity(
+            { buy: {}, sell: { "0.74": "100" } },
+            { buy: {}, sell: { "2.0": "100000" } }
+        );
+
+        // 6% gross, but fees, GST and the FX spread take it to ~3.8%
+        expect(result.found).toBe(true);
+        expect(result.isViable).toBe(false);
+        expect(result.grossProfitPercent).toBeCloseTo(6);
+        expect(result.profitPercent).toBeLessThan(4);
+        expect(result.costs?.proboTaxInr).toBeGreaterThan(0);
+        expect(result.reason).toBe("Profit below minimum threshold after costs");
+    });
+
+    test("calculateArbOpportunity should report net equal to gross without costs", () => {
+        const result = calculateArbOpportunity(
+            { buy: {}, sell: { "0.74": "100" } },
+            { buy: {}, sell: { "2.0": "100000" } }
+        );
+
+        expect(result.isViable).toBe(true);
+        expect(result.profitPercent).toBeCloseTo(6);
+        expect(result.costs?.totalCostsInr).toBeCloseTo(0);
+    });
+});
+
+// Pre-trade risk limit tests
+describe("Risk Limit Tests", () => {
+    const baseConfig = (getConfig as jest.Mock)();
+    const limits = {
+        maxNotionalPerTradeInr: 50000,
+        maxExposurePerMarketInr: 100000,
+        maxExposurePerExchangeInr: 100000,
+        maxDailyLossInr: 5000,
+        maxTradesPerHour: 10
+    };
+    const emptyState: RiskState = {
+        exposureByMarketInr: {},
+        exposureByExchangeInr: {},
+        dailyLossInr: 0,
+        tradesLastHour: 0
+    };
+
+    beforeEach(() => {
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, ...limits });
+    });
+
+    afterEach(() => {
+        (getConfig as jest.Mock).mockReturnValue(baseConfig);
+    });
+
+    test("checkRiskLimits should allow a trade within every limit", () => {
+        // 300 * $0.8 * 85 + 2550 * ₹2 = ₹25,500
+        expect(checkRiskLimits(viableOpportunity, emptyState)).toBeNull();
+    });
+
+    test("checkRiskLimits should reject a trade above the notional limit", () => {
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, ...limits, maxNotionalPerTradeInr: 20000 });
+
+        const rejection = checkRiskLimits(viableOpportunity, emptyState);
+
+        expect(rejection?.limit).toBe(RiskLimit.MAX_NOTIONAL_PER_TRADE);
+        expect(rejection?.value).toBeCloseTo(25500);
+        expect(rejection?.threshold).toBe(20000);
+    });
+
+    test("checkRiskLimits should include open exposure on the market and exchange", () => {
+        const marketRejection = checkRiskLimits(
+            { ...viableOpportunity, pairId: "btc-100k" },
+            { ...emptyState, exposureByMarketInr: { "btc-100k": 80000 } }
+        );
+        expect(marketRejection?.limit).toBe(RiskLimit.MAX_MARKET_EXPOSURE);
+        expect(marketRejection?.pairId).toBe("btc-100k");
+
+        const exchangeRejection = checkRiskLimits(
+            viableOpportunity,
+            { ...emptyState, exposureByExchangeInr: { [Exchange.POLYMARKET]: 90000 } }
+        );
+        expect(exchangeRejection?.limit).toBe(RiskLimit.MAX_EXCHANGE_EXPOSURE);
+        expect(exchangeRejection?.exchange).toBe(Exchange.POLYMARKET);
+    });
+
+    test("checkRiskLimits should stop trading after the daily loss or hourly trade limit", () => {
+        expect(checkRiskLimits(viableOpportunity, { ...emptyState, dailyLossInr: 5000 })?.limit)
+            .toBe(RiskLimit.MAX_DAILY_LOSS);
+        expect(checkRiskLimits(viableOpportunity, { ...emptyState, tradesLastHour: 10 })?.limit)
+            .toBe(RiskLimit.MAX_TRADES_PER_HOUR);
+    });
+
+    test("findAndExecArb should not place orders when a risk limit rejects the trade", async () => {
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, ...limits, maxNotionalPerTradeInr: 1000 });
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...viableOpportunity });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(result).toBeNull();
+        expect(polymarket.createOrder).not.toHaveBeenCalled();
+        expect(probo.createOrder).not.toHaveBeenCalled();
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+});
+
+// Circuit breaker integration tests
+describe("Circuit Breaker Integration Tests", () => {
+    test("findAndExecArb should keep pricing but not trade while the breaker is open", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const circuitBreaker = {
+            getTradingBlock: jest.fn().mockReturnValue("Circuit breaker open"),
+            recordResult: jest.fn(),
+            recordOneSidedFill: jest.fn(),
+            getStatus: jest.fn(),
+            reset: jest.fn()
+        };
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...viableOpportunity });
+
+        const result = await findAndExecArb(
+            fetched({ buy: {}, sell: {} }),
+            fetched({ buy: {}, sell: {} }),
+            { polymarket, probo },
+            { circuitBreaker }
+        );
+
+        expect(result).toBeNull();
+        expect(calculateArbOpportunitySpy).toHaveBeenCalled();
+        expect(polymarket.createOrder).not.toHaveBeenCalled();
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+
+    test("findAndExecArb should report leg outcomes and one-sided fills to the breaker", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.createOrder as jest.Mock).mockResolvedValue({ success: false, error: new Error("rejected") });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.0": "5000" } });
+        const circuitBreaker = {
+            getTradingBlock: jest.fn().mockReturnValue(null),
+            recordResult: jest.fn(),
+            recordOneSidedFill: jest.fn(),
+            getStatus: jest.fn(),
+            reset: jest.fn()
+        };
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...viableOpportunity });
+
+        await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo }, { circuitBreaker });
+
+        expect(circuitBreaker.recordResult).toHaveBeenCalledWith(Exchange.POLYMARKET, "order", true);
+        expect(circuitBreaker.recordResult).toHaveBeenCalledWith(Exchange.PROBO, "order", false);
+        expect(circuitBreaker.recordOneSidedFill).toHaveBeenCalledTimes(1);
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+
+    test("scanMarketPair should report a failed NO token book to the breaker", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (polymarket.getDepth as jest.Mock).mockImplementation(async (tokenId: string) => {
+            if (tokenId === "333") {
+                throw new Error("timeout");
+            }
+            return { buy: {}, sell: { "0.9": "100" } };
+        });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.0": "100" } });
+        const circuitBreaker = {
+            getTradingBlock: jest.fn().mockReturnValue(null),
+            recordResult: jest.fn(),
+            recordOneSidedFill: jest.fn(),
+            getStatus: jest.fn(),
+            reset: jest.fn()
+        };
+        const pair: MarketPair = {
+            id: "pair-1",
+            proboEventId: 111,
+            polymarketYesTokenId: "222",
+            polymarketNoTokenId: "333",
+            enabled: true,
+            tradingEnabled: true
+        };
+        const fxRate = { rate: 85, timestamp: new Date().toISOString(), maxAgeMs: 60000, source: "test" };
+
+        await scanMarketPair(pair, { polymarket, probo }, fxRate, undefined, circuitBreaker);
+
+        expect(circuitBreaker.recordResult.mock.calls.filter(([, channel]) => channel === "depth")).toEqual([
+            [Exchange.PROBO, "depth", true],
+            [Exchange.POLYMARKET, "depth", true],
+            [Exchange.POLYMARKET, "depth", false]
+        ]);
+    });
+});
+
+// Graceful shutdown tests
+describe("Graceful Shutdown Tests", () => {
+    test("startArbBot should finish the trade in flight before stopping", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const controller = new AbortController();
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "0.7": "100" } });
+        // Guard against looping forever if no trade is ever placed
+        (probo.getDepth as jest.Mock).mockImplementation(async () => {
+            if ((probo.getDepth as jest.Mock).mock.calls.length > 5) {
+                controller.abort();
+            }
+            return { buy: {}, sell: { "2.0": "1000" } };
+        });
+        // Stop arrives between the two legs
+        (polymarket.createOrder as jest.Mock).mockImplementation(async () => {
+            controller.abort();
+            return { success: true, orderId: "fake-poly-1" };
+        });
+
+        await startArbBot(10, { polymarket, probo }, controller.signal);
+
+        expect(polymarket.createOrder).toHaveBeenCalledTimes(1);
+        expect(probo.createOrder).toHaveBeenCalledTimes(1);
+    });
+
+    test("startArbBot should stop retrying the allowance approval on shutdown", async () => {
+        const baseConfig = (getConfig as jest.Mock)();
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, maxRetries: 5, retryDelayMs: 60000 });
+        (sleep as jest.Mock).mockImplementation((ms: number) => new Promise(resolve => setTimeout(resolve, ms)));
+        const approveAllowance = require("./polymarket").approveAllowance as jest.Mock;
+        approveAllowance.mockClear();
+        const controller = new AbortController();
+        approveAllowance.mockImplementationOnce(async () => {
+            controller.abort();
+            throw new Error("RPC unavailable");
+        });
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const startedAt = Date.now();
+
+        try {
+            await startArbBot(10, { polymarket, probo }, controller.signal);
+        } finally {
+            (sleep as jest.Mock).mockResolvedValue(undefined);
+            (getConfig as jest.Mock).mockReturnValue(baseConfig);
+        }
+
+        expect(Date.now() - startedAt).toBeLessThan(5000);
+        expect(approveAllowance).toHaveBeenCalledTimes(1);
+        expect(approveAllowance).toHaveBeenCalledWith("6789", expect.any(AbortSignal));
+        expect(probo.getDepth).not.toHaveBeenCalled();
+    });
+
+    test("startArbBot should cancel resting orders on shutdown when configured", async () => {
+        const baseConfig = (getConfig as jest.Mock)();
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, cancelOrdersOnShutdown: true });
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (polymarket.cancelAllOrders as jest.Mock).mockResolvedValue({ success: true });
+        (probo.cancelAllOrders as jest.Mock).mockResolvedValue({ success: true });
+        const controller = new AbortController();
+        controller.abort();
+
+        await startArbBot(10, { polymarket, probo }, controller.signal);
+
+        expect(probo.cancelAllOrders).toHaveBeenCalledWith(12345);
+        expect(polymarket.cancelAllOrders).toHaveBeenCalledWith("6789");
+        (getConfig as jest.Mock).mockReturnValue(baseConfig);
+    });
+
+    test("startArbBot should not start a cycle once stopped", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const controller = new AbortController();
+        controller.abort();
+
+        await startArbBot(10, { polymarket, probo }, controller.signal);
+
+        expect(polymarket.getDepth).not.toHaveBeenCalled();
+        expect(probo.getDepth).not.toHaveBeenCalled();
+    });
+});
+
+// Streaming market data tests
+describe("Streaming Market Data Tests", () => {
+    const baseConfig = (getConfig as jest.Mock)();
+
+    beforeEach(() => {
+        // The refresh loop has to actually wait between registry reloads
+        (sleep as jest.Mock).mockImplementation((ms: number) => new Promise(resolve => setTimeout(resolve, ms)));
+        // No websocket URL, so both venues are polled adaptively
+        (getConfig as jest.Mock).mockReturnValue({
+            ...baseConfig,
+            marketDataMode: "stream",
+            polymarketWsUrl: "",
+            pollMinIntervalMs: 5,
+            pollMaxIntervalMs: 20
+        });
+    });
+
+    afterEach(() => {
+        (sleep as jest.Mock).mockResolvedValue(undefined);
+        (getConfig as jest.Mock).mockReturnValue(baseConfig);
+    });
+
+    test("startArbBot should trade as soon as a book change makes a pair profitable", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const controller = new AbortController();
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "0.7": "100" } });
+        (probo.getDepth as jest.Mock).mockImplementation(async () =>
+            (probo.getDepth as jest.Mock).mock.calls.length < 3
+                ? { buy: {}, sell: { "9.5": "1000" } }
+                : { buy: {}, sell: { "2.0": "1000" } });
+        (probo.createOrder as jest.Mock).mockImplementation(async () => {
+            controller.abort();
+            return { success: true, orderId: "fake-probo-1" };
+        });
+        const timeout = setTimeout(() => controller.abort(), 5000);
+
+        await startArbBot(200, { polymarket, probo }, controller.signal);
+        clearTimeout(timeout);
+
+        expect(polymarket.createOrder).toHaveBeenCalledTimes(1);
+        expect(probo.createOrder).toHaveBeenCalledTimes(1);
+    });
+
+    test("startArbBot should not re-evaluate a pair while its books are unchanged", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const controller = new AbortController();
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "0.99": "100" } });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "9.5": "1000" } });
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity');
+
+        const running = startArbBot(200, { polymarket, probo }, controller.signal);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        const evaluations = calculateArbOpportunitySpy.mock.calls.length;
+        const polls = (probo.getDepth as jest.Mock).mock.calls.length;
+        await new Promise(resolve => setTimeout(resolve, 100));
+        controller.abort();
+        await running;
+
+        expect(evaluations).toBeGreaterThan(0);
+        expect((probo.getDepth as jest.Mock).mock.calls.length).toBeGreaterThan(polls);
+        expect(calculateArbOpportunitySpy.mock.calls.length).toBe(evaluations);
+        expect(polymarket.createOrder).not.toHaveBeenCalled();
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+});
+
+// Leg execution mode tests
+describe("Execution Mode Tests", () => {
+    const baseConfig = (getConfig as jest.Mock)();
+
+    afterEach(() => {
+        (getConfig as jest.Mock).mockReturnValue(baseConfig);
+    });
+
+    const runWith = async (config: Record<string, unknown>, polymarket: ExchangeAdapter, probo: ExchangeAdapter) => {
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, ...config });
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...viableOpportunity });
+        const result = await findAndExecArb(
+            fetched({ buy: {}, sell: { "0.8": "300" } }),
+            fetched({ buy: {}, sell: { "2.0": "100000" } }),
+            { polymarket, probo }
+        );
+        calculateArbOpportunitySpy.mockRestore();
+        return result;
+    };
+
+    test("concurrent mode should send both legs before either is acknowledged and record latency", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        let releasePoly: () => void = () => undefined;
+        (polymarket.createOrder as jest.Mock).mockImplementation(() => new Promise(resolve => {
+            releasePoly = () => resolve({ success: true, orderId: "fake-poly-1" });
+        }));
+
+        const pending = runWith({ executionMode: "concurrent" }, polymarket, probo);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(probo.createOrder).toHaveBeenCalledTimes(1);
+        releasePoly();
+        const result = await pending;
+
+        expect(result?.executionMode).toBe(ExecutionMode.CONCURRENT);
+        expect(result?.polymarketLeg?.latencyMs).toBeGreaterThanOrEqual(15);
+        expect(result?.proboLeg?.ackedAt).toBeDefined();
+        expect(result?.recovery).toBeUndefined();
+    });
+
+    test("concurrent mode should unwind a partial outcome instead of hedging", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.createOrder as jest.Mock).mockResolvedValue({ success: false, error: new Error("rejected") });
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: { "0.79": "500" }, sell: {} });
+
+        const result = await runWith({ executionMode: "concurrent" }, polymarket, probo);
+
+        expect(result?.recovery?.status).toBe(RecoveryStatus.UNWOUND);
+        expect(result?.recovery?.steps.map(step => step.action))
+            .toEqual([RecoveryAction.DETECTED, RecoveryAction.UNWIND_ORDER]);
+        expect(probo.getDepth).not.toHaveBeenCalled();
+    });
+
+    test("a filled Probo leg should be unwound by buying the other outcome at its asks", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (polymarket.createOrder as jest.Mock).mockResolvedValue({ success: false, error: new Error("rejected") });
+        // NO (sell) was bought; YES (buy) asks are far from the NO asks
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: { "7.0": "100", "6.5": "5000" }, sell: { "2.1": "5000" } });
+
+        const result = await runWith({ executionMode: "concurrent" }, polymarket, probo);
+
+        expect(probo.createOrder).toHaveBeenLastCalledWith(12345, OrderSide.BUY, 2550, 6.5);
+        expect(result?.recovery?.status).toBe(RecoveryStatus.UNWOUND);
+        expect(result?.recovery?.steps[1]).toMatchObject({
+            action: RecoveryAction.UNWIND_ORDER,
+            exchange: Exchange.PROBO,
+            side: OrderSide.BUY,
+            price: 6.5
+        });
+    });
+
+    test("a leg that is not acknowledged in time should be marked timed out", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.createOrder as jest.Mock).mockImplementation(() => new Promise(() => undefined));
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: { "0.79": "500" }, sell: {} });
+
+        const result = await runWith({ executionMode: "concurrent", legTimeoutMs: 20 }, polymarket, probo);
+
+        expect(result?.proboLeg?.timedOut).toBe(true);
+        expect(result?.proboLeg?.ackedAt).toBeUndefined();
+        expect(result?.proboOrder.error?.message).toContain("timed out");
+        expect(result?.recovery?.status).toBe(RecoveryStatus.UNWOUND);
+        // Whatever rests of the timed-out leg is cancelled before the other leg is unwound
+        expect(probo.cancelAllOrders).toHaveBeenCalledWith(12345);
+        const unwindOrder = (polymarket.createOrder as jest.Mock).mock.invocationCallOrder[1];
+        expect((probo.cancelAllOrders as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(unwindOrder);
+    });
+
+    test("a timed-out leg should not be retried once its time is up", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.createOrder as jest.Mock).mockImplementation(() => new Promise(resolve => setTimeout(
+            () => resolve({ success: false, error: new Error("busy") }), 30
+        )));
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: { "0.79": "500" }, sell: {} });
+
+        const result = await runWith({ executionMode: "concurrent", legTimeoutMs: 20, maxRetries: 3 }, polymarket, probo);
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(probo.createOrder).toHaveBeenCalledTimes(1);
+        expect(result?.proboLeg?.timedOut).toBe(true);
+        expect(result?.recovery?.status).toBe(RecoveryStatus.UNWOUND);
+    });
+
+    test("a leg acknowledged after its timeout should be reconciled as placed", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.createOrder as jest.Mock).mockImplementation(() => new Promise(resolve => setTimeout(
+            () => resolve({ success: true, orderId: "fake-probo-1" }), 30
+        )));
+
+        const result = await runWith({ executionMode: "concurrent", legTimeoutMs: 20 }, polymarket, probo);
+
+        expect(result?.proboLeg?.timedOut).toBe(true);
+        expect(result?.proboLeg?.ackedAt).toBeDefined();
+        expect(result?.proboOrder.success).toBe(true);
+        expect(result?.recovery).toBeUndefined();
+        expect(probo.cancelAllOrders).not.toHaveBeenCalled();
+    });
+
+    test("sequential mode should send the less liquid leg first when configured", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        // The Polymarket leg takes its whole book, the Probo leg ~2.5% of it
+        (polymarket.createOrder as jest.Mock).mockResolvedValue({ success: false, error: new Error("rejected") });
+
+        const result = await runWith({ firstLeg: "less_liquid" }, polymarket, probo);
+
+        expect(polymarket.createOrder).toHaveBeenCalledTimes(1);
+        expect(probo.createOrder).not.toHaveBeenCalled();
+        expect(result?.proboLeg?.submittedAt).toBeUndefined();
+        expect(result?.recovery).toBeUndefined();
+    });
+
+    test("sequential mode should send Probo first when configured", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.createOrder as jest.Mock).mockResolvedValue({ success: false, error: new Error("rejected") });
+
+        const result = await runWith({ firstLeg: "probo" }, polymarket, probo);
+
+        expect(probo.createOrder).toHaveBeenCalledTimes(1);
+        expect(polymarket.createOrder).not.toHaveBeenCalled();
+        expect(result?.executionMode).toBe(ExecutionMode.SEQUENTIAL);
+        expect(result?.polymarketLeg?.submittedAt).toBeUndefined();
+    });
+});
+
+// Order tracking tests
+describe("Order Tracking Tests", () => {
+    test("findAndExecArb should record the filled quantity and price of each leg", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.getOrderStatus as jest.Mock)
+            .mockResolvedValueOnce({ orderId: "fake-probo-1", exchange: Exchange.PROBO, status: OrderStatus.OPEN })
+            .mockResolvedValueOnce({
+                orderId: "fake-probo-1",
+                exchange: Exchange.PROBO,
+                status: OrderStatus.FILLED,
+                filledQty: 2550,
+                avgFillPrice: 1.95
+            });
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...viableOpportunity });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(probo.getOrderStatus).toHaveBeenCalledTimes(2);
+        expect(result?.proboFill).toMatchObject({ status: OrderStatus.FILLED, filledQty: 2550, avgFillPrice: 1.95 });
+        // No quantity reported, so the full order filled at its limit
+        expect(result?.polymarketFill).toMatchObject({ filledQty: 300, avgFillPrice: 0.8 });
+        expect(result?.recovery).toBeUndefined();
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+
+    test("findAndExecArb should recover when an accepted order expires without filling", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.getOrderStatus as jest.Mock).mockResolvedValue({
+            orderId: "fake-probo-1",
+            exchange: Exchange.PROBO,
+            status: OrderStatus.EXPIRED,
+            filledQty: 0
+        });
+        (probo.getDepth as jest.Mock).mockResolvedValue({ buy: {}, sell: { "2.5": "5000" } });
+        (polymarket.getDepth as jest.Mock).mockResolvedValue({ buy: { "0.79": "500" }, sell: {} });
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...viableOpportunity });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(result?.proboOrder.success).toBe(false);
+        expect(result?.proboOrder.error?.message).toBe("Order expired without filling");
+        expect(result?.recovery?.status).toBe(RecoveryStatus.UNWOUND);
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+});
+
+// Position ledger integration tests
+describe("Position Ledger Integration Tests", () => {
+    const baseConfig = (getConfig as jest.Mock)();
+
+    afterEach(() => {
+        (getConfig as jest.Mock).mockReturnValue(baseConfig);
+    });
+
+    const sharesHeld = (exchange: Exchange, marketId: string, outcome: "yes" | "no") =>
+        getPositions({ exchange, marketId, outcome }).reduce((total, position) => total + position.shares, 0);
+
+    test("findAndExecArb should book confirmed fills into the ledger outside dry-run", async () => {
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, dryRun: false });
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.getBalance as jest.Mock).mockResolvedValue(10000);
+        (probo.getOrderStatus as jest.Mock).mockResolvedValue({
+            orderId: "fake-probo-1", exchange: Exchange.PROBO, status: OrderStatus.FILLED, filledQty: 2000, avgFillPrice: 1.9
+        });
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...viableOpportunity });
+        const polyBefore = sharesHeld(Exchange.POLYMARKET, "6789", "yes");
+        const proboBefore = sharesHeld(Exchange.PROBO, "12345", "no");
+
+        await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(sharesHeld(Exchange.POLYMARKET, "6789", "yes") - polyBefore).toBe(300);
+        // The Probo "sell" offer is the NO outcome
+        expect(sharesHeld(Exchange.PROBO, "12345", "no") - proboBefore).toBe(2000);
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+
+    test("recordResolution should close positions at their payout and flag venues that disagree", () => {
+        const [held] = getPositions({ exchange: Exchange.POLYMARKET, marketId: "6789", outcome: "yes" });
+        const pairId = held.pairId || "default";
+        const profitBefore = getStats().realisedProfitInr;
+
+        const polyReport = recordResolution(pairId, Exchange.POLYMARKET, "yes", 85);
+        expect(polyReport.settlements.length).toBeGreaterThan(0);
+        expect(sharesHeld(Exchange.POLYMARKET, "6789", "yes")).toBe(0);
+        expect(getStats().realisedProfitInr - profitBefore)
+            .toBeCloseTo(polyReport.settlements.reduce((total, settlement) => total + settlement.realisedPnlInr, 0));
+
+        expect(recordResolution(pairId, Exchange.PROBO, "yes", 85).mismatch).toBe(false);
+
+        const proboReport = recordResolution(pairId, Exchange.PROBO, "void", 85);
+        expect(proboReport.mismatch).toBe(true);
+        expect(proboReport.resolutions).toEqual({ [Exchange.POLYMARKET]: "yes", [Exchange.PROBO]: "void" });
+        expect(sharesHeld(Exchange.PROBO, "12345", "no")).toBe(0);
+    });
+});
+
+describe("Balance Preflight Tests", () => {
+    const baseConfig = (getConfig as jest.Mock)();
+    // 300 shares at $0.70 against 2550 at ₹2 pays ₹25500 for ₹22950, 10% net of the zero-fee mock costs
+    const fundedOpportunity: ArbOpportunity = { ...viableOpportunity, polymarketPrice: 0.7, profitPercent: 10 };
+
+    afterEach(() => {
+        (getConfig as jest.Mock).mockReturnValue(baseConfig);
+    });
+
+    test("findAndExecArb should shrink both legs to the funds available", async () => {
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, dryRun: false });
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        // Half of the ₹5100 the Probo leg needs
+        (probo.getBalance as jest.Mock).mockResolvedValue(2550);
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...fundedOpportunity });
+
+        await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(polymarket.createOrder).toHaveBeenCalledWith("6789", OrderSide.BUY, 150, 0.7);
+        expect(probo.createOrder).toHaveBeenCalledWith(12345, OrderSide.SELL, 1275, 2.0);
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+
+    test("findAndExecArb should fit the trade to the funds at its rounded limit prices", async () => {
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, dryRun: false });
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        // ₹2.005 rounds up to ₹2.01, so ₹1000 covers 497 Probo shares rather than the 498 it does unrounded
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...fundedOpportunity, proboPrice: 2.005 });
+
+        await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(probo.createOrder).toHaveBeenCalledWith(12345, OrderSide.SELL, 497, 2.01);
+        expect(polymarket.createOrder).toHaveBeenCalledWith("6789", OrderSide.BUY, 58.53, 0.7);
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+
+    test("findAndExecArb should skip the trade when a venue has no funds", async () => {
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, dryRun: false });
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (polymarket.getBalance as jest.Mock).mockResolvedValue(0);
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...fundedOpportunity });
+
+        const result = await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(result).toBeNull();
+        expect(polymarket.createOrder).not.toHaveBeenCalled();
+        expect(probo.createOrder).not.toHaveBeenCalled();
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+
+    test("findAndExecArb should hold a shrunk trade to the pair's own threshold", async () => {
+        // The 10% trade is below the global 20% minimum but above this pair's 5%
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, dryRun: false, expectedArbPercentMin: 20 });
+        const pair: MarketPair = {
+            id: "pair-1",
+            proboEventId: 12345,
+            polymarketYesTokenId: "6789",
+            expectedArbPercentMin: 5,
+            enabled: true,
+            tradingEnabled: true
+        };
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        (probo.getBalance as jest.Mock).mockResolvedValue(2550);
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...fundedOpportunity });
+
+        await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo }, { pair });
+
+        expect(polymarket.createOrder).toHaveBeenCalledWith("6789", OrderSide.BUY, 150, 0.7);
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+
+    test("fitToBalances should set the per-order gas cost aside before sizing", () => {
+        (getConfig as jest.Mock).mockReturnValue({ ...baseConfig, polygonGasCostUsd: 1 });
+
+        expect(getRequiredFunds(fundedOpportunity).polymarketUsd).toBeCloseTo(211);
+
+        // $106 leaves $105 after gas, half of the $210 the shares cost
+        const shrunk = fitToBalances(fundedOpportunity, { polymarketUsd: 106, proboInr: 100000 });
+        expect(shrunk.polymarketQty).toBeCloseTo(150);
+        expect(shrunk.proboQty).toBeCloseTo(1275);
+        expect(fitToBalances(fundedOpportunity, { polymarketUsd: 1, proboInr: 100000 }).isViable).toBe(false);
+    });
+
+    test("findAndExecArb should not read balances in dry-run mode", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...fundedOpportunity });
+
+        await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(polymarket.getBalance).not.toHaveBeenCalled();
+        expect(polymarket.createOrder).toHaveBeenCalledWith("6789", OrderSide.BUY, 300, 0.7);
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
+});
+
+describe("Instrument Normalisation Tests", () => {
+    test("findAndExecArb should send sizes rounded onto each venue's quantity step", async () => {
+        const polymarket = createFakeExchange(Exchange.POLYMARKET, "fake-poly-1");
+        const probo = createFakeExchange(Exchange.PROBO, "fake-probo-1");
+        const calculateArbOpportunitySpy = jest.spyOn(require("./utils/helpers"), 'calculateArbOpportunity')
+            .mockReturnValue({ ...viableOpportunity, polymarketPrice: 0.7, polymarketQty: 300.456, proboQty: 2553.876 });
+
+        await findAndExecArb(fetched({ buy: {}, sell: {} }), fetched({ buy: {}, sell: {} }), { polymarket, probo });
+
+        expect(polymarket.createOrder).toHaveBeenCalledWith("6789", OrderSide.BUY, 300.45, 0.7);
+        expect(probo.createOrder).toHaveBeenCalledWith(12345, OrderSide.SELL, 2553, 2.0);
+
+        calculateArbOpportunitySpy.mockRestore();
+    });
 });
@@ -1,32 +1,216 @@
-import { createOrder as createOrderProbo, getDepth as getDepthProbo } from "./probo";
-import { createOrder as createOrderPoly, getDepth as getDepthPoly, approveAllowance } from "./polymarket";
-import { Depth, ArbOpportunity, ExecutionResult, OrderResult } from "./types";
-import { calculateArbOpportunity, sleep } from "./utils/helpers";
-import { logger } from "./utils/logger";
+import { approveAllowance } from "./polymarket";
+import { getDefaultExchanges, instrumentExchange, rateLimitExchange } from "./exchanges";
+import {
+    Depth,
+    ArbCycleOptions,
+    BookSnapshot,
+    ArbDirection,
+    ArbExchanges,
+    ArbOpportunity,
+    Exchange,
+    ExchangeAdapter,
+    ExecutionMode,
+    ExecutionResult,
+    LegExecution,
+    OrderResult,
+    OrderState,
+    FxRate,
+    FxRateProvider,
+    CircuitBreaker,
+    CircuitState,
+    DepthRecorder,
+    MarketData,
+    MarketDataFeed,
+    MarketPair,
+    PaperExchange,
+    LedgerFill,
+    OrderSide,
+    OrderStatus,
+    RecoveryAction,
+    RecoveryResult
+} from "./types";
+import {
+    calculateArbOpportunity,
+    findLowestAskPrice,
+    getDirectionLegs,
+    levelProfitPercent,
+    selectBestOpportunity,
+    sleep
+} from "./utils/helpers";
+import { RecoveryLeg, recoverOneSidedFill, toLegQty } from "./utils/recovery";
+import { chooseFirstLeg, executeLegs } from "./utils/execution";
+import { isTerminalStatus, trackOrder } from "./utils/orderTracker";
+import { checkFxRate, createFxRateProvider } from "./utils/fx";
+import { checkRiskLimits } from "./utils/risk";
+import { checkBalances } from "./utils/preflight";
+import { normaliseOpportunity } from "./utils/instruments";
+import { createCircuitBreaker, engageKillSwitch, isKillSwitchEngaged } from "./utils/circuitBreaker";
+import { getDefaultMarketPair, getEnabledMarketPairs, loadMarketPairs } from "./utils/markets";
+import { mapWithConcurrency } from "./utils/scheduler";
+import { createDepthRecorder } from "./utils/recorder";
+import { createPaperExchange } from "./utils/paperExchange";
+import { checkBookAge, createMarketDataFeed } from "./utils/marketData";
+import { logger, newCorrelationId, withLogContext } from "./utils/logger";
+import { botMetrics, MetricsServer, registry, startMetricsServer } from "./utils/metrics";
 import { getConfig, ensureConfigFile } from "./config";
-import { logOpportunity, logExecution } from "./utils/database";
+import {
+    logOpportunity,
+    logExecution,
+    getRiskState,
+    getStats,
+    flushDatabase,
+    getPositions,
+    recordFills
+} from "./utils/database";
+import { toLedgerFill } from "./utils/ledger";
 
 // Declare process if it's not recognized by TypeScript
 declare const process: {
     env: Record<string, string | undefined>;
     exit(code: number): void;
+    on(event: string, listener: () => void): void;
+    removeListener(event: string, listener: () => void): void;
 };
 
 /**
- * Find and execute arbitrage opportunities between Polymarket and Probo
- * @param depthPoly Polymarket depth data
+ * Find and execute arbitrage opportunities between Polymarket and Probo. Every
+ * line logged along the way, for both legs and any recovery, carries the
+ * opportunity's correlation ID.
+ * @param depthPoly Polymarket depth data for the YES token
  * @param depthProbo Probo depth data
+ * @param exchanges Exchange adapters to execute the legs on
+ * @param options Market pair, reverse-direction depth and FX rate for this cycle
  * @returns Execution result or null if no opportunity found
  */
-export async function findAndExecArb(depthPoly: Depth, depthProbo: Depth): Promise<ExecutionResult | null> {
+export async function findAndExecArb(
+    depthPoly: Depth,
+    depthProbo: Depth,
+    exchanges: ArbExchanges = getDefaultExchanges(),
+    options: ArbCycleOptions = {}
+): Promise<ExecutionResult | null> {
+    const opportunityId = newCorrelationId('opp');
+    return withLogContext({ opportunityId }, () => priceAndExecute(opportunityId, depthPoly, depthProbo, exchanges, options));
+}
+
+/**
+ * Price both directions of a pair and trade the better one if it clears every check
+ * @param opportunityId Correlation ID for the opportunity
+ * @param depthPoly Polymarket depth data for the YES token
+ * @param depthProbo Probo depth data
+ * @param exchanges Exchange adapters to execute the legs on
+ * @param options Market pair, reverse-direction depth and FX rate for this cycle
+ * @returns Execution result or null if no opportunity found
+ */
+async function priceAndExecute(
+    opportunityId: string,
+    depthPoly: Depth,
+    depthProbo: Depth,
+    exchanges: ArbExchanges,
+    options: ArbCycleOptions
+): Promise<ExecutionResult | null> {
     const config = getConfig();
+    const pair = options.pair || getDefaultMarketPair();
+    const dryRun = options.dryRun ?? config.dryRun;
     
     try {
-        // Calculate arbitrage opportunity
-        const opportunity = calculateArbOpportunity(depthPoly, depthProbo);
+        const fxRate: FxRate = options.fxRate || {
+            rate: config.dollarPriceInr,
+            timestamp: new Date().toISOString(),
+            maxAgeMs: config.fxRateMaxAgeMs,
+            source: 'static'
+        };
+        
+        // Price both directions and keep the better one
+        const candidates: ArbOpportunity[] = [
+            calculateArbOpportunity(depthPoly, depthProbo, ArbDirection.POLY_YES_PROBO_NO, fxRate.rate, pair)
+        ];
+        if (options.depthPolyNo && pair.polymarketNoTokenId) {
+            candidates.push(
+                calculateArbOpportunity(options.depthPolyNo, depthProbo, ArbDirection.POLY_NO_PROBO_YES, fxRate.rate, pair)
+            );
+        }
+        let opportunity = selectBestOpportunity(candidates);
+        const direction = opportunity.direction || ArbDirection.POLY_YES_PROBO_NO;
+        const { polymarketTokenId, proboSide } = getDirectionLegs(direction, pair);
+        opportunity.pairId = pair.id;
+        opportunity.opportunityId = opportunityId;
+        
+        // Monitor-only pairs are priced and logged but never traded
+        if (opportunity.isViable && !pair.tradingEnabled) {
+            opportunity.isViable = false;
+            opportunity.reason = 'Trading disabled for market pair';
+        }
+        
+        // A tripped breaker or the kill switch pauses trading but the pair is still priced and logged
+        if (opportunity.isViable) {
+            const tradingBlock = options.circuitBreaker
+                ? options.circuitBreaker.getTradingBlock()
+                : (isKillSwitchEngaged() ? "Kill switch engaged" : null);
+            if (tradingBlock) {
+                opportunity.isViable = false;
+                opportunity.reason = tradingBlock;
+            }
+        }
+        
+        // Never trade on a stale book, or on two books from different moments
+        if (opportunity.isViable) {
+            const depthPolyTraded = direction === ArbDirection.POLY_NO_PROBO_YES && options.depthPolyNo
+                ? options.depthPolyNo
+                : depthPoly;
+            const bookRejection = checkBookAge(depthPolyTraded, depthProbo);
+            if (bookRejection) {
+                opportunity.isViable = false;
+                opportunity.reason = bookRejection;
+            }
+        }
+        
+        // Never trade on a stale rate or one that moved since the opportunity was priced
+        if (opportunity.isViable) {
+            let latest: FxRate | undefined;
+            let fxRejection: string | null = null;
+            
+            if (options.fxRateProvider) {
+                try {
+                    latest = await options.fxRateProvider.getRate();
+                } catch (error) {
+                    fxRejection = `Failed to re-check FX rate: ${error instanceof Error ? error.message : String(error)}`;
+                }
+            }
+            
+            fxRejection = fxRejection || checkFxRate(fxRate, latest);
+            if (fxRejection) {
+                opportunity.isViable = false;
+                opportunity.reason = fxRejection;
+            }
+        }
+        
+        // Only prices and sizes the venues accept are sent, so round and re-price before trading
+        if (opportunity.isViable) {
+            opportunity = normaliseOpportunity(opportunity, pair.expectedArbPercentMin ?? config.expectedArbPercentMin);
+        }
+        
+        // Both wallets must cover the trade at its rounded limits; it is shrunk to fit or skipped. Dry runs spend nothing
+        if (opportunity.isViable && !dryRun) {
+            const fitted = await checkBalances(opportunity, exchanges, pair.expectedArbPercentMin ?? config.expectedArbPercentMin);
+            // Shrinking takes the quantities off the venue grids again; rounding them down only needs less
+            opportunity = fitted !== opportunity && fitted.isViable
+                ? normaliseOpportunity(fitted, pair.expectedArbPercentMin ?? config.expectedArbPercentMin)
+                : fitted;
+        }
+        
+        // Pre-trade risk limits against what is already open and traded today
+        if (opportunity.isViable) {
+            const rejection = checkRiskLimits(opportunity, getRiskState());
+            if (rejection) {
+                opportunity.isViable = false;
+                opportunity.reason = rejection.message;
+                opportunity.riskRejection = rejection;
+            }
+        }
         
         // Log the opportunity to the database
         logOpportunity(opportunity, false);
+        recordOpportunityMetrics(opportunity, pair);
         
         if (!opportunity.found) {
             logger.info("No arbitrage opportunity found", { reason: opportunity.reason });
@@ -34,7 +218,9 @@ export async function findAndExecArb(depthPoly: Depth, depthProbo: Depth): Promi
         }
         
         if (!opportunity.isViable) {
-            logger.info("Arbitrage opportunity found, but profit is below threshold", { 
+            logger.info("Arbitrage opportunity found, but it is not viable", { 
+                reason: opportunity.reason,
+                riskLimit: opportunity.riskRejection?.limit,
                 profitPercent: opportunity.profitPercent,
                 minRequired: config.expectedArbPercentMin 
             });
@@ -42,90 +228,130 @@ export async function findAndExecArb(depthPoly: Depth, depthProbo: Depth): Promi
         }
         
         logger.info("Viable arbitrage opportunity found", {
+            pairId: pair.id,
+            direction,
             polymarketPrice: opportunity.polymarketPrice,
             proboPrice: opportunity.proboPrice,
             polymarketQty: opportunity.polymarketQty,
             proboQty: opportunity.proboQty,
+            polymarketAvgPrice: opportunity.polymarketAvgPrice,
+            proboAvgPrice: opportunity.proboAvgPrice,
+            levels: opportunity.levels?.length,
+            fxRate: fxRate.rate,
+            grossProfitPercent: opportunity.grossProfitPercent,
             profitPercent: opportunity.profitPercent
-        });        // Execute arbitrage trades with retry logic
-        let polyOrderResult: OrderResult = {
-            success: false,
-            error: new Error("Order not attempted"),
-            exchangeResponse: null
-        };
-        let retries = 0;
+        });
         
-        while (retries <= config.maxRetries) {
-            try {                polyOrderResult = await createOrderPoly(
-                    config.polymarketTokenId,
-                    opportunity.polymarketPrice,
-                    opportunity.polymarketQty,
-                    'buy' as any // Use string literal with type assertion
-                );
-                
-                if (polyOrderResult.success) break;
-                
-                logger.warn(`Polymarket order failed, retrying (${retries + 1}/${config.maxRetries})`);
-                retries++;
-                await sleep(config.retryDelayMs);
-            } catch (error) {
-                logger.error(`Error placing Polymarket order (attempt ${retries + 1})`, error);
-                retries++;
-                if (retries > config.maxRetries) {
-                    return null;
-                }
-                await sleep(config.retryDelayMs);
+        const proboOffsetSide = proboSide === config.proboYesSide ? config.proboNoSide : config.proboYesSide;
+        const polyLeg: RecoveryLeg = {
+            adapter: exchanges.polymarket,
+            marketId: polymarketTokenId,
+            side: OrderSide.BUY,
+            size: opportunity.polymarketQty,
+            price: opportunity.polymarketPrice,
+            // Same conversion the opportunity was sized with
+            payoutInr: fxRate.rate
+        };
+        const proboLeg: RecoveryLeg = {
+            adapter: exchanges.probo,
+            marketId: pair.proboEventId,
+            side: proboSide,
+            size: opportunity.proboQty,
+            price: opportunity.proboPrice,
+            payoutInr: 10,
+            quote: depth => findLowestAskPrice({ buy: {}, sell: depth[proboSide] || {} }),
+            // Probo has no selling back: holding both outcomes locks in ₹10 a pair
+            unwind: {
+                side: proboOffsetSide,
+                quote: depth => findLowestAskPrice({ buy: {}, sell: depth[proboOffsetSide] || {} })
             }
+        };
+        
+        // Execute arbitrage trades with retry logic
+        const executionMode = config.executionMode || ExecutionMode.SEQUENTIAL;
+        const polyBook = direction === ArbDirection.POLY_NO_PROBO_YES ? options.depthPolyNo : depthPoly;
+        const firstExchange = chooseFirstLeg(polyLeg, proboLeg, {
+            polymarket: polyBook?.sell || {},
+            probo: depthProbo[proboSide] || {}
+        });
+        const [first, second] = firstExchange === Exchange.PROBO ? [proboLeg, polyLeg] : [polyLeg, proboLeg];
+        const [firstResult, secondResult] = await executeLegs(first, second, executionMode);
+        const [polyExecution, proboExecution] = firstExchange === Exchange.PROBO
+            ? [secondResult, firstResult]
+            : [firstResult, secondResult];
+        
+        // An accepted order is not a fill: follow both to a final state
+        const [polymarketFill, proboFill] = await Promise.all([
+            trackLeg(polyLeg, polyExecution),
+            trackLeg(proboLeg, proboExecution)
+        ]);
+        const polyOrderResult = orderOutcome(polyExecution.order, polymarketFill);
+        const proboOrderResult = orderOutcome(proboExecution.order, proboFill);
+        botMetrics.opportunitiesExecuted.inc({ pair: pair.id });
+        recordLegMetrics(polyLeg, polymarketFill);
+        recordLegMetrics(proboLeg, proboFill);
+        
+        if (polyExecution.submittedAt) {
+            options.circuitBreaker?.recordResult(exchanges.polymarket.exchange, 'order', polyOrderResult.success);
+        }
+        if (proboExecution.submittedAt) {
+            options.circuitBreaker?.recordResult(exchanges.probo.exchange, 'order', proboOrderResult.success);
         }
         
-        // Wait a short time between orders to avoid rate limiting
-        await sleep(config.requestThrottleMs);
-          // Place order on Probo with retry logic
-        let proboOrderResult: OrderResult = {
-            success: false,
-            error: new Error("Order not attempted"),
-            exchangeResponse: null
-        };
-        retries = 0;
+        // Whatever one leg filled beyond the other, in Polymarket shares, is naked
+        // exposure. That covers a leg that missed as well as two legs that filled
+        // short by different amounts. Concurrent legs go straight to unwinding,
+        // since a timed-out leg may still land
+        let recovery: RecoveryResult | undefined;
+        const polyFilledQty = polyOrderResult.success ? polymarketFill?.filledQty || polyLeg.size : 0;
+        const proboFilledQty = proboOrderResult.success ? proboFill?.filledQty || proboLeg.size : 0;
+        // Rounding each leg onto its venue's grid already leaves them slightly apart; only a gap beyond that is unhedged
+        const unhedgedPolyQty = (polyFilledQty - toLegQty(proboFilledQty, proboLeg, polyLeg))
+            - (polyLeg.size - toLegQty(proboLeg.size, proboLeg, polyLeg));
+        if ((polyFilledQty > 0 || proboFilledQty > 0) && Math.abs(unhedgedPolyQty) > 1e-9) {
+            const [filled, missing] = unhedgedPolyQty > 0 ? [polyLeg, proboLeg] : [proboLeg, polyLeg];
+            recovery = await recoverOneSidedFill(
+                { ...filled, size: toLegQty(Math.abs(unhedgedPolyQty), polyLeg, filled) },
+                missing,
+                executionMode === ExecutionMode.SEQUENTIAL
+            );
+            options.circuitBreaker?.recordOneSidedFill();
+            botMetrics.oneSidedFills.inc();
+        }
         
-        while (retries <= config.maxRetries) {
-            try {                proboOrderResult = await createOrderProbo(
-                    config.proboTokenId,
-                    'buy' as any, // Use string literal with type assertion
-                    opportunity.proboQty,
-                    opportunity.proboPrice
-                );
-                
-                if (proboOrderResult.success) break;
-                
-                logger.warn(`Probo order failed, retrying (${retries + 1}/${config.maxRetries})`);
-                retries++;
-                await sleep(config.retryDelayMs);
-            } catch (error) {
-                logger.error(`Error placing Probo order (attempt ${retries + 1})`, error);
-                retries++;
-                if (retries > config.maxRetries) {
-                    return null;
-                }
-                await sleep(config.retryDelayMs);
-            }
+        // Dry-run orders never reach the exchange, so they must not show up as holdings
+        if (!dryRun) {
+            recordFills(getLedgerFills(pair, fxRate.rate, [polyLeg, proboLeg], [polymarketFill, proboFill], recovery));
         }
         
         const executionResult: ExecutionResult = {
             polymarketOrder: polyOrderResult,
             proboOrder: proboOrderResult,
             opportunity,
-            timestamp: new Date().toISOString()
+            timestamp: new Date().toISOString(),
+            executionMode,
+            polymarketLeg: polyExecution,
+            proboLeg: proboExecution,
+            polymarketFill,
+            proboFill,
+            recovery
         };
         
         // Log the execution to the database
         logExecution(executionResult);
         
         logger.info("Arbitrage execution completed", {
+            pairId: pair.id,
             polymarketOrderSuccess: polyOrderResult.success,
             proboOrderSuccess: proboOrderResult.success,
             polymarketOrderId: polyOrderResult.orderId,
-            proboOrderId: proboOrderResult.orderId
+            proboOrderId: proboOrderResult.orderId,
+            executionMode,
+            polymarketLatencyMs: polyExecution.latencyMs,
+            proboLatencyMs: proboExecution.latencyMs,
+            polymarketFilledQty: polymarketFill?.filledQty,
+            proboFilledQty: proboFill?.filledQty,
+            recoveryStatus: recovery?.status
         });
         
         return executionResult;
@@ -136,106 +362,872 @@ export async function findAndExecArb(depthPoly: Depth, depthProbo: Depth): Promi
 }
 
 /**
- * Main function to continuously monitor and execute arbitrage opportunities
+ * Report how an opportunity priced and how far through the checks it got
+ * @param opportunity The opportunity after every pre-trade check
+ * @param pair The market pair it was priced on
+ */
+function recordOpportunityMetrics(opportunity: ArbOpportunity, pair: MarketPair): void {
+    const labels = { pair: pair.id };
+    
+    // A pair with an empty book has no spread; leaving the last one up would misreport it
+    if (opportunity.polymarketPrice > 0 && opportunity.proboPrice > 0) {
+        botMetrics.spreadPercent.set(
+            labels,
+            opportunity.grossProfitPercent ?? levelProfitPercent(opportunity.polymarketPrice, opportunity.proboPrice)
+        );
+    } else {
+        botMetrics.spreadPercent.remove(labels);
+    }
+    
+    if (!opportunity.found) {
+        botMetrics.profitPercent.remove(labels);
+        return;
+    }
+    
+    botMetrics.opportunitiesFound.inc(labels);
+    if (opportunity.isViable) {
+        botMetrics.opportunitiesViable.inc(labels);
+    }
+    botMetrics.profitPercent.set(labels, opportunity.profitPercent);
+}
+
+/**
+ * Report how much of a leg filled
+ * @param leg The leg as sent
+ * @param fill The leg's final state, undefined if the order was never accepted
+ */
+function recordLegMetrics(leg: RecoveryLeg, fill?: OrderState): void {
+    const filledQty = fill?.filledQty ?? 0;
+    const result = filledQty <= 0 ? 'unfilled' : (fill?.status === OrderStatus.FILLED ? 'filled' : 'partial');
+    
+    botMetrics.legs.inc({ exchange: leg.adapter.exchange, result });
+    botMetrics.legOrderedShares.inc({ exchange: leg.adapter.exchange }, leg.size);
+    botMetrics.legFilledShares.inc({ exchange: leg.adapter.exchange }, filledQty);
+}
+
+/**
+ * Track an acknowledged leg to its final state
+ * @param leg The leg as sent
+ * @param execution The leg's placement outcome
+ * @returns The final order state, or undefined if the order was never accepted
+ */
+async function trackLeg(leg: RecoveryLeg, execution: LegExecution): Promise<OrderState | undefined> {
+    if (!execution.order.success || !execution.order.orderId) {
+        return undefined;
+    }
+    return trackOrder(leg.adapter, execution.order.orderId, leg.size, leg.price);
+}
+
+/**
+ * Confirmed fills of an execution, including recovery orders, as ledger entries
+ * @param pair The market pair traded
+ * @param fxRate USD/INR rate the trade was priced at
+ * @param legs The legs as sent
+ * @param states Tracked state of each leg's order, in the same order as `legs`
+ * @param recovery Recovery of a one-sided fill, if there was one
+ * @returns The fills to book
+ */
+function getLedgerFills(
+    pair: MarketPair,
+    fxRate: number,
+    legs: RecoveryLeg[],
+    states: (OrderState | undefined)[],
+    recovery?: RecoveryResult
+): LedgerFill[] {
+    const fills: LedgerFill[] = [];
+    
+    legs.forEach((leg, index) => {
+        const state = states[index];
+        if (state?.filledQty) {
+            fills.push(toLedgerFill(
+                pair, leg.adapter.exchange, leg.marketId, leg.side,
+                state.filledQty, state.avgFillPrice ?? leg.price, fxRate, state.orderId
+            ));
+        }
+    });
+    
+    for (const step of recovery?.steps || []) {
+        const isOrder = step.action === RecoveryAction.HEDGE_ORDER || step.action === RecoveryAction.UNWIND_ORDER;
+        const leg = legs.find(candidate => candidate.adapter.exchange === step.exchange);
+        const qty = step.filledQty ?? step.size;
+        if (isOrder && step.success && leg && step.side && step.price !== undefined && qty) {
+            fills.push(toLedgerFill(pair, step.exchange, leg.marketId, step.side, qty, step.price, fxRate, step.orderId));
+        }
+    }
+    
+    return fills;
+}
+
+/**
+ * Treat an accepted order that ended without any fill as a failed leg
+ * @param order The placement result
+ * @param state The tracked order state
+ * @returns The order result reflecting whether anything filled
+ */
+function orderOutcome(order: OrderResult, state?: OrderState): OrderResult {
+    if (!state || !isTerminalStatus(state.status) || (state.filledQty ?? 0) > 0) {
+        return order;
+    }
+    return {
+        ...order,
+        success: false,
+        error: new Error(`Order ${state.status} without filling`)
+    };
+}
+
+/**
+ * Fetch depth from an exchange, giving up after a timeout
+ * @param adapter The exchange to query
+ * @param marketId The market ID on that exchange
+ * @returns The depth, or null if it could not be fetched
+ */
+async function fetchDepthWithTimeout(adapter: ExchangeAdapter, marketId: string | number): Promise<Depth | null> {
+    // Cleared once settled so a pending timer doesn't hold the process open on shutdown
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+        return await Promise.race([
+            adapter.getDepth(marketId),
+            new Promise<null>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`${adapter.exchange} API timeout`)), 15000);
+            })
+        ]) as Depth;
+    } catch (error) {
+        logger.warn(`Failed to fetch ${adapter.exchange} depth data for ${marketId}`, error);
+        return null;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/** Books fetched for a market pair in one cycle; null where a fetch failed */
+type PairBooks = {
+    probo: MarketData | null;
+    polymarketYes: MarketData | null;
+    polymarketNo: MarketData | null;
+    fxRate?: number;
+};
+
+/**
+ * Fetch every book for a market pair, stamped with when it arrived
+ * @param pair The market pair
+ * @param exchanges Exchange adapters to query
+ * @param fxRate USD/INR rate the books will be priced at
+ * @returns The books, with null for any that could not be fetched
+ */
+async function fetchPairDepth(
+    pair: MarketPair,
+    exchanges: ArbExchanges,
+    fxRate?: number
+): Promise<PairBooks> {
+    const fetchMarketData = async (adapter: ExchangeAdapter, marketId: string | number): Promise<MarketData | null> => {
+        const depthData = await fetchDepthWithTimeout(adapter, marketId);
+        if (!depthData) {
+            return null;
+        }
+        // Adapters that don't stamp their books are stamped on arrival
+        const fetchedAt = depthData.fetchedAt || new Date().toISOString();
+        return { marketId, depthData: { ...depthData, fetchedAt }, timestamp: fetchedAt };
+    };
+    
+    // The reverse direction is optional: without its book only YES on Polymarket is priced
+    const [probo, polymarketYes, polymarketNo] = await Promise.all([
+        fetchMarketData(exchanges.probo, pair.proboEventId),
+        fetchMarketData(exchanges.polymarket, pair.polymarketYesTokenId),
+        pair.polymarketNoTokenId ? fetchMarketData(exchanges.polymarket, pair.polymarketNoTokenId) : null
+    ]);
+    
+    return { probo, polymarketYes, polymarketNo, fxRate };
+}
+
+/**
+ * A pair's latest books from the market data feed
+ * @param feed The market data feed
+ * @param pair The market pair
+ * @param fxRate USD/INR rate the books will be priced at
+ * @returns The books, with null for any not received yet
+ */
+function getPairBooks(feed: MarketDataFeed, pair: MarketPair, fxRate?: number): PairBooks {
+    // A streamed book is as fresh as its latest confirmation, not its latest change
+    const toMarketData = (book: BookSnapshot | null): MarketData | null => book
+        ? {
+            marketId: book.marketId,
+            depthData: { ...book.depth, fetchedAt: book.confirmedAt, exchangeTimestamp: book.exchangeTimestamp },
+            timestamp: book.confirmedAt
+        }
+        : null;
+    
+    return {
+        probo: toMarketData(feed.getBook(Exchange.PROBO, pair.proboEventId)),
+        polymarketYes: toMarketData(feed.getBook(Exchange.POLYMARKET, pair.polymarketYesTokenId)),
+        polymarketNo: pair.polymarketNoTokenId
+            ? toMarketData(feed.getBook(Exchange.POLYMARKET, pair.polymarketNoTokenId))
+            : null,
+        fxRate
+    };
+}
+
+/**
+ * Whether a book belongs to one of a pair's instruments
+ * @param pair The market pair
+ * @param book The book
+ * @returns True if the pair trades the book's instrument
+ */
+function pairUsesBook(pair: MarketPair, book: BookSnapshot): boolean {
+    const marketId = String(book.marketId);
+    return book.exchange === Exchange.PROBO
+        ? String(pair.proboEventId) === marketId
+        : pair.polymarketYesTokenId === marketId || pair.polymarketNoTokenId === marketId;
+}
+
+/**
+ * Record a pair's books if both sides of the trade were fetched
+ * @param recorder The depth recorder
+ * @param pair The market pair
+ * @param books The books fetched this cycle
+ */
+function recordPairDepth(
+    recorder: DepthRecorder,
+    pair: MarketPair,
+    books: PairBooks
+): void {
+    if (!books.probo || !books.polymarketYes) {
+        return;
+    }
+    
+    recorder.record({
+        pairId: pair.id,
+        timestamp: new Date().toISOString(),
+        fxRate: books.fxRate,
+        probo: books.probo,
+        polymarketYes: books.polymarketYes,
+        ...(books.polymarketNo ? { polymarketNo: books.polymarketNo } : {})
+    });
+}
+
+/**
+ * Fetch both books for a market pair and look for arbitrage on it
+ * @param pair The market pair to scan
+ * @param exchanges Exchange adapters to query and trade on
+ * @param fxRate The rate to price this cycle at
+ * @param fxRateProvider Provider used to re-check the rate before trading
+ * @param circuitBreaker Breaker to report depth failures to and gate trading on
+ * @param recorder Recorder to append the books to
+ * @param dryRun Overrides the configured DRY_RUN
+ * @returns Execution result or null if nothing was executed
+ */
+export async function scanMarketPair(
+    pair: MarketPair,
+    exchanges: ArbExchanges,
+    fxRate: FxRate,
+    fxRateProvider?: FxRateProvider,
+    circuitBreaker?: CircuitBreaker,
+    recorder?: DepthRecorder,
+    dryRun?: boolean
+): Promise<ExecutionResult | null> {
+    logger.debug(`Fetching market depths for pair ${pair.id}...`);
+    
+    const books = await fetchPairDepth(pair, exchanges, fxRate.rate);
+    circuitBreaker?.recordResult(exchanges.probo.exchange, 'depth', books.probo !== null);
+    circuitBreaker?.recordResult(exchanges.polymarket.exchange, 'depth', books.polymarketYes !== null);
+    if (pair.polymarketNoTokenId) {
+        circuitBreaker?.recordResult(exchanges.polymarket.exchange, 'depth', books.polymarketNo !== null);
+    }
+    if (recorder) {
+        recordPairDepth(recorder, pair, books);
+    }
+    
+    return evaluatePairBooks(pair, books, exchanges, fxRate, fxRateProvider, circuitBreaker, dryRun);
+}
+
+/**
+ * Look for arbitrage on a market pair's books
+ * @param pair The market pair
+ * @param books The pair's latest books
+ * @param exchanges Exchange adapters to trade on
+ * @param fxRate The rate to price at
+ * @param fxRateProvider Provider used to re-check the rate before trading
+ * @param circuitBreaker Breaker to gate trading on
+ * @param dryRun Overrides the configured DRY_RUN
+ * @returns Execution result or null if nothing was executed
+ */
+async function evaluatePairBooks(
+    pair: MarketPair,
+    books: PairBooks,
+    exchanges: ArbExchanges,
+    fxRate: FxRate,
+    fxRateProvider?: FxRateProvider,
+    circuitBreaker?: CircuitBreaker,
+    dryRun?: boolean
+): Promise<ExecutionResult | null> {
+    // Only proceed if both depths are available
+    if (!books.probo || !books.polymarketYes) {
+        logger.warn(`Skipped pair ${pair.id} due to missing depth data`);
+        return null;
+    }
+    
+    logger.debug(`Analyzing arbitrage opportunities for pair ${pair.id}...`);
+    return findAndExecArb(books.polymarketYes.depthData, books.probo.depthData, exchanges, {
+        pair,
+        depthPolyNo: books.polymarketNo?.depthData ?? null,
+        fxRate,
+        fxRateProvider,
+        circuitBreaker,
+        dryRun
+    });
+}
+
+/**
+ * Scan each market pair once without trading: orders fill on paper against
+ * the fetched books, so nothing reaches a venue whatever DRY_RUN says
+ * @param pairs The market pairs to scan
+ * @param exchanges Exchange adapters to read books from
+ * @param fxRateProvider Provider of the rate to price at
+ * @returns The results of the pairs that found an opportunity
+ */
+export async function checkMarketPairs(
+    pairs: MarketPair[],
+    exchanges: ArbExchanges,
+    fxRateProvider: FxRateProvider
+): Promise<ExecutionResult[]> {
+    const config = getConfig();
+    const paper: ArbExchanges = {
+        polymarket: createPaperExchange(exchanges.polymarket, config.paperBalanceUsd),
+        probo: createPaperExchange(exchanges.probo, config.paperBalanceInr)
+    };
+    const fxRate = await fxRateProvider.getRate();
+    const results: ExecutionResult[] = [];
+    
+    for (const pair of pairs) {
+        const result = await scanMarketPair(pair, paper, fxRate, fxRateProvider, undefined, undefined, true);
+        if (result) {
+            results.push(result);
+        }
+    }
+    
+    return results;
+}
+
+/**
+ * Wait between cycles, waking up early if the bot is asked to stop
+ * @param ms Milliseconds to wait
+ * @param stopSignal Signal raised on shutdown
+ */
+async function sleepUnlessStopped(ms: number, stopSignal: AbortSignal): Promise<void> {
+    if (stopSignal.aborted) {
+        return;
+    }
+    
+    let onAbort: () => void = () => undefined;
+    const stopped = new Promise<void>(resolve => {
+        onAbort = resolve;
+        stopSignal.addEventListener('abort', onAbort, { once: true });
+    });
+    
+    await Promise.race([sleep(ms), stopped]);
+    stopSignal.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Fetch and evaluate every enabled pair each `intervalMs` (plus jitter), until stopped
+ * @param exchanges Exchange adapters to query and trade on
+ * @param reloadPairs Reloads the market pair registry
+ * @param fxRateProvider Provider for the USD/INR rate
+ * @param circuitBreaker Breaker to report depth failures to and gate trading on
+ * @param recorder Recorder to append the books to
  * @param intervalMs Polling interval in milliseconds
- * @returns Promise that never resolves (runs continuously)
+ * @param stopSignal Signal raised on shutdown
+ * @returns Number of cycles run
+ */
+async function pollArbCycles(
+    exchanges: ArbExchanges,
+    reloadPairs: () => MarketPair[],
+    fxRateProvider: FxRateProvider,
+    circuitBreaker: CircuitBreaker,
+    recorder: DepthRecorder | undefined,
+    intervalMs: number,
+    stopSignal: AbortSignal
+): Promise<number> {
+    const config = getConfig();
+    let cycleCount = 0;
+    const statusIntervalCycles = 60; // Log status every 60 cycles
+    
+    const runCycle = async () => {
+        try {
+            // Log status periodically
+            if (cycleCount % statusIntervalCycles === 0) {
+                logger.info(`Bot running: completed ${cycleCount} cycles`, {
+                    circuitBreaker: circuitBreaker.getStatus()
+                });
+            }
+            
+            const pairs = reloadPairs();
+            
+            let fxRate: FxRate | null = null;
+            try {
+                fxRate = await fxRateProvider.getRate();
+            } catch (error) {
+                logger.warn("Failed to fetch USD/INR rate", error);
+            }
+            
+            if (fxRate) {
+                const rate = fxRate;
+                await mapWithConcurrency(
+                    getEnabledMarketPairs(pairs),
+                    config.maxConcurrentScans,
+                    // Pairs not yet started when a shutdown arrives are skipped
+                    pair => stopSignal.aborted
+                        ? Promise.resolve(null)
+                        : scanMarketPair(pair, exchanges, rate, fxRateProvider, circuitBreaker, recorder)
+                );
+            } else {
+                logger.warn("Skipped arbitrage cycle due to missing FX rate");
+            }
+        } catch (error) {
+            logger.error("Error in arbitrage cycle", error);
+        }
+    };
+    
+    while (!stopSignal.aborted) {
+        cycleCount++;
+        botMetrics.cycles.inc({ mode: 'poll' });
+        // Everything logged during the cycle carries its ID
+        await withLogContext({ cycleId: newCorrelationId('cycle') }, runCycle);
+        
+        // Wait for next cycle with jitter to avoid thundering herd
+        const jitter = Math.floor(Math.random() * 1000); // Add up to 1 second of random jitter
+        await sleepUnlessStopped(intervalMs + jitter, stopSignal);
+    }
+    
+    return cycleCount;
+}
+
+/**
+ * Evaluate each enabled pair as soon as one of its books changes, until
+ * stopped. Changes arriving while a pair is being evaluated are coalesced
+ * into one more evaluation on the latest books. The registry and FX rate are
+ * refreshed every `intervalMs`.
+ * @param feed The market data feed
+ * @param exchanges Exchange adapters to trade on
+ * @param reloadPairs Reloads the market pair registry
+ * @param fxRateProvider Provider for the USD/INR rate
+ * @param circuitBreaker Breaker to gate trading on
+ * @param recorder Recorder to append the books to
+ * @param intervalMs How often to refresh the registry and FX rate
+ * @param stopSignal Signal raised on shutdown
+ * @returns Number of pair evaluations run
+ */
+async function streamArbCycles(
+    feed: MarketDataFeed,
+    exchanges: ArbExchanges,
+    reloadPairs: () => MarketPair[],
+    fxRateProvider: FxRateProvider,
+    circuitBreaker: CircuitBreaker,
+    recorder: DepthRecorder | undefined,
+    intervalMs: number,
+    stopSignal: AbortSignal
+): Promise<number> {
+    let pairs: MarketPair[] = [];
+    let fxRate: FxRate | null = null;
+    let evaluations = 0;
+    const running = new Map<string, Promise<void>>();
+    const changed = new Set<string>();
+    
+    const evaluate = (pair: MarketPair) => {
+        if (running.has(pair.id)) {
+            changed.add(pair.id);
+            return;
+        }
+        
+        const run = async () => {
+            do {
+                changed.delete(pair.id);
+                if (stopSignal.aborted || !fxRate) {
+                    return;
+                }
+                evaluations++;
+                botMetrics.cycles.inc({ mode: 'stream' });
+                const books = getPairBooks(feed, pair, fxRate.rate);
+                if (recorder) {
+                    recordPairDepth(recorder, pair, books);
+                }
+                const rate = fxRate;
+                await withLogContext({ cycleId: newCorrelationId('cycle') }, async () => {
+                    try {
+                        await evaluatePairBooks(pair, books, exchanges, rate, fxRateProvider, circuitBreaker);
+                    } catch (error) {
+                        logger.error(`Error evaluating pair ${pair.id}`, error);
+                    }
+                });
+            } while (changed.has(pair.id));
+        };
+        running.set(pair.id, run().finally(() => running.delete(pair.id)));
+    };
+    
+    const unsubscribe = feed.onChange(book => {
+        for (const pair of pairs) {
+            if (pairUsesBook(pair, book)) {
+                evaluate(pair);
+            }
+        }
+    });
+    
+    const watched = new Map<string, { exchange: Exchange; marketId: string | number }>();
+    let refreshCount = 0;
+    const statusIntervalRefreshes = 60;
+    try {
+        while (!stopSignal.aborted) {
+            refreshCount++;
+            if (refreshCount % statusIntervalRefreshes === 0) {
+                logger.info(`Bot running: completed ${evaluations} pair evaluations`, {
+                    circuitBreaker: circuitBreaker.getStatus()
+                });
+            }
+            
+            try {
+                fxRate = await fxRateProvider.getRate();
+            } catch (error) {
+                logger.warn("Failed to fetch USD/INR rate, pairs are not evaluated until it recovers", error);
+                fxRate = null;
+            }
+            
+            pairs = getEnabledMarketPairs(reloadPairs());
+            const instruments = new Map<string, { exchange: Exchange; marketId: string | number }>();
+            for (const pair of pairs) {
+                const pairInstruments = [
+                    { exchange: Exchange.PROBO, marketId: pair.proboEventId },
+                    { exchange: Exchange.POLYMARKET, marketId: pair.polymarketYesTokenId },
+                    ...(pair.polymarketNoTokenId ? [{ exchange: Exchange.POLYMARKET, marketId: pair.polymarketNoTokenId }] : [])
+                ];
+                for (const instrument of pairInstruments) {
+                    instruments.set(`${instrument.exchange}:${instrument.marketId}`, instrument);
+                }
+            }
+            // Books of pairs removed or disabled in the registry are no longer needed
+            for (const [key, instrument] of watched) {
+                if (!instruments.has(key)) {
+                    feed.unwatch(instrument.exchange, instrument.marketId);
+                    watched.delete(key);
+                }
+            }
+            for (const [key, instrument] of instruments) {
+                feed.watch(instrument.exchange, instrument.marketId);
+                watched.set(key, instrument);
+            }
+            
+            await sleepUnlessStopped(intervalMs, stopSignal);
+        }
+    } finally {
+        unsubscribe();
+        // Trades in flight always run to completion
+        await Promise.all(running.values());
+    }
+    
+    return evaluations;
+}
+
+/**
+ * Cancel whatever is still resting on the markets the bot trades
+ * @param pairs The market pairs to clear
+ * @param exchanges Exchange adapters to cancel on
  */
-export async function startArbBot(intervalMs = 5000): Promise<void> {
+async function cancelRestingOrders(pairs: MarketPair[], exchanges: ArbExchanges): Promise<void> {
+    const cancellations = pairs.flatMap(pair => [
+        { adapter: exchanges.probo, marketId: pair.proboEventId },
+        { adapter: exchanges.polymarket, marketId: pair.polymarketYesTokenId },
+        ...(pair.polymarketNoTokenId ? [{ adapter: exchanges.polymarket, marketId: pair.polymarketNoTokenId }] : [])
+    ]);
+    
+    for (const { adapter, marketId } of cancellations) {
+        try {
+            const result = await adapter.cancelAllOrders(marketId);
+            if (!result.success) {
+                logger.error(`Failed to cancel resting ${adapter.exchange} orders on ${marketId}`, result.error);
+            }
+        } catch (error) {
+            logger.error(`Failed to cancel resting ${adapter.exchange} orders on ${marketId}`, error);
+        }
+    }
+}
+
+/**
+ * Log what is still open when the bot stops
+ * @param cycleCount Number of cycles run
+ * @param paper The paper exchanges, when paper trading
+ */
+async function logShutdownSummary(
+    cycleCount: number,
+    paper?: { polymarket: PaperExchange; probo: PaperExchange }
+): Promise<void> {
+    const riskState = getRiskState();
+    const stats = getStats();
+    
+    if (paper) {
+        logger.info("Paper trading summary", {
+            polymarketBalanceUsd: await paper.polymarket.getBalance(),
+            proboBalanceInr: await paper.probo.getBalance(),
+            polymarketPositions: paper.polymarket.getPositions(),
+            proboPositions: paper.probo.getPositions()
+        });
+    }
+    
+    logger.info("Arbitrage bot stopped", {
+        cycles: cycleCount,
+        openPositions: getPositions().map(position => ({
+            exchange: position.exchange,
+            marketId: position.marketId,
+            outcome: position.outcome,
+            shares: position.shares,
+            costBasisInr: position.costBasisInr
+        })),
+        openExposureByExchangeInr: riskState.exposureByExchangeInr,
+        openExposureByMarketInr: riskState.exposureByMarketInr,
+        unrecoveredOneSidedFills: stats.totalUnrecovered || 0
+    });
+}
+
+/**
+ * Main function to continuously monitor and execute arbitrage opportunities.
+ * SIGINT/SIGTERM (or aborting `stopSignal`) stops new cycles from starting,
+ * lets any trade in flight finish or unwind, cancels resting orders, flushes
+ * the history DB and resolves with a summary of open positions logged.
+ * Metrics are served at `/metrics` while it runs when `METRICS_PORT` is set.
+ * @param intervalMs Polling interval in milliseconds; when streaming, how often the registry and FX rate are refreshed
+ * @param exchanges Exchange adapters to monitor and trade on
+ * @param stopSignal Stops the bot when aborted, for embedding and tests
+ * @returns Promise that resolves once the bot has shut down
+ */
+export async function startArbBot(
+    intervalMs = 5000,
+    exchanges: ArbExchanges = getDefaultExchanges(),
+    stopSignal?: AbortSignal
+): Promise<void> {
     // Make sure the config file exists
     ensureConfigFile();
     const config = getConfig();
+    const fxRateProvider = createFxRateProvider();
+    const circuitBreaker = createCircuitBreaker();
+    const recorder = config.recordDepth ? createDepthRecorder() : undefined;
+    let pairs = loadMarketPairs();
+    
+    // Pick up registry edits (e.g. toggled pairs) without a restart
+    const reloadPairs = () => {
+        try {
+            pairs = loadMarketPairs();
+        } catch (error) {
+            logger.error("Failed to reload market pairs, keeping the previous registry", error);
+        }
+        return pairs;
+    };
+    
+    // Every pair shares the same per-exchange request budget; depth latency is timed inside it
+    const limitedExchanges: ArbExchanges = {
+        polymarket: rateLimitExchange(instrumentExchange(exchanges.polymarket), config.polymarketRequestsPerSecond),
+        probo: rateLimitExchange(instrumentExchange(exchanges.probo), config.proboRequestsPerSecond)
+    };
+    
+    // Dry runs fill against the live books with virtual money unless paper trading is off
+    const paper = config.dryRun && config.paperTrading
+        ? {
+            polymarket: createPaperExchange(limitedExchanges.polymarket, config.paperBalanceUsd),
+            probo: createPaperExchange(limitedExchanges.probo, config.paperBalanceInr)
+        }
+        : undefined;
+    const tradingExchanges: ArbExchanges = paper || limitedExchanges;
     
     logger.info("Starting arbitrage bot", {
-        proboTokenId: config.proboTokenId,
-        polymarketTokenId: config.polymarketTokenId,
+        marketPairs: pairs.length,
+        enabledPairs: getEnabledMarketPairs(pairs).length,
+        maxConcurrentScans: config.maxConcurrentScans,
         dollarPriceInr: config.dollarPriceInr,
+        fxRateSource: config.fxRateSource,
         expectedArbPercentMin: config.expectedArbPercentMin,
-        dryRun: config.dryRun
+        dryRun: config.dryRun,
+        paperTrading: paper !== undefined,
+        marketDataMode: config.marketDataMode === 'stream' ? 'stream' : 'poll'
+    });
+    
+    // Shutdown only stops new cycles; the one in flight always runs to completion
+    const stop = new AbortController();
+    stopSignal?.addEventListener('abort', () => stop.abort(), { once: true });
+    
+    const onShutdownSignal = () => {
+        if (stop.signal.aborted) {
+            logger.warn("Second shutdown signal received, exiting immediately");
+            process.exit(1);
+        }
+        logger.info("Shutdown requested, finishing the current cycle...");
+        stop.abort();
+    };
+    // `kill -USR2 <pid>` halts new orders without stopping monitoring
+    const onKillSwitchSignal = () => engageKillSwitch('SIGUSR2 received');
+    
+    process.on('SIGINT', onShutdownSignal);
+    process.on('SIGTERM', onShutdownSignal);
+    process.on('SIGUSR2', onKillSwitchSignal);
+    if (stopSignal?.aborted) {
+        stop.abort();
+    }
+    
+    // Breaker state is read when scraped rather than pushed on every change
+    const stopCollecting = registry.onCollect(() => {
+        const status = circuitBreaker.getStatus();
+        botMetrics.breakerOpen.set({}, status.state === CircuitState.OPEN ? 1 : 0);
+        botMetrics.killSwitch.set({}, status.killSwitch ? 1 : 0);
+        botMetrics.breakerOneSidedFills.set({}, status.recentOneSidedFills);
+        for (const [key, failures] of Object.entries(status.consecutiveFailures)) {
+            const [exchange, channel] = key.split(':');
+            botMetrics.breakerFailures.set({ exchange, channel }, failures);
+        }
     });
+    let metricsServer: MetricsServer | undefined;
     
     try {
+        if (config.metricsPort) {
+            metricsServer = await startMetricsServer(config.metricsPort);
+        }
+        
         // Approve allowance for Polymarket with retry logic
         let allowanceApproved = false;
         let retries = 0;
         
-        while (!allowanceApproved && retries <= config.maxRetries) {
+        while (!allowanceApproved && retries <= config.maxRetries && !stop.signal.aborted) {
             try {
-                logger.info("Approving Polymarket allowance...");
-                await approveAllowance(config.polymarketTokenId);
-                allowanceApproved = true;
-                logger.info("Polymarket allowance approved successfully");
+                logger.info("Checking Polymarket allowance...");
+                allowanceApproved = await approveAllowance(config.polymarketTokenId, stop.signal);
+                if (allowanceApproved) {
+                    logger.info("Polymarket allowance in place");
+                }
             } catch (error) {
                 logger.error(`Error approving Polymarket allowance (attempt ${retries + 1})`, error);
                 retries++;
                 if (retries > config.maxRetries) {
                     throw new Error("Failed to approve Polymarket allowance after maximum retries");
                 }
-                await sleep(config.retryDelayMs);
+                await sleepUnlessStopped(config.retryDelayMs, stop.signal);
             }
         }
+        // Stopped before the allowance was in place: no cycle starts, only the shutdown steps below run
         
         logger.info("Bot initialized successfully, starting arbitrage monitoring...");
         
         let cycleCount = 0;
-        const statusIntervalCycles = 60; // Log status every 60 cycles
         
-        while (true) {
+        // Streaming keeps a live book per instrument and evaluates pairs as they change
+        const feed = config.marketDataMode === 'stream'
+            ? createMarketDataFeed(limitedExchanges, {
+                onResult: (exchange, ok) => circuitBreaker.recordResult(exchange, 'depth', ok)
+            })
+            : undefined;
+        if (feed && paper) {
+            feed.onChange(book => (book.exchange === Exchange.PROBO ? paper.probo : paper.polymarket)
+                .setDepth(book.marketId, book.depth));
+        }
+        
+        try {
+            if (feed) {
+                cycleCount = await streamArbCycles(
+                    feed,
+                    tradingExchanges,
+                    reloadPairs,
+                    fxRateProvider,
+                    circuitBreaker,
+                    recorder,
+                    intervalMs,
+                    stop.signal
+                );
+            } else {
+                cycleCount = await pollArbCycles(
+                    tradingExchanges,
+                    reloadPairs,
+                    fxRateProvider,
+                    circuitBreaker,
+                    recorder,
+                    intervalMs,
+                    stop.signal
+                );
+            }
+        } finally {
+            await feed?.close();
+            if (config.cancelOrdersOnShutdown) {
+                await cancelRestingOrders(getEnabledMarketPairs(pairs), tradingExchanges);
+            }
+            flushDatabase();
+            await recorder?.close();
+            await logShutdownSummary(cycleCount, paper);
+        }
+    } catch (error) {
+        logger.error("Fatal error in arbitrage bot", error);
+        throw error;
+    } finally {
+        process.removeListener('SIGINT', onShutdownSignal);
+        process.removeListener('SIGTERM', onShutdownSignal);
+        process.removeListener('SIGUSR2', onKillSwitchSignal);
+        stopCollecting();
+        await metricsServer?.close();
+    }
+}
+
+/**
+ * Record the books of every enabled market pair without trading, until
+ * SIGINT/SIGTERM or `stopSignal` stops it
+ * @param intervalMs Polling interval in milliseconds
+ * @param exchanges Exchange adapters to read depth from
+ * @param stopSignal Stops the recorder when aborted, for embedding and tests
+ * @returns Promise that resolves once the last file is flushed
+ */
+export async function startRecorder(
+    intervalMs = 5000,
+    exchanges: ArbExchanges = getDefaultExchanges(),
+    stopSignal?: AbortSignal
+): Promise<void> {
+    const config = getConfig();
+    const fxRateProvider = createFxRateProvider();
+    const recorder = createDepthRecorder();
+    const limitedExchanges: ArbExchanges = {
+        polymarket: rateLimitExchange(exchanges.polymarket, config.polymarketRequestsPerSecond),
+        probo: rateLimitExchange(exchanges.probo, config.proboRequestsPerSecond)
+    };
+    
+    const stop = new AbortController();
+    stopSignal?.addEventListener('abort', () => stop.abort(), { once: true });
+    const onShutdownSignal = () => stop.abort();
+    process.on('SIGINT', onShutdownSignal);
+    process.on('SIGTERM', onShutdownSignal);
+    if (stopSignal?.aborted) {
+        stop.abort();
+    }
+    
+    logger.info("Starting depth recorder", { dir: config.recordDir, intervalMs });
+    let cycleCount = 0;
+    
+    try {
+        while (!stop.signal.aborted) {
+            cycleCount++;
             try {
-                cycleCount++;
-                
-                // Log status periodically
-                if (cycleCount % statusIntervalCycles === 0) {
-                    logger.info(`Bot running: completed ${cycleCount} cycles`);
-                }
-                
-                // Fetch market depths with timeouts and error handling
-                logger.debug("Fetching market depths...");
-                let depthProbo: Depth | null = null;
-                let depthPoly: Depth | null = null;
-                
-                try {
-                    depthProbo = await Promise.race([
-                        getDepthProbo(config.proboTokenId),
-                        new Promise<null>((_, reject) => 
-                            setTimeout(() => reject(new Error("Probo API timeout")), 15000)
-                        )
-                    ]) as Depth;
-                } catch (error) {
-                    logger.warn("Failed to fetch Probo depth data", error);
-                }
-                
-                await sleep(config.requestThrottleMs); // Throttle between API calls
-                
+                // A missing rate only leaves it out of the record; the books are still worth keeping
+                let fxRate: number | undefined;
                 try {
-                    depthPoly = await Promise.race([
-                        getDepthPoly(config.polymarketTokenId),
-                        new Promise<null>((_, reject) => 
-                            setTimeout(() => reject(new Error("Polymarket API timeout")), 15000)
-                        )
-                    ]) as Depth;
+                    fxRate = (await fxRateProvider.getRate()).rate;
                 } catch (error) {
-                    logger.warn("Failed to fetch Polymarket depth data", error);
+                    logger.warn("Failed to fetch USD/INR rate", error);
                 }
                 
-                // Only proceed if both depths are available
-                if (depthProbo && depthPoly) {
-                    // Find and execute arbitrage if available
-                    logger.debug("Analyzing arbitrage opportunities...");
-                    await findAndExecArb(depthPoly, depthProbo);
-                } else {
-                    logger.warn("Skipped arbitrage cycle due to missing depth data");
-                }
+                await mapWithConcurrency(
+                    getEnabledMarketPairs(loadMarketPairs()),
+                    config.maxConcurrentScans,
+                    async pair => recordPairDepth(recorder, pair, await fetchPairDepth(pair, limitedExchanges, fxRate))
+                );
             } catch (error) {
-                logger.error("Error in arbitrage cycle", error);
+                logger.error("Error in recording cycle", error);
             }
             
-            // Wait for next cycle with jitter to avoid thundering herd
-            const jitter = Math.floor(Math.random() * 1000); // Add up to 1 second of random jitter
-            await sleep(intervalMs + jitter);
+            await sleepUnlessStopped(intervalMs, stop.signal);
         }
-    } catch (error) {
-        logger.error("Fatal error in arbitrage bot", error);
-        throw error;
+    } finally {
+        await recorder.close();
+        process.removeListener('SIGINT', onShutdownSignal);
+        process.removeListener('SIGTERM', onShutdownSignal);
+        logger.info("Depth recorder stopped", { cycles: cycleCount });
     }
 }
 
@@ -248,7 +1240,11 @@ export function runBot(): void {
         logger.info("Running in DRY RUN mode - no actual orders will be placed");
     }
       // Start the bot with error handling
-    startArbBot().catch(error => {
+    startArbBot().then(() => {
+        if (typeof process !== 'undefined') {
+            process.exit(0);
+        }
+    }).catch(error => {
         logger.error("Arbitrage bot crashed", error);
         // Exit with error code if available
         if (typeof process !== 'undefined') {
@@ -1,4 +1,6 @@
 // Mock implementation for the clob-client functionality
+import axios from 'axios';
+
 export enum Chain {
     POLYGON = 'polygon'
 }
@@ -8,43 +10,72 @@ export enum Side {
     SELL = 'sell'
 }
 
+export enum AssetType {
+    COLLATERAL = 'COLLATERAL',
+    CONDITIONAL = 'CONDITIONAL'
+}
+
+/**
+ * Stand-in for the CLOB client, calling the same REST endpoints on `host`
+ * without signing orders or requests
+ */
 export class ClobClient {
+    host: string;
     signer: any;
+    credentials: any;
 
     constructor(host: string, chain: Chain, signer: any, credentials: any) {
+        this.host = host.replace(/\/$/, '');
         this.signer = signer;
-        // In a real implementation, this would connect to the service
+        this.credentials = credentials;
+    }
+
+    private async request(method: string, path: string, params?: Record<string, string>, data?: any) {
+        const response = await axios.request({
+            method,
+            url: `${this.host}${path}`,
+            params,
+            data,
+            headers: {
+                'POLY_API_KEY': this.credentials?.key || '',
+                'POLY_PASSPHRASE': this.credentials?.passphrase || ''
+            },
+            timeout: 10000
+        });
+        return response.data;
     }
 
     async getOrderBook(tokenId: string) {
-        // Mock implementation returning simplified order book
-        return {
-            bids: [{ price: '0.6', size: '200' }],
-            asks: [{ price: '0.8', size: '300' }]
-        };
+        return this.request('get', '/book', { token_id: tokenId });
     }
 
     async createOrder(orderParams: any) {
-        // Mock implementation returning a dummy order
-        return {
-            id: 'mock-order-id-' + Math.random().toString(36).substring(7),
-            ...orderParams
-        };
+        // Orders are built locally; the real client signs them here
+        return { ...orderParams };
     }
 
     async postOrder(order: any) {
-        // Mock implementation
-        return {
-            orderID: order.id || 'mock-order-id',
-            status: 'OPEN'
-        };
+        return this.request('post', '/order', undefined, {
+            order,
+            owner: this.credentials?.key,
+            orderType: 'GTC'
+        });
     }
 
     async getOrder(orderId: string) {
-        return {
-            orderID: orderId,
-            status: 'FILLED'
-        };
+        return this.request('get', `/data/order/${orderId}`);
+    }
+
+    async cancelOrder(payload: { orderID: string }) {
+        return this.request('delete', '/order', undefined, payload);
+    }
+
+    async cancelMarketOrders(payload: { market?: string; asset_id?: string }) {
+        return this.request('delete', '/cancel-market-orders', undefined, payload);
+    }
+
+    async getBalanceAllowance(params: { asset_type: AssetType; token_id?: string }) {
+        return this.request('get', '/balance-allowance', { asset_type: params.asset_type, ...(params.token_id ? { token_id: params.token_id } : {}) });
     }
 }
 
@@ -0,0 +1,521 @@
+// Local servers emulating the Probo REST API and the Polymarket CLOB and market channel, with fault injection
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { Depth } from '../types';
+
+/**
+ * A fault applied to requests on one route
+ */
+export interface StubFault {
+    latencyMs?: number; // Delay before responding
+    status?: number; // Respond with this HTTP status instead of handling the request
+    body?: unknown; // Payload to send with `status`
+    malformed?: boolean; // Send a truncated JSON body
+    times?: number; // Number of requests the fault applies to, every request if unset
+}
+
+/**
+ * A request the stub received
+ */
+export interface StubRequest {
+    route: string;
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+/**
+ * An order the stub accepted
+ */
+export interface StubOrder {
+    orderId: string;
+    marketId: string;
+    side: string;
+    size: number;
+    price: number;
+    filledQty: number;
+    cancelled: boolean;
+}
+
+/**
+ * A running stub exchange server
+ */
+export interface StubServer {
+    url: string;
+    requests: StubRequest[];
+    orders: Map<string, StubOrder>;
+    setBook(marketId: string | number, depth: Depth): void;
+    setBalance(balance: number): void;
+    setFillRatio(ratio: number): void;
+    injectFault(route: string, fault: StubFault): void;
+    clearFaults(): void;
+    close(): Promise<void>;
+}
+
+// uint256 max, as set by the approve in approveAllowance
+const MAX_ALLOWANCE = '115792089237316195423570985008687907853269984665640564039457584007913129639935';
+
+/**
+ * A running stub of the Polymarket market channel websocket
+ */
+export interface StubMarketStream {
+    url: string;
+    /** Token IDs of every subscribe message received, in order */
+    subscriptions: string[][];
+    sendBook(tokenId: string, depth: Depth, timestamp?: number): void;
+    sendPriceChange(tokenId: string, changes: { price: string; size: string; side: 'BUY' | 'SELL' }[], timestamp?: number): void;
+    /** Send raw text to every client, e.g. a malformed message */
+    sendRaw(text: string): void;
+    /** Close every client connection, as a server restart would */
+    dropConnections(): void;
+    /** Resolve once this many subscribe messages have arrived in total */
+    waitForSubscriptions(count: number): Promise<void>;
+    close(): Promise<void>;
+}
+
+type Reply = { status: number; body: unknown };
+
+type RouteHandler = (match: RegExpMatchArray, url: URL, body: any) => Reply;
+
+interface Route {
+    name: string;
+    method: string;
+    pattern: RegExp;
+    handle: RouteHandler;
+}
+
+interface StubState {
+    books: Map<string, Depth>;
+    orders: Map<string, StubOrder>;
+    balance: number;
+    fillRatio: number;
+    orderCount: number;
+}
+
+/**
+ * Read and parse a request body
+ * @param req The request
+ * @returns The parsed JSON body, the raw text if it isn't JSON, or undefined if empty
+ */
+function readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('error', reject);
+        req.on('end', () => {
+            const text = Buffer.concat(chunks).toString('utf8');
+            if (!text) {
+                resolve(undefined);
+                return;
+            }
+            try {
+                resolve(JSON.parse(text));
+            } catch (error) {
+                resolve(text);
+            }
+        });
+    });
+}
+
+/**
+ * Start an HTTP server on a free local port that dispatches to the given
+ * routes, applying any injected faults first
+ * @param buildRoutes Builds the routes over the shared state
+ * @returns The running server
+ */
+async function startStub(buildRoutes: (state: StubState) => Route[]): Promise<StubServer> {
+    const state: StubState = { books: new Map(), orders: new Map(), balance: 0, fillRatio: 1, orderCount: 0 };
+    const routes = buildRoutes(state);
+    const faults = new Map<string, StubFault>();
+    const requests: StubRequest[] = [];
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const body = await readBody(req);
+        let route: Route | undefined;
+        let match: RegExpMatchArray | null = null;
+        for (const candidate of routes) {
+            match = candidate.method === req.method ? url.pathname.match(candidate.pattern) : null;
+            if (match) {
+                route = candidate;
+                break;
+            }
+        }
+
+        if (!route || !match) {
+            res.writeHead(404, { 'content-type': 'application/json' });
+            res.end(JSON.stringify({ error: `No stub route for ${req.method} ${url.pathname}` }));
+            return;
+        }
+        requests.push({ route: route.name, method: req.method || '', path: url.pathname + url.search, headers: req.headers, body });
+
+        const fault = faults.get(route.name);
+        if (fault && fault.times !== undefined) {
+            fault.times--;
+            if (fault.times <= 0) {
+                faults.delete(route.name);
+            }
+        }
+        if (fault?.latencyMs) {
+            await new Promise(resolve => setTimeout(resolve, fault.latencyMs));
+        }
+
+        const reply = fault?.status !== undefined
+            ? { status: fault.status, body: fault.body ?? { error: `Injected ${fault.status}` } }
+            : route.handle(match, url, body);
+
+        res.writeHead(reply.status, { 'content-type': 'application/json' });
+        res.end(fault?.malformed ? JSON.stringify(reply.body).slice(0, -1) : JSON.stringify(reply.body));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        orders: state.orders,
+        setBook: (marketId, depth) => {
+            state.books.set(String(marketId), depth);
+        },
+        setBalance: (balance) => {
+            state.balance = balance;
+        },
+        setFillRatio: (ratio) => {
+            state.fillRatio = ratio;
+        },
+        injectFault: (route, fault) => {
+            faults.set(route, { ...fault });
+        },
+        clearFaults: () => faults.clear(),
+        close: () => new Promise<void>((resolve, reject) => {
+            server.closeAllConnections();
+            server.close(error => error ? reject(error) : resolve());
+        })
+    };
+}
+
+/**
+ * Accept an order, filling the configured share of it
+ * @param state The stub state
+ * @param prefix Order ID prefix
+ * @param marketId The market the order is for
+ * @param side The order side
+ * @param size Order quantity
+ * @param price Limit price
+ * @returns The stored order
+ */
+function acceptOrder(state: StubState, prefix: string, marketId: string, side: string, size: number, price: number): StubOrder {
+    const orderId = `${prefix}-${++state.orderCount}`;
+    const order: StubOrder = {
+        orderId,
+        marketId,
+        side,
+        size,
+        price,
+        filledQty: Math.min(size, size * state.fillRatio),
+        cancelled: false
+    };
+    state.orders.set(orderId, order);
+    return order;
+}
+
+/**
+ * Probo's status name for an order
+ * @param order The order
+ * @returns The status
+ */
+function proboStatus(order: StubOrder): string {
+    if (order.cancelled) {
+        return 'CANCELLED';
+    }
+    if (order.filledQty >= order.size) {
+        return 'EXECUTED';
+    }
+    return order.filledQty > 0 ? 'PARTIALLY_EXECUTED' : 'OPEN';
+}
+
+/**
+ * Start a stub of the Probo endpoints the bot uses: bestAvailablePrice,
+ * order/initiate, order status, cancel, open orders and wallet balance.
+ * Routes for fault injection: `depth`, `createOrder`, `orderStatus`,
+ * `cancelOrder`, `openOrders`, `balance`.
+ * @returns The running server; point `PROBO_API_URL` at its `url`
+ */
+export function startProboStub(): Promise<StubServer> {
+    return startStub(state => {
+        const toResponse = (order: StubOrder) => ({
+            order_id: order.orderId,
+            event_id: Number(order.marketId),
+            offer_type: order.side,
+            status: proboStatus(order),
+            total_qty: order.size,
+            matched_qty: order.filledQty,
+            avg_price: order.filledQty > 0 ? order.price : undefined
+        });
+        const notFound = (orderId: string): Reply => ({
+            status: 404,
+            body: { errors: [{ message: `Order ${orderId} not found` }] }
+        });
+
+        // The open orders path would also match the order status pattern, so it goes first
+        return [
+            {
+                name: 'depth',
+                method: 'GET',
+                pattern: /^\/api\/v3\/tms\/trade\/bestAvailablePrice$/,
+                handle: (match, url) => {
+                    const depth = state.books.get(url.searchParams.get('eventId') || '') || { buy: {}, sell: {} };
+                    return { status: 200, body: { data: { available_qty: depth } } };
+                }
+            },
+            {
+                name: 'createOrder',
+                method: 'POST',
+                pattern: /^\/api\/v1\/oms\/order\/initiate$/,
+                handle: (match, url, body) => {
+                    const order = acceptOrder(state, 'probo', String(body?.event_id), body?.offer_type,
+                        Number(body?.l1_order_quantity), Number(body?.l1_expected_price));
+                    return { status: 200, body: { data: toResponse(order) } };
+                }
+            },
+            {
+                name: 'openOrders',
+                method: 'GET',
+                pattern: /^\/api\/v1\/oms\/order\/open$/,
+                handle: (match, url) => {
+                    const records = [...state.orders.values()]
+                        .filter(order => order.marketId === url.searchParams.get('eventId'))
+                        .filter(order => !order.cancelled && order.filledQty < order.size)
+                        .map(toResponse);
+                    return { status: 200, body: { data: { records } } };
+                }
+            },
+            {
+                name: 'orderStatus',
+                method: 'GET',
+                pattern: /^\/api\/v1\/oms\/order\/([^/]+)$/,
+                handle: (match) => {
+                    const order = state.orders.get(match[1]);
+                    return order ? { status: 200, body: { data: toResponse(order) } } : notFound(match[1]);
+                }
+            },
+            {
+                name: 'cancelOrder',
+                method: 'PUT',
+                pattern: /^\/api\/v1\/oms\/order\/cancel\/([^/]+)$/,
+                handle: (match) => {
+                    const order = state.orders.get(match[1]);
+                    if (!order) {
+                        return notFound(match[1]);
+                    }
+                    order.cancelled = true;
+                    return { status: 200, body: { data: toResponse(order) } };
+                }
+            },
+            {
+                name: 'balance',
+                method: 'GET',
+                pattern: /^\/api\/v1\/wallet\/balance$/,
+                handle: () => ({ status: 200, body: { data: { balance: state.balance } } })
+            }
+        ];
+    });
+}
+
+/**
+ * Start a stub of the Polymarket CLOB endpoints the bot uses: order book,
+ * post order, get order, cancels and balance/allowance.
+ * Routes for fault injection: `book`, `postOrder`, `getOrder`,
+ * `cancelOrder`, `cancelMarketOrders`, `balanceAllowance`.
+ * @returns The running server; point `CLOB_API_URL` at its `url`
+ */
+export function startClobStub(): Promise<StubServer> {
+    return startStub(state => {
+        const toLevels = (levels: Record<string, string>) =>
+            Object.entries(levels).map(([price, size]) => ({ price, size }));
+        const toResponse = (order: StubOrder) => ({
+            id: order.orderId,
+            asset_id: order.marketId,
+            side: order.side.toUpperCase(),
+            status: order.cancelled ? 'CANCELED' : order.filledQty >= order.size ? 'MATCHED' : 'LIVE',
+            original_size: String(order.size),
+            size_matched: String(order.filledQty),
+            price: String(order.price)
+        });
+        const cancel = (orderIds: string[]) => {
+            const canceled: string[] = [];
+            const notCanceled: Record<string, string> = {};
+            for (const orderId of orderIds) {
+                const order = state.orders.get(orderId);
+                if (!order || order.cancelled || order.filledQty >= order.size) {
+                    notCanceled[orderId] = order ? 'order can\'t be canceled' : 'order not found';
+                    continue;
+                }
+                order.cancelled = true;
+                canceled.push(orderId);
+            }
+            return { status: 200, body: { canceled, not_canceled: notCanceled } };
+        };
+
+        return [
+            {
+                name: 'book',
+                method: 'GET',
+                pattern: /^\/book$/,
+                handle: (match, url) => {
+                    const tokenId = url.searchParams.get('token_id') || '';
+                    const depth = state.books.get(tokenId) || { buy: {}, sell: {} };
+                    return {
+                        status: 200,
+                        body: {
+                            asset_id: tokenId,
+                            bids: toLevels(depth.buy),
+                            asks: toLevels(depth.sell),
+                            timestamp: String(Date.now())
+                        }
+                    };
+                }
+            },
+            {
+                name: 'postOrder',
+                method: 'POST',
+                pattern: /^\/order$/,
+                handle: (match, url, body) => {
+                    const order = acceptOrder(state, 'clob', String(body?.order?.tokenID), String(body?.order?.side),
+                        Number(body?.order?.size), Number(body?.order?.price));
+                    return {
+                        status: 200,
+                        body: { success: true, orderID: order.orderId, status: order.filledQty >= order.size ? 'matched' : 'live' }
+                    };
+                }
+            },
+            {
+                name: 'getOrder',
+                method: 'GET',
+                pattern: /^\/data\/order\/([^/]+)$/,
+                handle: (match) => {
+                    const order = state.orders.get(match[1]);
+                    return order
+                        ? { status: 200, body: toResponse(order) }
+                        : { status: 404, body: { error: `Order ${match[1]} not found` } };
+                }
+            },
+            {
+                name: 'cancelOrder',
+                method: 'DELETE',
+                pattern: /^\/order$/,
+                handle: (match, url, body) => cancel([String(body?.orderID)])
+            },
+            {
+                name: 'cancelMarketOrders',
+                method: 'DELETE',
+                pattern: /^\/cancel-market-orders$/,
+                handle: (match, url, body) => cancel([...state.orders.values()]
+                    .filter(order => order.marketId === String(body?.asset_id))
+                    .filter(order => !order.cancelled && order.filledQty < order.size)
+                    .map(order => order.orderId))
+            },
+            {
+                name: 'balanceAllowance',
+                method: 'GET',
+                pattern: /^\/balance-allowance$/,
+                handle: () => ({
+                    status: 200,
+                    // USDC uses 6 decimals on Polygon; the allowance is unlimited
+                    body: { balance: String(Math.round(state.balance * 1e6)), allowance: MAX_ALLOWANCE }
+                })
+            }
+        ];
+    });
+}
+
+/**
+ * Start a stub of the Polymarket CLOB market channel. Clients subscribe with
+ * `{ type: 'market', assets_ids }` and only receive messages for those tokens.
+ * @returns The running server; point `POLYMARKET_WS_URL` at its `url`
+ */
+export async function startMarketStreamStub(): Promise<StubMarketStream> {
+    const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    const clients = new Map<WebSocket, Set<string>>();
+    const subscriptions: string[][] = [];
+    let waiters: { count: number; resolve: () => void }[] = [];
+
+    server.on('connection', socket => {
+        clients.set(socket, new Set());
+        socket.on('close', () => clients.delete(socket));
+        socket.on('message', data => {
+            const text = data.toString();
+            if (text === 'PING') {
+                socket.send('PONG');
+                return;
+            }
+            const message = JSON.parse(text);
+            const tokenIds: string[] = (message.assets_ids ?? []).map(String);
+            tokenIds.forEach(tokenId => clients.get(socket)?.add(tokenId));
+            subscriptions.push(tokenIds);
+            waiters = waiters.filter(waiter => {
+                if (subscriptions.length >= waiter.count) {
+                    waiter.resolve();
+                    return false;
+                }
+                return true;
+            });
+        });
+    });
+
+    const broadcast = (tokenId: string, message: unknown) => {
+        for (const [socket, tokenIds] of clients) {
+            if (tokenIds.has(tokenId)) {
+                socket.send(JSON.stringify([message]));
+            }
+        }
+    };
+    const toLevels = (levels: Record<string, string>) =>
+        Object.entries(levels).map(([price, size]) => ({ price, size }));
+
+    return {
+        url: `ws://127.0.0.1:${port}`,
+        subscriptions,
+        sendBook: (tokenId, depth, timestamp = Date.now()) => broadcast(tokenId, {
+            event_type: 'book',
+            asset_id: tokenId,
+            bids: toLevels(depth.buy),
+            asks: toLevels(depth.sell),
+            timestamp: String(timestamp)
+        }),
+        sendPriceChange: (tokenId, changes, timestamp = Date.now()) => broadcast(tokenId, {
+            event_type: 'price_change',
+            price_changes: changes.map(change => ({ asset_id: tokenId, ...change })),
+            timestamp: String(timestamp)
+        }),
+        sendRaw: (text) => {
+            for (const socket of clients.keys()) {
+                socket.send(text);
+            }
+        },
+        dropConnections: () => {
+            for (const socket of clients.keys()) {
+                socket.terminate();
+            }
+        },
+        waitForSubscriptions: (count) => new Promise<void>(resolve => {
+            if (subscriptions.length >= count) {
+                resolve();
+            } else {
+                waiters.push({ count, resolve });
+            }
+        }),
+        close: () => new Promise<void>((resolve, reject) => {
+            for (const socket of clients.keys()) {
+                socket.terminate();
+            }
+            server.close(error => error ? reject(error) : resolve());
+        })
+    };
+}
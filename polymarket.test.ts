@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import { getConfig } from "./config";
+import { startClobStub, StubServer } from "./mocks/stubServers";
+import { OrderSide, OrderStatus } from "./types";
+
+jest.mock("./config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        clobApiUrl: "",
+        rpcUrl: "",
+        ethPrivateKey: "0x0123456789012345678901234567890123456789012345678901234567890123",
+        polymarketApiKey: "test-key",
+        polymarketApiSecret: "test-secret",
+        polymarketPassPhrase: "test-passphrase",
+        polymarketFeeRateBps: 0,
+        minUsdcAllowanceUsd: 10000,
+        dryRun: false,
+        logLevel: "error"
+    })
+}));
+
+describe("Polymarket API Tests", () => {
+    let stub: StubServer;
+    let polymarket: typeof import("./polymarket");
+
+    beforeAll(async () => {
+        stub = await startClobStub();
+        getConfig().clobApiUrl = stub.url;
+        getConfig().rpcUrl = stub.url;
+        // The client is created on import, so it must see the stub's URL
+        polymarket = require("./polymarket");
+    });
+
+    afterAll(async () => {
+        await stub.close();
+    });
+
+    beforeEach(() => {
+        stub.clearFaults();
+        stub.setFillRatio(1);
+        stub.requests.length = 0;
+    });
+
+    test("should read bids and asks from the order book with its timestamps", async () => {
+        stub.setBook("222", { buy: { "0.38": "100" }, sell: { "0.40": "10", "0.42": "20" } });
+        const before = Date.now();
+
+        const depth = await polymarket.getDepth("222");
+
+        expect(depth).toMatchObject({ buy: { "0.38": "100" }, sell: { "0.40": "10", "0.42": "20" } });
+        expect(Date.parse(depth.fetchedAt as string)).toBeGreaterThanOrEqual(before);
+        expect(Date.parse(depth.exchangeTimestamp as string)).toBeGreaterThanOrEqual(before);
+        expect(stub.requests[0].path).toBe("/book?token_id=222");
+    });
+
+    test("should reject malformed and failed book responses", async () => {
+        stub.injectFault("book", { malformed: true, times: 1 });
+        await expect(polymarket.getDepth("222")).rejects.toThrow("Invalid response format from Polymarket API");
+
+        stub.injectFault("book", { status: 502, times: 1 });
+        await expect(polymarket.getDepth("222")).rejects.toThrow("502");
+    });
+
+    test("should post orders and report partial fills", async () => {
+        stub.setFillRatio(0.5);
+        const placed = await polymarket.polymarketAdapter.createOrder("222", OrderSide.BUY, 20, 0.42);
+
+        expect(placed.success).toBe(true);
+        expect(stub.requests[0].body.order).toMatchObject({ tokenID: "222", price: 0.42, size: 20 });
+
+        const state = await polymarket.polymarketAdapter.getOrderStatus(placed.orderId as string);
+        expect(state.status).toBe(OrderStatus.PARTIALLY_FILLED);
+        expect(state.filledQty).toBe(10);
+
+        const cancelled = await polymarket.cancelOrder(placed.orderId as string);
+        expect(cancelled.success).toBe(true);
+        expect((await polymarket.polymarketAdapter.getOrderStatus(placed.orderId as string)).status)
+            .toBe(OrderStatus.CANCELLED);
+    });
+
+    test("should return a failed result when posting an order errors", async () => {
+        stub.injectFault("postOrder", { status: 500, times: 1 });
+        const ordersBefore = stub.orders.size;
+
+        const result = await polymarket.createOrder("222", 0.42, 20, "buy");
+
+        expect(result.success).toBe(false);
+        expect(stub.orders.size).toBe(ordersBefore);
+    });
+
+    test("should skip the approve when the allowance suffices", async () => {
+        stub.setBalance(750);
+
+        expect(await polymarket.getBalance()).toBe(750);
+        expect(await polymarket.approveAllowance("222")).toBe(true);
+        expect(stub.requests.map(request => request.route)).toEqual(["balanceAllowance", "balanceAllowance"]);
+    });
+});
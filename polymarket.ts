@@ -1,9 +1,17 @@
 import { ethers } from "ethers";
 import { JsonRpcProvider } from "@ethersproject/providers";
 import { Wallet } from "@ethersproject/wallet";
-import { Chain, ClobClient, getContractConfig, Side } from "./mocks/clob-client";
+import { AssetType, Chain, ClobClient, getContractConfig, Side } from "./mocks/clob-client";
 import { getUsdcContract } from "./mocks/approveAllowances";
-import { Depth, OrderResult, MarketData } from "./types";
+import {
+    Depth,
+    OrderResult,
+    Exchange,
+    ExchangeAdapter,
+    OrderSide,
+    OrderState,
+    OrderStatus
+} from "./types";
 import { logger } from "./utils/logger";
 import { getConfig } from "./config";
 
@@ -38,25 +46,57 @@ try {
 }
 
 /**
- * Approve token allowance for trading on Polymarket
- * @param tokenId The token ID
- * @returns A promise that resolves when the allowance is approved
+ * Get the USDC allowance the exchange contracts may spend
+ * @returns A promise resolving to the allowance in USD
  */
-export async function approveAllowance(tokenId: string): Promise<boolean> {
+export async function getAllowance(): Promise<number> {
     try {
-        logger.info(`Approving allowance for token ${tokenId}`);
+        logger.debug('Fetching Polymarket USDC allowance');
+        
+        const response = await clobClient.getBalanceAllowance({ asset_type: AssetType.COLLATERAL });
         
+        // USDC uses 6 decimals on Polygon
+        return Number(response.allowance) / 1e6;
+    } catch (error) {
+        logger.error('Failed to get Polymarket USDC allowance', error);
+        throw error;
+    }
+}
+
+/**
+ * Approve token allowance for trading on Polymarket, unless the existing
+ * allowance already covers `minUsdcAllowanceUsd`
+ * @param tokenId The token ID
+ * @param signal Raised on shutdown; no approval is sent once it is
+ * @returns A promise resolving to true once the allowance is in place, or false if stopped first
+ */
+export async function approveAllowance(tokenId: string, signal?: AbortSignal): Promise<boolean> {
+    try {
         const config = getConfig();
+        
+        const allowance = await getAllowance();
+        if (allowance >= config.minUsdcAllowanceUsd) {
+            logger.info(`USDC allowance of $${allowance.toFixed(2)} is sufficient, skipping approve`);
+            return true;
+        }
+        
+        logger.info(`Approving allowance for token ${tokenId} (current allowance $${allowance.toFixed(2)})`);
+        
         if (config.dryRun) {
             logger.info("DRY RUN: Would approve token allowance on Polymarket");
             return true;
         }
         
+        if (signal?.aborted) {
+            logger.info("Shutdown requested, not sending the allowance approval");
+            return false;
+        }
+        
         const usdc = getUsdcContract(true, clobClient.signer);
         const contractConfig = getContractConfig(Chain.POLYGON);
         
         const txn = await usdc.approve(contractConfig.conditionalTokens, ethers.constants.MaxUint256, {
-            gasPrice: 100_000_000_000,
+            gasPrice: config.approveGasPriceGwei * 1_000_000_000,
             gasLimit: 200_000,
         });
         
@@ -104,7 +144,7 @@ export async function createOrder(
             price,
             side: side === 'buy' ? Side.BUY : Side.SELL,
             size,
-            feeRateBps: 0,
+            feeRateBps: config.polymarketFeeRateBps,
         });
         
         // Post order to exchange
@@ -149,7 +189,13 @@ export async function getDepth(tokenId: string): Promise<Depth> {
             throw new Error('Invalid response format from Polymarket API');
         }
         
-        let depth: Depth = {buy: {}, sell: {}};
+        let depth: Depth = {
+            buy: {},
+            sell: {},
+            fetchedAt: new Date().toISOString(),
+            // Milliseconds since the epoch, when the CLOB took the snapshot
+            ...(response.timestamp ? { exchangeTimestamp: new Date(Number(response.timestamp)).toISOString() } : {})
+        };
           // Parse bids (buy orders)
         response.bids.forEach((bid: { price: number | string; size: number | string }) => {
             depth.buy[bid.price.toString()] = bid.size.toString();
@@ -160,12 +206,6 @@ export async function getDepth(tokenId: string): Promise<Depth> {
             depth.sell[ask.price.toString()] = ask.size.toString();
         });
         
-        const marketData: MarketData = {
-            marketId: tokenId,
-            depthData: depth,
-            timestamp: new Date().toISOString()
-        };
-        
         logger.debug('Polymarket depth data retrieved successfully', {
             buyLevels: response.bids.length,
             sellLevels: response.asks.length
@@ -200,4 +240,164 @@ export async function getOrderStatus(orderId: string): Promise<any> {
         logger.error(`Failed to get Polymarket order status for order ${orderId}`, error);
         throw error;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Cancel an order on Polymarket
+ * @param orderId The order ID to cancel
+ * @returns A promise resolving to the cancellation result
+ */
+export async function cancelOrder(orderId: string): Promise<OrderResult> {
+    try {
+        const config = getConfig();
+        if (config.dryRun) {
+            logger.info(`DRY RUN: Would cancel Polymarket order ${orderId}`);
+            return {
+                success: true,
+                orderId,
+                exchangeResponse: { dryRun: true }
+            };
+        }
+        
+        logger.info(`Cancelling Polymarket order ${orderId}`);
+        const response = await clobClient.cancelOrder({ orderID: orderId });
+        
+        if (!response.canceled?.includes(orderId)) {
+            const reason = (response.not_canceled as Record<string, string>)?.[orderId];
+            throw new Error(`Polymarket did not cancel order ${orderId}${reason ? `: ${reason}` : ''}`);
+        }
+        
+        logger.info('Polymarket order cancelled', response);
+        return {
+            success: true,
+            orderId,
+            exchangeResponse: response
+        };
+    } catch (error) {
+        logger.error(`Failed to cancel Polymarket order ${orderId}`, error);
+        return {
+            success: false,
+            orderId,
+            error: error instanceof Error ? error : new Error(String(error)),
+            exchangeResponse: null
+        };
+    }
+}
+
+/**
+ * Cancel every open order on a Polymarket token
+ * @param tokenId The token ID
+ * @returns A promise resolving to the cancellation result, with the cancelled IDs in the response
+ */
+export async function cancelAllOrders(tokenId: string): Promise<OrderResult> {
+    try {
+        const config = getConfig();
+        if (config.dryRun) {
+            logger.info(`DRY RUN: Would cancel all Polymarket orders on token ${tokenId}`);
+            return {
+                success: true,
+                exchangeResponse: { dryRun: true }
+            };
+        }
+        
+        logger.info(`Cancelling all Polymarket orders on token ${tokenId}`);
+        const response = await clobClient.cancelMarketOrders({ asset_id: tokenId });
+        
+        logger.info(`Cancelled ${response.canceled.length} Polymarket orders`, response);
+        return {
+            success: Object.keys(response.not_canceled || {}).length === 0,
+            exchangeResponse: response
+        };
+    } catch (error) {
+        logger.error(`Failed to cancel Polymarket orders on token ${tokenId}`, error);
+        return {
+            success: false,
+            error: error instanceof Error ? error : new Error(String(error)),
+            exchangeResponse: null
+        };
+    }
+}
+
+/**
+ * Normalise a Polymarket CLOB order response
+ * @param orderId The order ID
+ * @param response Response from getOrderStatus
+ * @returns The order state
+ */
+export function toOrderState(orderId: string, response: any): OrderState {
+    const status = String(response?.status ?? '').toUpperCase();
+    const originalSize = Number(response?.original_size);
+    const sizeMatched = response?.size_matched !== undefined ? Number(response.size_matched) : undefined;
+    const price = response?.price !== undefined ? Number(response.price) : undefined;
+    const partiallyMatched = sizeMatched !== undefined && sizeMatched > 0
+        && Number.isFinite(originalSize) && sizeMatched < originalSize;
+    
+    let normalised: OrderStatus;
+    switch (status) {
+        case 'MATCHED':
+        case 'FILLED':
+            normalised = partiallyMatched ? OrderStatus.PARTIALLY_FILLED : OrderStatus.FILLED;
+            break;
+        case 'LIVE':
+        case 'DELAYED':
+        case 'UNMATCHED':
+        case 'OPEN':
+            normalised = partiallyMatched ? OrderStatus.PARTIALLY_FILLED : OrderStatus.OPEN;
+            break;
+        case 'CANCELED':
+        case 'CANCELLED':
+            normalised = OrderStatus.CANCELLED;
+            break;
+        case 'EXPIRED':
+            normalised = OrderStatus.EXPIRED;
+            break;
+        case 'INVALID':
+        case 'REJECTED':
+            normalised = OrderStatus.REJECTED;
+            break;
+        default:
+            normalised = OrderStatus.OPEN;
+    }
+    
+    return {
+        orderId,
+        exchange: Exchange.POLYMARKET,
+        status: normalised,
+        filledQty: sizeMatched,
+        // Limit orders fill at their price or better; the CLOB only reports the limit
+        avgFillPrice: sizeMatched ? price : undefined,
+        raw: response
+    };
+}
+
+/**
+ * Get the available USDC collateral balance on Polymarket
+ * @returns A promise resolving to the balance in USD
+ */
+export async function getBalance(): Promise<number> {
+    try {
+        logger.debug('Fetching Polymarket collateral balance');
+        
+        const response = await clobClient.getBalanceAllowance({ asset_type: AssetType.COLLATERAL });
+        
+        // USDC uses 6 decimals on Polygon
+        return Number(response.balance) / 1e6;
+    } catch (error) {
+        logger.error('Failed to get Polymarket collateral balance', error);
+        throw error;
+    }
+}
+
+/**
+ * Polymarket implementation of the common exchange contract
+ */
+export const polymarketAdapter: ExchangeAdapter = {
+    exchange: Exchange.POLYMARKET,
+    getDepth: (tokenId) => getDepth(String(tokenId)),
+    createOrder: (tokenId, side, size, price) =>
+        createOrder(String(tokenId), price, size, side === OrderSide.SELL ? 'sell' : 'buy'),
+    getOrderStatus: async (orderId) => toOrderState(orderId, await getOrderStatus(orderId)),
+    cancelOrder,
+    cancelAllOrders: (tokenId) => cancelAllOrders(String(tokenId)),
+    getBalance
+};
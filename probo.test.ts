@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import { cancelAllOrders, createOrder, getBalance, getDepth, proboAdapter } from "./probo";
+import { getConfig } from "./config";
+import { startProboStub, StubServer } from "./mocks/stubServers";
+import { OrderSide, OrderStatus } from "./types";
+
+jest.mock("./config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        proboApiUrl: "",
+        proboAuthToken: "test-token",
+        dryRun: false,
+        logLevel: "error"
+    })
+}));
+
+describe("Probo API Tests", () => {
+    let stub: StubServer;
+
+    beforeAll(async () => {
+        stub = await startProboStub();
+        getConfig().proboApiUrl = stub.url;
+    });
+
+    afterAll(async () => {
+        await stub.close();
+    });
+
+    beforeEach(() => {
+        stub.clearFaults();
+        stub.setFillRatio(1);
+        stub.requests.length = 0;
+    });
+
+    test("should fetch depth with the auth headers and keep both books", async () => {
+        stub.setBook(111, { buy: { "4": "100", "4.5": "20" }, sell: { "6": "50" } });
+
+        const depth = await getDepth(111);
+
+        expect(depth).toEqual({ buy: { "4": "100", "4.5": "20" }, sell: { "6": "50" }, fetchedAt: expect.any(String) });
+        expect(stub.requests[0].path).toBe("/api/v3/tms/trade/bestAvailablePrice?eventId=111");
+        expect(stub.requests[0].headers["authorization"]).toBe("Bearer test-token");
+        expect(stub.requests[0].headers["appid"]).toBe("in.probo.pro");
+    });
+
+    test("should reject malformed and failed depth responses", async () => {
+        stub.injectFault("depth", { malformed: true, times: 1 });
+        await expect(getDepth(111)).rejects.toThrow("Invalid response format from Probo API");
+
+        stub.injectFault("depth", { status: 503, times: 1 });
+        await expect(getDepth(111)).rejects.toThrow("503");
+
+        // Faults with a count clear themselves
+        await expect(getDepth(111)).resolves.toBeDefined();
+    });
+
+    test("should wait out injected latency", async () => {
+        stub.injectFault("balance", { latencyMs: 200 });
+        stub.setBalance(2500);
+
+        const started = Date.now();
+        expect(await getBalance()).toBe(2500);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+    });
+
+    test("should send the limit order and surface Probo's error message", async () => {
+        const placed = await createOrder(111, "sell", 20, 6.5);
+
+        expect(placed.success).toBe(true);
+        expect(stub.requests[0].body).toMatchObject({
+            event_id: 111,
+            offer_type: "sell",
+            order_type: "LO",
+            l1_order_quantity: 20,
+            l1_expected_price: 6.5
+        });
+        expect(stub.orders.get(placed.orderId as string)?.size).toBe(20);
+
+        stub.injectFault("createOrder", {
+            status: 200,
+            body: { errors: [{ message: "Insufficient wallet balance" }] },
+            times: 1
+        });
+        const rejected = await createOrder(111, "sell", 20, 6.5);
+
+        expect(rejected.success).toBe(false);
+        expect(rejected.error?.message).toBe("Probo API error: Insufficient wallet balance");
+    });
+
+    test("should return a failed result with the error payload on a 5xx", async () => {
+        stub.injectFault("createOrder", { status: 500, body: { errors: [{ message: "Internal error" }] } });
+
+        const result = await createOrder(111, "buy", 10, 4);
+
+        expect(result.success).toBe(false);
+        expect(result.exchangeResponse).toEqual({ errors: [{ message: "Internal error" }] });
+    });
+
+    test("should report partial fills and cancel what rests", async () => {
+        stub.setFillRatio(0.4);
+        const placed = await proboAdapter.createOrder(222, OrderSide.BUY, 10, 4);
+
+        const state = await proboAdapter.getOrderStatus(placed.orderId as string);
+        expect(state.status).toBe(OrderStatus.PARTIALLY_FILLED);
+        expect(state.filledQty).toBe(4);
+        expect(state.avgFillPrice).toBe(4);
+
+        const cancelled = await cancelAllOrders(222);
+        expect(cancelled.success).toBe(true);
+        expect(cancelled.exchangeResponse.canceled).toEqual([placed.orderId]);
+        expect((await proboAdapter.getOrderStatus(placed.orderId as string)).status).toBe(OrderStatus.CANCELLED);
+    });
+});
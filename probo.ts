@@ -1,9 +1,45 @@
 import axios from "axios";
 import { AxiosRequestConfig, AxiosResponse } from "axios";
-import { Depth, OrderResult, MarketData } from "./types";
+import {
+    Depth,
+    OrderResult,
+    Exchange,
+    ExchangeAdapter,
+    OrderSide,
+    OrderState,
+    OrderStatus
+} from "./types";
 import { logger } from "./utils/logger";
 import { getConfig } from "./config";
 
+/**
+ * Headers for authenticated Probo API calls, matching the web app's
+ * @returns The request headers
+ */
+function proboHeaders(): Record<string, string> {
+    const config = getConfig();
+    
+    return {
+        'accept': '*/*', 
+        'accept-language': 'en-US,en;q=0.9', 
+        'appid': 'in.probo.pro', 
+        'authorization': `Bearer ${config.proboAuthToken}`,
+        'content-type': 'application/json', 
+        'origin': 'https://probo.in', 
+        'priority': 'u=1, i', 
+        'referer': 'https://probo.in/', 
+        'sec-ch-ua': '"Chromium";v="136", "Not-A.Brand";v="99", "Google Chrome";v="136"', 
+        'sec-ch-ua-mobile': '?0', 
+        'sec-ch-ua-platform': '"Windows"', 
+        'sec-fetch-dest': 'empty', 
+        'sec-fetch-mode': 'cors', 
+        'sec-fetch-site': 'same-site', 
+        'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36', 
+        'x-device-os': 'ANDROID', 
+        'x-version-name': '10'
+    };
+}
+
 /**
  * Get market depth from Probo
  * @param marketId The market ID to query
@@ -15,26 +51,8 @@ export async function getDepth(marketId: number): Promise<Depth> {
     const requestConfig: AxiosRequestConfig = {
         method: 'get',
         maxBodyLength: Infinity,
-        url: `https://prod.api.probo.in/api/v3/tms/trade/bestAvailablePrice?eventId=${marketId}`,
-        headers: { 
-            'accept': '*/*', 
-            'accept-language': 'en-US,en;q=0.9', 
-            'appid': 'in.probo.pro', 
-            'authorization': `Bearer ${config.proboAuthToken}`,
-            'content-type': 'application/json', 
-            'origin': 'https://probo.in', 
-            'priority': 'u=1, i', 
-            'referer': 'https://probo.in/', 
-            'sec-ch-ua': '"Chromium";v="136", "Not-A.Brand";v="99", "Google Chrome";v="136"', 
-            'sec-ch-ua-mobile': '?0', 
-            'sec-ch-ua-platform': '"Windows"', 
-            'sec-fetch-dest': 'empty', 
-            'sec-fetch-mode': 'cors', 
-            'sec-fetch-site': 'same-site', 
-            'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36', 
-            'x-device-os': 'ANDROID', 
-            'x-version-name': '10'
-        },
+        url: `${config.proboApiUrl}/api/v3/tms/trade/bestAvailablePrice?eventId=${marketId}`,
+        headers: proboHeaders(),
         timeout: 10000 // 10 seconds timeout
     };
     
@@ -46,7 +64,7 @@ export async function getDepth(marketId: number): Promise<Depth> {
             throw new Error('Invalid response format from Probo API');
         }
         
-        let book: Depth = { buy: {}, sell: {} };
+        let book: Depth = { buy: {}, sell: {}, fetchedAt: new Date().toISOString() };
         
         // Parse buy orders
         if (response.data.data.available_qty.buy) {
@@ -62,12 +80,6 @@ export async function getDepth(marketId: number): Promise<Depth> {
             });
         }
         
-        const marketData: MarketData = {
-            marketId,
-            depthData: book,
-            timestamp: new Date().toISOString()
-        };
-        
         logger.debug('Probo depth data retrieved successfully', {
             buyLevels: Object.keys(book.buy).length,
             sellLevels: Object.keys(book.sell).length
@@ -132,26 +144,8 @@ export async function createOrder(
     const requestConfig: AxiosRequestConfig = {
         method: 'post',
         maxBodyLength: Infinity,
-        url: 'https://prod.api.probo.in/api/v1/oms/order/initiate',
-        headers: { 
-            'accept': '*/*', 
-            'accept-language': 'en-US,en;q=0.9', 
-            'appid': 'in.probo.pro', 
-            'authorization': `Bearer ${config.proboAuthToken}`, 
-            'content-type': 'application/json', 
-            'origin': 'https://probo.in', 
-            'priority': 'u=1, i', 
-            'referer': 'https://probo.in/', 
-            'sec-ch-ua': '"Chromium";v="136", "Not-A.Brand";v="99", "Google Chrome";v="136"', 
-            'sec-ch-ua-mobile': '?0', 
-            'sec-ch-ua-platform': '"Windows"', 
-            'sec-fetch-dest': 'empty', 
-            'sec-fetch-mode': 'cors', 
-            'sec-fetch-site': 'same-site', 
-            'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36', 
-            'x-device-os': 'ANDROID', 
-            'x-version-name': '10'
-        },
+        url: `${config.proboApiUrl}/api/v1/oms/order/initiate`,
+        headers: proboHeaders(),
         data: JSON.stringify(orderData),
         timeout: 15000 // 15 seconds timeout
     };
@@ -199,24 +193,14 @@ export async function createOrder(
 export async function getOrderStatus(orderId: string): Promise<any> {
     const config = getConfig();
     
+    if (config.dryRun) {
+        return { data: { order_id: orderId, status: 'EXECUTED' }, dryRun: true };
+    }
+    
     const requestConfig: AxiosRequestConfig = {
         method: 'get',
-        url: `https://prod.api.probo.in/api/v1/oms/order/${orderId}`,
-        headers: { 
-            'accept': '*/*', 
-            'accept-language': 'en-US,en;q=0.9', 
-            'appid': 'in.probo.pro', 
-            'authorization': `Bearer ${config.proboAuthToken}`,
-            'content-type': 'application/json', 
-            'origin': 'https://probo.in', 
-            'referer': 'https://probo.in/', 
-            'sec-ch-ua': '"Chromium";v="136", "Not-A.Brand";v="99", "Google Chrome";v="136"', 
-            'sec-ch-ua-mobile': '?0', 
-            'sec-ch-ua-platform': '"Windows"', 
-            'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36', 
-            'x-device-os': 'ANDROID', 
-            'x-version-name': '10'
-        },
+        url: `${config.proboApiUrl}/api/v1/oms/order/${orderId}`,
+        headers: proboHeaders(),
         timeout: 5000
     };
     
@@ -234,4 +218,221 @@ export async function getOrderStatus(orderId: string): Promise<any> {
         logger.error(`Failed to get Probo order status for order ${orderId}`, error);
         throw error;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Cancel an order on Probo
+ * @param orderId The order ID to cancel
+ * @returns A promise resolving to the cancellation result
+ */
+export async function cancelOrder(orderId: string): Promise<OrderResult> {
+    const config = getConfig();
+    
+    if (config.dryRun) {
+        logger.info(`DRY RUN: Would cancel Probo order ${orderId}`);
+        return {
+            success: true,
+            orderId,
+            exchangeResponse: { dryRun: true }
+        };
+    }
+    
+    try {
+        logger.info(`Cancelling Probo order ${orderId}`);
+        const response = await axios.request({
+            method: 'put',
+            url: `${config.proboApiUrl}/api/v1/oms/order/cancel/${orderId}`,
+            headers: proboHeaders(),
+            timeout: 10000
+        });
+        
+        if (response.data?.errors && response.data.errors.length > 0) {
+            throw new Error(`Probo API error: ${response.data.errors[0].message}`);
+        }
+        
+        logger.info('Probo order cancelled', response.data);
+        return {
+            success: true,
+            orderId,
+            exchangeResponse: response.data
+        };
+    } catch (error) {
+        logger.error(`Failed to cancel Probo order ${orderId}`, {
+            error: error instanceof Error ? error.message : String(error)
+        });
+        return {
+            success: false,
+            orderId,
+            error: error instanceof Error ? error : new Error(String(error)),
+            exchangeResponse: error instanceof Error && 'response' in error ? (error as any).response?.data : null
+        };
+    }
+}
+
+/**
+ * Cancel every open order on a Probo event. Probo has no bulk cancel, so
+ * open orders are listed and cancelled one by one.
+ * @param eventId The event ID
+ * @returns A promise resolving to the cancellation result, with the cancelled IDs in the response
+ */
+export async function cancelAllOrders(eventId: number): Promise<OrderResult> {
+    const config = getConfig();
+    
+    if (config.dryRun) {
+        logger.info(`DRY RUN: Would cancel all Probo orders on event ${eventId}`);
+        return {
+            success: true,
+            exchangeResponse: { dryRun: true }
+        };
+    }
+    
+    try {
+        const response = await axios.request({
+            method: 'get',
+            url: `${config.proboApiUrl}/api/v1/oms/order/open?eventId=${eventId}`,
+            headers: proboHeaders(),
+            timeout: 10000
+        });
+        
+        const orders: any[] = response.data?.data?.records ?? response.data?.data ?? [];
+        const orderIds = orders.map(order => String(order.order_id ?? order.id));
+        logger.info(`Cancelling ${orderIds.length} open Probo orders on event ${eventId}`);
+        
+        const results = [];
+        for (const orderId of orderIds) {
+            results.push(await cancelOrder(orderId));
+        }
+        const failed = results.filter(result => !result.success).map(result => result.orderId);
+        
+        return {
+            success: failed.length === 0,
+            error: failed.length > 0 ? new Error(`Failed to cancel Probo orders ${failed.join(', ')}`) : undefined,
+            exchangeResponse: {
+                canceled: results.filter(result => result.success).map(result => result.orderId),
+                not_canceled: failed
+            }
+        };
+    } catch (error) {
+        logger.error(`Failed to cancel Probo orders on event ${eventId}`, error);
+        return {
+            success: false,
+            error: error instanceof Error ? error : new Error(String(error)),
+            exchangeResponse: null
+        };
+    }
+}
+
+/**
+ * First numeric value among the given fields of a Probo order
+ * @param order The order object
+ * @param fields Field names to try, in order
+ * @returns The number, or undefined if none is present
+ */
+function numberField(order: any, fields: string[]): number | undefined {
+    for (const field of fields) {
+        const value = Number(order?.[field]);
+        if (order?.[field] !== undefined && order?.[field] !== null && Number.isFinite(value)) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Normalise a Probo order status response
+ * @param orderId The order ID
+ * @param response Response from getOrderStatus
+ * @returns The order state
+ */
+export function toOrderState(orderId: string, response: any): OrderState {
+    const order = response?.data ?? response;
+    const status = String(order?.status ?? order?.order_status ?? '').toUpperCase();
+    const filledQty = numberField(order, ['matched_qty', 'filled_quantity', 'executed_qty', 'traded_qty']);
+    const totalQty = numberField(order, ['total_qty', 'l1_order_quantity', 'quantity']);
+    const avgFillPrice = numberField(order, ['avg_price', 'average_price', 'matched_price', 'traded_price']);
+    
+    let normalised: OrderStatus;
+    switch (status) {
+        case 'EXECUTED':
+        case 'MATCHED':
+        case 'FILLED':
+        case 'COMPLETED':
+            normalised = OrderStatus.FILLED;
+            break;
+        case 'PARTIALLY_EXECUTED':
+        case 'PARTIALLY_MATCHED':
+        case 'PARTIALLY_FILLED':
+            normalised = OrderStatus.PARTIALLY_FILLED;
+            break;
+        case 'CANCELLED':
+        case 'CANCELED':
+            normalised = OrderStatus.CANCELLED;
+            break;
+        // auto_cancel ends unfilled orders after a minute
+        case 'EXPIRED':
+        case 'AUTO_CANCELLED':
+            normalised = OrderStatus.EXPIRED;
+            break;
+        case 'REJECTED':
+        case 'FAILED':
+            normalised = OrderStatus.REJECTED;
+            break;
+        default:
+            normalised = filledQty && totalQty && filledQty < totalQty
+                ? OrderStatus.PARTIALLY_FILLED
+                : OrderStatus.OPEN;
+    }
+    
+    return {
+        orderId,
+        exchange: Exchange.PROBO,
+        status: normalised,
+        filledQty,
+        avgFillPrice,
+        raw: response
+    };
+}
+
+/**
+ * Get the available wallet balance on Probo
+ * @returns A promise resolving to the balance in INR
+ */
+export async function getBalance(): Promise<number> {
+    const config = getConfig();
+    
+    const requestConfig: AxiosRequestConfig = {
+        method: 'get',
+        url: `${config.proboApiUrl}/api/v1/wallet/balance`,
+        headers: proboHeaders(),
+        timeout: 5000
+    };
+    
+    try {
+        logger.debug('Fetching Probo wallet balance');
+        const response = await axios.request(requestConfig);
+        
+        const balance = Number(response.data?.data?.balance);
+        if (!Number.isFinite(balance)) {
+            throw new Error('Invalid balance response from Probo API');
+        }
+        
+        return balance;
+    } catch (error) {
+        logger.error('Failed to get Probo wallet balance', error);
+        throw error;
+    }
+}
+
+/**
+ * Probo implementation of the common exchange contract
+ */
+export const proboAdapter: ExchangeAdapter = {
+    exchange: Exchange.PROBO,
+    getDepth: (marketId) => getDepth(Number(marketId)),
+    createOrder: (marketId, side, size, price) =>
+        createOrder(Number(marketId), side === OrderSide.SELL ? 'sell' : 'buy', size, price),
+    getOrderStatus: async (orderId) => toOrderState(orderId, await getOrderStatus(orderId)),
+    cancelOrder,
+    cancelAllOrders: (eventId) => cancelAllOrders(Number(eventId)),
+    getBalance
+};
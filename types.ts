@@ -1,16 +1,74 @@
 export interface Depth {
     buy: { [key: string]: string };
     sell: { [key: string]: string };
+    /** When the book was fetched, or last confirmed current by its stream */
+    fetchedAt?: string;
+    /** When the exchange stamped the book, if it reports one */
+    exchangeTimestamp?: string;
+}
+
+/**
+ * A slice of an arbitrage matched between one Polymarket and one Probo ask level
+ */
+export interface ArbLevel {
+    polymarketPrice: number;
+    proboPrice: number;
+    polymarketQty: number;
+    proboQty: number;
+    /** Marginal profit after percentage fees and FX spread */
+    profitPercent: number;
+    grossProfitPercent: number;
+}
+
+/**
+ * Gross-to-net profit breakdown of an arbitrage, percentages relative to the guaranteed payout
+ */
+export interface CostBreakdown {
+    grossProfitPercent: number;
+    netProfitPercent: number;
+    grossProfitInr: number;
+    netProfitInr: number;
+    polymarketFeesUsd: number;
+    polymarketGasUsd: number;
+    proboFeesInr: number;
+    proboTaxInr: number;
+    fxCostInr: number;
+    totalCostsInr: number;
+}
+
+/**
+ * Which outcome is bought on each venue
+ */
+export enum ArbDirection {
+    POLY_YES_PROBO_NO = 'poly_yes_probo_no',
+    POLY_NO_PROBO_YES = 'poly_no_probo_yes'
 }
 
 export interface ArbOpportunity {
     found: boolean;
+    direction?: ArbDirection;
     isViable: boolean;
+    /** Net profit after fees, gas and FX costs */
     profitPercent: number;
+    grossProfitPercent?: number;
+    costs?: CostBreakdown;
+    /** Limit price for the Polymarket leg (the deepest level consumed) */
     polymarketPrice: number;
+    /** Limit price for the Probo leg (the deepest level consumed) */
     proboPrice: number;
     polymarketQty: number;
     proboQty: number;
+    polymarketAvgPrice?: number;
+    proboAvgPrice?: number;
+    levels?: ArbLevel[];
+    /** USD/INR rate the opportunity was priced at */
+    fxRate?: number;
+    /** Market pair the opportunity was found on */
+    pairId?: string;
+    /** Correlation ID carried by every log line about this opportunity */
+    opportunityId?: string;
+    /** Set when the pre-trade risk checks blocked execution */
+    riskRejection?: RiskRejection;
     reason?: string;
 }
 
@@ -21,11 +79,66 @@ export interface OrderResult {
     exchangeResponse?: any;
 }
 
+export enum ExecutionMode {
+    /** One leg after the other; the second is only sent once the first is in */
+    SEQUENTIAL = 'sequential',
+    /** Both legs fired at once */
+    CONCURRENT = 'concurrent'
+}
+
+/**
+ * Outcome and timing of one leg of an execution
+ */
+export interface LegExecution {
+    order: OrderResult;
+    /** When the order was handed to the exchange; absent if never sent */
+    submittedAt?: string;
+    /** When the exchange acknowledged or rejected it; absent on timeout */
+    ackedAt?: string;
+    /** Submit-to-ack latency */
+    latencyMs?: number;
+    timedOut: boolean;
+}
+
+/**
+ * Lifecycle of an order, normalised across exchanges
+ */
+export enum OrderStatus {
+    OPEN = 'open',
+    PARTIALLY_FILLED = 'partially_filled',
+    FILLED = 'filled',
+    CANCELLED = 'cancelled',
+    EXPIRED = 'expired',
+    REJECTED = 'rejected'
+}
+
+/**
+ * Where an order stands on its exchange
+ */
+export interface OrderState {
+    orderId: string;
+    exchange: Exchange;
+    status: OrderStatus;
+    /** Quantity filled so far; unknown if the exchange didn't report it */
+    filledQty?: number;
+    /** Average fill price; unknown if the exchange didn't report it */
+    avgFillPrice?: number;
+    /** The exchange's own response */
+    raw?: any;
+}
+
 export interface ExecutionResult {
     polymarketOrder: OrderResult;
     proboOrder: OrderResult;
     opportunity: ArbOpportunity;
     timestamp: string;
+    executionMode?: ExecutionMode;
+    polymarketLeg?: LegExecution;
+    proboLeg?: LegExecution;
+    /** Final state of each acknowledged order, once tracked */
+    polymarketFill?: OrderState;
+    proboFill?: OrderState;
+    recovery?: RecoveryResult;
 }
 
 export interface MarketData {
@@ -44,4 +157,406 @@ export enum OrderSide {
     SELL = 'sell'
 }
 
+/**
+ * Order constraints a venue enforces; orders off these grids are rejected
+ */
+export interface InstrumentSpec {
+    /** Smallest price increment, in the venue's currency */
+    tickSize: number;
+    minQty: number;
+    maxQty: number;
+    /** Smallest quantity increment */
+    qtyStep: number;
+}
+
+
+
+/**
+ * Common contract every trading venue implements so the arbitrage loop
+ * can run against any pair of exchanges (including in-memory fakes)
+ */
+export interface ExchangeAdapter {
+    exchange: Exchange;
+    getDepth(marketId: string | number): Promise<Depth>;
+    createOrder(marketId: string | number, side: OrderSide, size: number, price: number): Promise<OrderResult>;
+    getOrderStatus(orderId: string): Promise<OrderState>;
+    cancelOrder(orderId: string): Promise<OrderResult>;
+    /** Cancel every open order on a market */
+    cancelAllOrders(marketId: string | number): Promise<OrderResult>;
+    /** Available balance in the venue's native currency */
+    getBalance(): Promise<number>;
+}
+
+/**
+ * An exchange that fills orders against the latest fetched book instead of
+ * sending them, with a virtual balance and position book
+ */
+export interface PaperExchange extends ExchangeAdapter {
+    /** Shares held, keyed by market (and offer type on Probo) */
+    getPositions(): Record<string, number>;
+    /** Replace the book orders fill against, e.g. with one from a streaming feed */
+    setDepth(marketId: string | number, depth: Depth): void;
+}
+
+/**
+ * The two legs of an arbitrage: a USD venue priced 0-1 and an INR venue priced 0-10
+ */
+export interface ArbExchanges {
+    polymarket: ExchangeAdapter;
+    probo: ExchangeAdapter;
+}
+
+export enum RecoveryAction {
+    DETECTED = 'detected',
+    HEDGE_ORDER = 'hedge_order',
+    HEDGE_SKIPPED = 'hedge_skipped',
+    UNWIND_ORDER = 'unwind_order',
+    UNWIND_SKIPPED = 'unwind_skipped',
+    /** A quantity too small for the venue to take an order for, left open */
+    RESIDUAL_EXPOSURE = 'residual_exposure'
+}
+
+export enum RecoveryStatus {
+    HEDGED = 'hedged',
+    UNWOUND = 'unwound',
+    /** Only a remainder below the venue's minimum order is left open */
+    RESIDUAL = 'residual',
+    FAILED = 'failed'
+}
+
+export interface RecoveryStep {
+    action: RecoveryAction;
+    exchange: Exchange;
+    side?: OrderSide;
+    price?: number;
+    size?: number;
+    success: boolean;
+    orderId?: string;
+    /** Confirmed quantity filled, once the order was tracked */
+    filledQty?: number;
+    reason?: string;
+    timestamp: string;
+}
+
+/**
+ * Outcome of recovering from a one-sided fill. A FAILED status means
+ * the filled leg is still open and needs manual attention.
+ */
+export interface RecoveryResult {
+    status: RecoveryStatus;
+    filledExchange: Exchange;
+    missingExchange: Exchange;
+    steps: RecoveryStep[];
+}
+
+/**
+ * A USD/INR quote with enough metadata to tell when it can no longer be trusted
+ */
+export interface FxRate {
+    rate: number;
+    timestamp: string;
+    maxAgeMs: number;
+    source: string;
+}
+
+export interface FxRateProvider {
+    getRate(): Promise<FxRate>;
+}
+
+/**
+ * One matched event listed on both venues
+ */
+export interface MarketPair {
+    id: string;
+    name?: string;
+    proboEventId: number;
+    polymarketYesTokenId: string;
+    /** Empty or missing to only trade YES on Polymarket */
+    polymarketNoTokenId?: string;
+    /** Overrides the global expectedArbPercentMin */
+    expectedArbPercentMin?: number;
+    maxPolymarketQty?: number;
+    maxProboQty?: number;
+    /** Disabled pairs are not scanned at all */
+    enabled: boolean;
+    /** Pairs with trading disabled are still priced and logged */
+    tradingEnabled: boolean;
+}
 
+/**
+ * Per-cycle inputs to findAndExecArb beyond the two main books
+ */
+export interface ArbCycleOptions {
+    /** Market pair the books belong to; defaults to the pair in the config */
+    pair?: MarketPair;
+    /** Polymarket NO token depth, to also price the reverse direction */
+    depthPolyNo?: Depth | null;
+    /** Rate to price the cycle at; defaults to the configured static rate */
+    fxRate?: FxRate;
+    /** Re-quoted right before orders go out to catch FX moves within the cycle */
+    fxRateProvider?: FxRateProvider;
+    /** Blocks trading while tripped and is fed the outcome of every leg */
+    circuitBreaker?: CircuitBreaker;
+    /** Overrides the configured DRY_RUN for this cycle */
+    dryRun?: boolean;
+}
+
+export enum RiskLimit {
+    MAX_NOTIONAL_PER_TRADE = 'max_notional_per_trade',
+    MAX_MARKET_EXPOSURE = 'max_market_exposure',
+    MAX_EXCHANGE_EXPOSURE = 'max_exchange_exposure',
+    MAX_DAILY_LOSS = 'max_daily_loss',
+    MAX_TRADES_PER_HOUR = 'max_trades_per_hour'
+}
+
+/**
+ * Why a trade was blocked by the pre-trade risk checks
+ */
+export interface RiskRejection {
+    limit: RiskLimit;
+    message: string;
+    /** Value the trade would have reached, in INR for money limits */
+    value: number;
+    threshold: number;
+    exchange?: Exchange;
+    pairId?: string;
+}
+
+/**
+ * Exposure and activity the risk checks are evaluated against, amounts in INR
+ */
+export interface RiskState {
+    exposureByMarketInr: Record<string, number>;
+    exposureByExchangeInr: Record<string, number>;
+    dailyLossInr: number;
+    tradesLastHour: number;
+}
+
+export enum CircuitState {
+    /** Trading normally */
+    CLOSED = 'closed',
+    /** Tripped: monitoring continues but no orders are sent until the cool-down ends */
+    OPEN = 'open'
+}
+
+/** What a circuit breaker failure counter tracks */
+export type BreakerChannel = 'depth' | 'order';
+
+export interface CircuitBreakerStatus {
+    state: CircuitState;
+    killSwitch: boolean;
+    reason?: string;
+    trippedAt?: string;
+    resumesAt?: string;
+    consecutiveFailures: Record<string, number>;
+    recentOneSidedFills: number;
+}
+
+export interface CircuitBreaker {
+    /** Whether new orders may be sent; null if allowed, otherwise why not */
+    getTradingBlock(): string | null;
+    recordResult(exchange: Exchange, channel: BreakerChannel, success: boolean): void;
+    recordOneSidedFill(): void;
+    getStatus(): CircuitBreakerStatus;
+    reset(): void;
+}
+
+/** Outcome of a binary market */
+export type Outcome = 'yes' | 'no';
+
+/**
+ * A confirmed fill as booked into the position ledger
+ */
+export interface LedgerFill {
+    exchange: Exchange;
+    /** Probo event ID or Polymarket token ID */
+    marketId: string;
+    outcome: Outcome;
+    pairId?: string;
+    /** Buying adds shares; selling takes them off at average cost */
+    side: OrderSide;
+    qty: number;
+    /** Average fill price in the exchange's currency */
+    price: number;
+    /** USD/INR rate at the time of the fill */
+    fxRate: number;
+    orderId?: string;
+    timestamp: string;
+}
+
+/**
+ * Shares held of one outcome on one exchange
+ */
+export interface Position {
+    exchange: Exchange;
+    marketId: string;
+    outcome: Outcome;
+    pairId?: string;
+    shares: number;
+    /** Cost of the shares still held, in the exchange's currency */
+    costBasisNative: number;
+    costBasisInr: number;
+    costBasisUsd: number;
+    /** Profit booked by selling shares, in the exchange's currency */
+    realisedPnlNative: number;
+    /** Fees, taxes and gas paid on the position's fills, in the exchange's currency */
+    feesNative: number;
+    updatedAt: string;
+}
+
+/** How a market resolved; void markets refund their cost */
+export type Resolution = Outcome | 'void';
+
+/**
+ * How one venue resolved a matched market
+ */
+export interface MarketResolution {
+    pairId: string;
+    exchange: Exchange;
+    resolution: Resolution;
+    resolvedAt: string;
+}
+
+/**
+ * A position marked to its payout at resolution
+ */
+export interface Settlement {
+    pairId: string;
+    exchange: Exchange;
+    marketId: string;
+    outcome: Outcome;
+    resolution: Resolution;
+    shares: number;
+    /** Amounts in the exchange's currency */
+    payoutNative: number;
+    costBasisNative: number;
+    feesNative: number;
+    /** Payout less cost and fees, plus anything booked by earlier sells */
+    realisedPnlNative: number;
+    realisedPnlInr: number;
+    realisedPnlUsd: number;
+    fxRate: number;
+    settledAt: string;
+}
+
+/**
+ * Result of recording a venue's resolution for a market pair
+ */
+export interface SettlementReport {
+    pairId: string;
+    resolutions: Partial<Record<Exchange, Resolution>>;
+    /** Both venues resolved and disagree: the arbitrage did not hold */
+    mismatch: boolean;
+    settlements: Settlement[];
+}
+
+/**
+ * The books seen for one market pair in one cycle, as written by the depth recorder
+ */
+export interface DepthRecord {
+    pairId: string;
+    timestamp: string;
+    /** USD/INR rate the cycle was priced at */
+    fxRate?: number;
+    probo: MarketData;
+    polymarketYes: MarketData;
+    polymarketNo?: MarketData;
+}
+
+export interface DepthRecorder {
+    /** Append a snapshot to the current file, rotating first if its period is over */
+    record(record: DepthRecord): void;
+    /** Flush and close the current file */
+    close(): Promise<void>;
+}
+
+/**
+ * The latest local copy of one instrument's book
+ */
+export interface BookSnapshot {
+    exchange: Exchange;
+    marketId: string | number;
+    depth: Depth;
+    /** Increases by one with every change to this instrument's local book */
+    sequence: number;
+    /** When the venue stamped the update, if it sends one */
+    exchangeTimestamp?: string;
+    /** When the update arrived */
+    receivedAt: string;
+    /** Last time the book was known to be current: the latest poll, or the latest message on its stream */
+    confirmedAt: string;
+}
+
+/**
+ * Live local books kept up to date from websocket streams or adaptive polling
+ */
+export interface MarketDataFeed {
+    /** Start keeping a book for an instrument; watching one twice is a no-op */
+    watch(exchange: Exchange, marketId: string | number): void;
+    /** Stop keeping a book for an instrument and forget it; unwatching one not watched is a no-op */
+    unwatch(exchange: Exchange, marketId: string | number): void;
+    /** The latest book for an instrument, or null before the first update */
+    getBook(exchange: Exchange, marketId: string | number): BookSnapshot | null;
+    /** Call `listener` whenever a book changes; returns a function that unsubscribes */
+    onChange(listener: (book: BookSnapshot) => void): () => void;
+    /** Stop every stream and poller */
+    close(): Promise<void>;
+}
+
+/**
+ * Strategy and execution settings a backtest runs with; unset fields use the config
+ */
+export interface BacktestParams {
+    expectedArbPercentMin?: number;
+    proboFeePercent?: number;
+    polymarketFeeRateBps?: number;
+    fxSpreadPercent?: number;
+    /** Price every snapshot at this USD/INR rate instead of the recorded one */
+    fxRate?: number;
+    /** Time from seeing a book to an order reaching the venue */
+    latencyMs?: number;
+    executionMode?: ExecutionMode;
+}
+
+/**
+ * One simulated trade
+ */
+export interface BacktestTrade {
+    pairId: string;
+    timestamp: string;
+    direction: ArbDirection;
+    /** Profit the opportunity was priced at when it was seen */
+    expectedProfitPercent: number;
+    polymarketQty: number;
+    proboQty: number;
+    polymarketFilled: number;
+    proboFilled: number;
+    /** Cost of both legs in INR */
+    capitalInr: number;
+    /** Cost of whatever one leg filled beyond the other, freed again once unwound */
+    unwoundCapitalInr: number;
+    /** When the excess was unwound; absent if the legs matched */
+    unwoundAt?: string;
+    grossPnlInr: number;
+    netPnlInr: number;
+}
+
+export interface BacktestReport {
+    params: BacktestParams;
+    snapshots: number;
+    viableOpportunities: number;
+    trades: BacktestTrade[];
+    /** Trades where both legs filled in full */
+    filledTrades: number;
+    /** Trades where a leg filled short and the excess was unwound */
+    partialTrades: number;
+    /** Viable opportunities gone by the time the first leg arrived */
+    missedTrades: number;
+    grossPnlInr: number;
+    netPnlInr: number;
+    /** Share of trades with a positive net P&L */
+    hitRate: number;
+    maxDrawdownInr: number;
+    /** Most capital tied up at once, counting hedged positions as held to resolution */
+    capitalUsedInr: number;
+}
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+import { fillAgainstBook, runBacktest, sweepBacktest } from "./backtest";
+import { DepthRecord, Depth, ExecutionMode } from "../types";
+
+jest.mock("../config", () => {
+    const base = {
+        proboTokenId: 111,
+        polymarketTokenId: "222",
+        polymarketNoTokenId: "",
+        proboYesSide: "buy",
+        proboNoSide: "sell",
+        dollarPriceInr: 85,
+        expectedArbPercentMin: 5,
+        proboFeePercent: 0,
+        proboGstPercent: 0,
+        polymarketFeeRateBps: 0,
+        polygonGasCostUsd: 0,
+        fxSpreadPercent: 0,
+        polymarketTickSize: 0.01,
+        polymarketMinQty: 1,
+        polymarketMaxQty: 100000,
+        polymarketQtyStep: 0.01,
+        proboTickSize: 0.5,
+        proboMinQty: 1,
+        proboMaxQty: 100000,
+        proboQtyStep: 0.5,
+        executionMode: "sequential",
+        firstLeg: "polymarket",
+        logLevel: "error"
+    };
+    let overrides = {};
+    return {
+        getConfig: () => ({ ...base, ...overrides }),
+        withConfigOverrides: (next: object, fn: () => unknown) => {
+            const previous = overrides;
+            overrides = { ...previous, ...next };
+            try {
+                return fn();
+            } finally {
+                overrides = previous;
+            }
+        }
+    };
+});
+
+describe("Backtest Tests", () => {
+    const snapshot = (second: number, polySell: Depth["sell"], proboNo: Record<string, string>, polyBuy: Depth["buy"] = {}): DepthRecord => {
+        const timestamp = new Date(Date.UTC(2026, 0, 1, 0, 0, second)).toISOString();
+        return {
+            pairId: "default",
+            timestamp,
+            fxRate: 85,
+            probo: { marketId: 111, depthData: { buy: { "6": "1000" }, sell: proboNo }, timestamp },
+            polymarketYes: { marketId: "222", depthData: { buy: polyBuy, sell: polySell }, timestamp }
+        };
+    };
+
+    test("fillAgainstBook should take levels in order up to the limit", () => {
+        const levels = [{ price: 0.4, qty: 10 }, { price: 0.45, qty: 10 }, { price: 0.5, qty: 10 }];
+
+        expect(fillAgainstBook(levels, 15, price => price <= 0.45)).toEqual({ qty: 15, cost: 4 + 5 * 0.45 });
+        expect(fillAgainstBook(levels, 50, price => price <= 0.45)).toEqual({ qty: 20, cost: 8.5 });
+    });
+
+    test("runBacktest should trade a gap once and report its profit", () => {
+        // YES at $0.40 (₹34) on Polymarket and NO at ₹4 on Probo: a 20% gap
+        const records = [0, 1, 2, 3].map(second => snapshot(second, { "0.4": "10" }, { "4": "85" }));
+
+        const report = runBacktest(records, { latencyMs: 0 });
+
+        // The same books are never traded twice
+        expect(report.trades).toHaveLength(1);
+        expect(report.filledTrades).toBe(1);
+        expect(report.trades[0].polymarketFilled).toBe(10);
+        expect(report.trades[0].proboFilled).toBe(85);
+        // Payout ₹850 for 10 * $0.40 * 85 + 85 * ₹4 = ₹680
+        expect(report.grossPnlInr).toBeCloseTo(170);
+        expect(report.netPnlInr).toBeCloseTo(170);
+        expect(report.capitalUsedInr).toBeCloseTo(680);
+        expect(report.hitRate).toBe(1);
+    });
+
+    test("runBacktest should fill the second leg against the book seen after the latency", () => {
+        const records = [
+            snapshot(0, { "0.4": "10" }, { "4": "85" }),
+            snapshot(1, { "0.4": "10" }, { "4": "85" }),
+            // By the time the Probo leg arrives most of the NO offer is gone
+            snapshot(2, { "0.4": "10" }, { "4": "42.5", "9.5": "1000" }, { "0.3": "100" })
+        ];
+
+        const report = runBacktest(records, { latencyMs: 1000, executionMode: ExecutionMode.SEQUENTIAL });
+
+        expect(report.partialTrades).toBe(1);
+        const [trade] = report.trades;
+        expect(trade.polymarketFilled).toBe(10);
+        expect(trade.proboFilled).toBe(42.5);
+        // 5 hedged shares make ₹85; the other 5 are sold back at $0.30, losing $0.50
+        expect(trade.grossPnlInr).toBeCloseTo(85 - 0.5 * 85);
+        expect(report.maxDrawdownInr).toBe(0);
+    });
+
+    test("runBacktest should send the leg taking more of its book first when ordering by liquidity", () => {
+        // The Probo leg takes the whole NO offer, the Polymarket leg a tenth of its asks
+        const records = [
+            snapshot(0, { "0.4": "100" }, { "4": "85" }),
+            snapshot(1, { "0.4": "100" }, {}, { "0.3": "100" }),
+            snapshot(2, { "0.4": "100" }, {}, { "0.3": "100" }),
+            snapshot(3, { "0.4": "100" }, {}, { "0.3": "100" })
+        ];
+        const { withConfigOverrides } = require("../config");
+
+        const polymarketFirst = runBacktest(records, { latencyMs: 1000 });
+        const lessLiquidFirst = withConfigOverrides({ firstLeg: "less_liquid" }, () => runBacktest(records, { latencyMs: 1000 }));
+
+        // Sent first, the Polymarket leg fills and has to be sold back once the NO offer is gone
+        expect(polymarketFirst.trades[0]).toMatchObject({ polymarketFilled: 10, proboFilled: 0 });
+        // Sent first, the Probo leg misses and nothing is traded
+        expect(lessLiquidFirst.trades).toHaveLength(0);
+        expect(lessLiquidFirst.missedTrades).toBe(1);
+    });
+
+    test("runBacktest should report the most capital tied up at once", () => {
+        const records = [
+            snapshot(0, { "0.4": "10" }, { "4": "85" }),
+            snapshot(1, { "0.4": "10" }, { "4": "85" }),
+            snapshot(2, {}, { "4": "42.5", "9.5": "1000" }, { "0.3": "100" }),
+            snapshot(3, {}, {}, { "0.3": "100" }),
+            // The gap opens again, on books that differ from the ones already traded
+            snapshot(4, { "0.4": "10" }, { "4": "85" }, { "0.3": "100" }),
+            snapshot(5, { "0.4": "10" }, { "4": "85" }, { "0.3": "100" }),
+            snapshot(6, { "0.4": "10" }, { "4": "85" }, { "0.3": "100" })
+        ];
+
+        const report = runBacktest(records, { latencyMs: 1000 });
+
+        expect(report.trades).toHaveLength(2);
+        expect(report.trades[0].capitalInr).toBeCloseTo(510);
+        expect(report.trades[0].unwoundCapitalInr).toBeCloseTo(170);
+        expect(report.trades[0].unwoundAt).toBe(records[3].timestamp);
+        // ₹510 spent, ₹170 of it freed by the unwind, then ₹680 more held to resolution
+        expect(report.capitalUsedInr).toBeCloseTo(510 - 170 + 680);
+    });
+
+    test("runBacktest should count an opportunity gone before the first leg arrives as missed", () => {
+        const records = [
+            snapshot(0, { "0.4": "10" }, { "4": "85" }),
+            snapshot(1, { "0.9": "10" }, { "4": "85" })
+        ];
+
+        const report = runBacktest(records, { latencyMs: 1000 });
+
+        expect(report.viableOpportunities).toBe(1);
+        expect(report.missedTrades).toBe(1);
+        expect(report.trades).toHaveLength(0);
+    });
+
+    test("sweepBacktest should run every combination, best first", () => {
+        const records = [0, 1].map(second => snapshot(second, { "0.4": "10" }, { "4": "85" }));
+
+        const reports = sweepBacktest(records, { expectedArbPercentMin: [5, 30], proboFeePercent: [0, 2] }, []);
+
+        expect(reports).toHaveLength(4);
+        // A 30% minimum is above the 20% gap, so it never trades
+        expect(reports.filter(report => report.trades.length === 0).map(report => report.params.expectedArbPercentMin))
+            .toEqual([30, 30]);
+        expect(reports[0].params).toEqual({ expectedArbPercentMin: 5, proboFeePercent: 0 });
+        expect(reports[1].netPnlInr).toBeLessThan(reports[0].netPnlInr);
+    });
+});
@@ -0,0 +1,363 @@
+// Backtest: replay recorded depth through the opportunity search and a simulated execution model
+import {
+    ArbDirection,
+    ArbOpportunity,
+    BacktestParams,
+    BacktestReport,
+    BacktestTrade,
+    Depth,
+    DepthRecord,
+    Exchange,
+    ExecutionMode,
+    MarketPair
+} from '../types';
+import { Config, getConfig, withConfigOverrides } from '../config';
+import { calculateArbOpportunity, getAskLevels, getDirectionLegs, selectBestOpportunity } from './helpers';
+import { calculateCosts, getFeeSchedule } from './costs';
+import { bookShare } from './execution';
+import { normaliseOpportunity } from './instruments';
+import { getDefaultMarketPair } from './markets';
+import { listDepthFiles, readDepthRecords } from './recorder';
+
+// Used when the params don't set a latency
+const DEFAULT_LATENCY_MS = 250;
+// Quantities below this are float noise
+const EPSILON = 1e-9;
+
+type Level = { price: number; qty: number };
+
+/**
+ * Load recorded snapshots, oldest first
+ * @param dir Directory the recorder wrote to
+ * @param pairId Only load snapshots for this market pair
+ * @returns The snapshots
+ */
+export function loadDepthRecords(dir = getConfig().recordDir, pairId?: string): DepthRecord[] {
+    return listDepthFiles(dir)
+        .flatMap(filePath => readDepthRecords(filePath))
+        .filter(record => pairId === undefined || record.pairId === pairId)
+        .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+/**
+ * Take liquidity from a book, best level first
+ * @param levels Levels in the order they would be filled
+ * @param qty Quantity wanted
+ * @param accepts Whether a level's price is acceptable
+ * @returns Quantity filled and what it cost (or raised)
+ */
+export function fillAgainstBook(levels: Level[], qty: number, accepts: (price: number) => boolean): { qty: number; cost: number } {
+    let filled = 0;
+    let cost = 0;
+
+    for (const level of levels) {
+        if (filled >= qty - EPSILON || !accepts(level.price)) {
+            break;
+        }
+        const take = Math.min(level.qty, qty - filled);
+        filled += take;
+        cost += take * level.price;
+    }
+
+    return { qty: filled, cost };
+}
+
+/**
+ * Bid levels of a book, best price first
+ * @param depth The market depth
+ * @returns Price/quantity pairs sorted by descending price
+ */
+function getBidLevels(depth: Depth): Level[] {
+    return Object.keys(depth.buy)
+        .map(price => ({ price: Number(price), qty: Number(depth.buy[price]) }))
+        .filter(level => level.qty > 0)
+        .sort((a, b) => b.price - a.price);
+}
+
+/**
+ * Fee and tax on an order's notional
+ * @param exchange The exchange
+ * @param notional Order notional in native currency
+ * @returns The fee including tax
+ */
+function feesOn(exchange: Exchange, notional: number): number {
+    const schedule = getFeeSchedule(exchange);
+    return notional * schedule.feePercent / 100 * (1 + schedule.taxOnFeePercent / 100);
+}
+
+/**
+ * Simulate trading an opportunity seen in one snapshot. Each leg fills against
+ * the first snapshot recorded after it would have reached the venue, so books
+ * that moved or thinned in the meantime give partial fills. Whatever one leg
+ * filled beyond the other is unwound against a later book: Polymarket shares
+ * are sold into the bids, Probo shares are offset by buying the opposite
+ * outcome. Anything that can't be unwound is written off.
+ * @param records The pair's snapshots, oldest first
+ * @param index Index of the snapshot the opportunity was seen in
+ * @param opportunity The viable, rounded opportunity
+ * @param latencyMs Time for an order to reach the venue
+ * @param mode Whether the legs go one after the other or together
+ * @param fxRate USD/INR rate the opportunity was priced at
+ * @returns The trade, or null if nothing filled or the data ran out
+ */
+function simulateTrade(
+    records: DepthRecord[],
+    index: number,
+    opportunity: ArbOpportunity,
+    latencyMs: number,
+    mode: ExecutionMode,
+    fxRate: number
+): BacktestTrade | null {
+    const config = getConfig();
+    const seen = records[index];
+    const direction = opportunity.direction || ArbDirection.POLY_YES_PROBO_NO;
+    const { proboSide } = getDirectionLegs(direction);
+    const otherProboSide = proboSide === config.proboYesSide ? config.proboNoSide : config.proboYesSide;
+    const seenAt = Date.parse(seen.timestamp);
+
+    const bookAt = (time: number): DepthRecord | undefined =>
+        records.slice(index).find(record => Date.parse(record.timestamp) >= time);
+    const polyBook = (record: DepthRecord): Depth =>
+        (direction === ArbDirection.POLY_NO_PROBO_YES ? record.polymarketNo?.depthData : record.polymarketYes.depthData)
+            || { buy: {}, sell: {} };
+
+    const fillPolymarket = (record: DepthRecord) => fillAgainstBook(
+        getAskLevels(polyBook(record)), opportunity.polymarketQty, price => price <= opportunity.polymarketPrice
+    );
+    const fillProbo = (record: DepthRecord) => fillAgainstBook(
+        getAskLevels({ buy: {}, sell: record.probo.depthData[proboSide] || {} }),
+        opportunity.proboQty,
+        price => price <= opportunity.proboPrice
+    );
+
+    const firstArrives = bookAt(seenAt + latencyMs);
+    // The second leg only goes once the first is acknowledged
+    const secondArrives = mode === ExecutionMode.CONCURRENT ? firstArrives : bookAt(seenAt + 2 * latencyMs);
+    if (!firstArrives || !secondArrives) {
+        return null;
+    }
+
+    // Same ordering as live trading, judged on the books the opportunity was seen in
+    const proboFirst = config.firstLeg === 'probo' || (config.firstLeg === 'less_liquid' &&
+        bookShare({ size: opportunity.proboQty, price: opportunity.proboPrice }, seen.probo.depthData[proboSide] || {}) >
+        bookShare({ size: opportunity.polymarketQty, price: opportunity.polymarketPrice }, polyBook(seen).sell));
+    const poly = fillPolymarket(proboFirst ? secondArrives : firstArrives);
+    const probo = fillProbo(proboFirst ? firstArrives : secondArrives);
+    const firstFilled = proboFirst ? probo.qty : poly.qty;
+
+    // Sequential mode never sends the second leg if the first filled nothing
+    if ((mode === ExecutionMode.SEQUENTIAL && firstFilled <= EPSILON) || poly.qty + probo.qty <= EPSILON) {
+        return null;
+    }
+
+    const polyAvg = poly.qty > 0 ? poly.cost / poly.qty : 0;
+    const proboAvg = probo.qty > 0 ? probo.cost / probo.qty : 0;
+
+    const proboPerPoly = fxRate / 10;
+    const matchedPoly = Math.min(poly.qty, probo.qty / proboPerPoly);
+    const matchedProbo = matchedPoly * proboPerPoly;
+    let grossPnlInr = 0;
+    let netPnlInr = 0;
+
+    if (matchedPoly > EPSILON) {
+        const costs = calculateCosts(matchedPoly, polyAvg, matchedProbo, proboAvg, true, fxRate);
+        grossPnlInr += costs.grossProfitInr;
+        netPnlInr += costs.netProfitInr;
+    }
+
+    const unwindBook = bookAt(seenAt + 3 * latencyMs) || records[records.length - 1];
+    let unwoundCapitalInr = 0;
+
+    const excessPoly = poly.qty - matchedPoly;
+    if (excessPoly > EPSILON) {
+        const sold = fillAgainstBook(getBidLevels(polyBook(unwindBook)), excessPoly, () => true);
+        const resultUsd = sold.cost - excessPoly * polyAvg;
+        unwoundCapitalInr += excessPoly * polyAvg * fxRate;
+        grossPnlInr += resultUsd * fxRate;
+        netPnlInr += (resultUsd - feesOn(Exchange.POLYMARKET, excessPoly * polyAvg + sold.cost)) * fxRate;
+    }
+
+    const excessProbo = probo.qty - matchedProbo;
+    if (excessProbo > EPSILON) {
+        // Holding both outcomes locks in ₹10 per pair
+        const offset = fillAgainstBook(
+            getAskLevels({ buy: {}, sell: unwindBook.probo.depthData[otherProboSide] || {} }),
+            excessProbo,
+            price => price < 10
+        );
+        const resultInr = offset.qty * 10 - offset.cost - excessProbo * proboAvg;
+        unwoundCapitalInr += excessProbo * proboAvg;
+        grossPnlInr += resultInr;
+        netPnlInr += resultInr - feesOn(Exchange.PROBO, excessProbo * proboAvg + offset.cost);
+    }
+
+    return {
+        pairId: seen.pairId,
+        timestamp: seen.timestamp,
+        direction,
+        expectedProfitPercent: opportunity.profitPercent,
+        polymarketQty: opportunity.polymarketQty,
+        proboQty: opportunity.proboQty,
+        polymarketFilled: poly.qty,
+        proboFilled: probo.qty,
+        capitalInr: poly.cost * fxRate + probo.cost,
+        unwoundCapitalInr,
+        unwoundAt: unwoundCapitalInr > 0 ? unwindBook.timestamp : undefined,
+        grossPnlInr,
+        netPnlInr
+    };
+}
+
+/**
+ * Config fields a set of backtest params overrides
+ * @param params The backtest params
+ * @returns The config overrides
+ */
+function toConfigOverrides(params: BacktestParams): Partial<Config> {
+    const overrides: Partial<Config> = {};
+    if (params.expectedArbPercentMin !== undefined) overrides.expectedArbPercentMin = params.expectedArbPercentMin;
+    if (params.proboFeePercent !== undefined) overrides.proboFeePercent = params.proboFeePercent;
+    if (params.polymarketFeeRateBps !== undefined) overrides.polymarketFeeRateBps = params.polymarketFeeRateBps;
+    if (params.fxSpreadPercent !== undefined) overrides.fxSpreadPercent = params.fxSpreadPercent;
+    if (params.executionMode !== undefined) overrides.executionMode = params.executionMode;
+    return overrides;
+}
+
+/**
+ * Replay recorded snapshots through the opportunity search and simulated
+ * execution. A pair isn't traded again on the same books it was just traded
+ * on, since the recording can't show the liquidity the trade took.
+ * @param records Recorded snapshots, oldest first
+ * @param params Strategy and execution settings to run with
+ * @param pairs Market pair registry, for each pair's size caps and threshold
+ * @returns The aggregate report
+ */
+export function runBacktest(records: DepthRecord[], params: BacktestParams = {}, pairs: MarketPair[] = []): BacktestReport {
+    return withConfigOverrides(toConfigOverrides(params), () => {
+        const config = getConfig();
+        const latencyMs = params.latencyMs ?? DEFAULT_LATENCY_MS;
+        const mode = params.executionMode ?? config.executionMode ?? ExecutionMode.SEQUENTIAL;
+        const byPair = new Map<string, DepthRecord[]>();
+        for (const record of records) {
+            const pairRecords = byPair.get(record.pairId) || [];
+            pairRecords.push(record);
+            byPair.set(record.pairId, pairRecords);
+        }
+
+        const trades: BacktestTrade[] = [];
+        let viableOpportunities = 0;
+        let missedTrades = 0;
+
+        for (const [pairId, pairRecords] of byPair) {
+            const registered = pairs.find(pair => pair.id === pairId) || { ...getDefaultMarketPair(), id: pairId };
+            // A swept threshold applies to every pair
+            const pair: MarketPair = params.expectedArbPercentMin !== undefined
+                ? { ...registered, expectedArbPercentMin: params.expectedArbPercentMin }
+                : registered;
+            const minProfitPercent = pair.expectedArbPercentMin ?? config.expectedArbPercentMin;
+            let tradedBooks: string | null = null;
+
+            pairRecords.forEach((record, index) => {
+                const books = JSON.stringify([record.probo.depthData, record.polymarketYes.depthData, record.polymarketNo?.depthData]);
+                if (books === tradedBooks) {
+                    return;
+                }
+
+                const fxRate = params.fxRate ?? record.fxRate ?? config.dollarPriceInr;
+                const candidates = [
+                    calculateArbOpportunity(record.polymarketYes.depthData, record.probo.depthData, ArbDirection.POLY_YES_PROBO_NO, fxRate, pair)
+                ];
+                if (record.polymarketNo) {
+                    candidates.push(
+                        calculateArbOpportunity(record.polymarketNo.depthData, record.probo.depthData, ArbDirection.POLY_NO_PROBO_YES, fxRate, pair)
+                    );
+                }
+
+                let opportunity = selectBestOpportunity(candidates);
+                if (opportunity.isViable) {
+                    opportunity = normaliseOpportunity({ ...opportunity, fxRate }, minProfitPercent);
+                }
+                if (!opportunity.isViable) {
+                    return;
+                }
+
+                viableOpportunities++;
+                const trade = simulateTrade(pairRecords, index, opportunity, latencyMs, mode, fxRate);
+                if (!trade) {
+                    missedTrades++;
+                    return;
+                }
+
+                tradedBooks = books;
+                trades.push(trade);
+            });
+        }
+
+        trades.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+        let cumulative = 0;
+        let peak = 0;
+        let maxDrawdownInr = 0;
+        for (const trade of trades) {
+            cumulative += trade.netPnlInr;
+            peak = Math.max(peak, cumulative);
+            maxDrawdownInr = Math.max(maxDrawdownInr, peak - cumulative);
+        }
+
+        // Hedged legs stay held until their market resolves, after the recording ends, while
+        // unwound legs free their cost when unwound. At the same instant, spending comes first
+        const capitalChanges = trades.flatMap(trade => [
+            { time: Date.parse(trade.timestamp), amountInr: trade.capitalInr },
+            ...(trade.unwoundAt ? [{ time: Date.parse(trade.unwoundAt), amountInr: -trade.unwoundCapitalInr }] : [])
+        ]).sort((a, b) => a.time - b.time || b.amountInr - a.amountInr);
+        let capitalHeldInr = 0;
+        let capitalUsedInr = 0;
+        for (const change of capitalChanges) {
+            capitalHeldInr += change.amountInr;
+            capitalUsedInr = Math.max(capitalUsedInr, capitalHeldInr);
+        }
+
+        const partialTrades = trades.filter(trade =>
+            trade.polymarketFilled < trade.polymarketQty - EPSILON || trade.proboFilled < trade.proboQty - EPSILON
+        ).length;
+
+        return {
+            params,
+            snapshots: records.length,
+            viableOpportunities,
+            trades,
+            filledTrades: trades.length - partialTrades,
+            partialTrades,
+            missedTrades,
+            grossPnlInr: trades.reduce((total, trade) => total + trade.grossPnlInr, 0),
+            netPnlInr: cumulative,
+            hitRate: trades.length > 0 ? trades.filter(trade => trade.netPnlInr > 0).length / trades.length : 0,
+            maxDrawdownInr,
+            capitalUsedInr
+        };
+    });
+}
+
+/**
+ * Run a backtest for every combination of the given parameter values
+ * @param records Recorded snapshots, oldest first
+ * @param grid Values to try for each parameter
+ * @param pairs Market pair registry
+ * @returns One report per combination, best net P&L first
+ */
+export function sweepBacktest(
+    records: DepthRecord[],
+    grid: { [K in keyof BacktestParams]?: BacktestParams[K][] },
+    pairs: MarketPair[] = []
+): BacktestReport[] {
+    const combinations = Object.entries(grid)
+        .filter(([, values]) => values && values.length > 0)
+        .reduce<BacktestParams[]>(
+            (combos, [key, values]) => combos.flatMap(params => (values as unknown[]).map(value => ({ ...params, [key]: value }))),
+            [{}]
+        );
+
+    return combinations
+        .map(params => runBacktest(records, params, pairs))
+        .sort((a, b) => b.netPnlInr - a.netPnlInr);
+}
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createCircuitBreaker, engageKillSwitch, isKillSwitchEngaged, releaseKillSwitch } from "./circuitBreaker";
+import { getConfig } from "../config";
+import { CircuitState, Exchange } from "../types";
+
+const killSwitchPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "breaker-")), "KILL_SWITCH");
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({ logLevel: "error" })
+}));
+
+describe("Circuit Breaker Tests", () => {
+    let now = 0;
+    const clock = () => now;
+
+    beforeEach(() => {
+        now = 1_000_000;
+        (getConfig as jest.Mock).mockReturnValue({
+            breakerMaxConsecutiveFailures: 3,
+            breakerMaxOneSidedFills: 2,
+            breakerOneSidedWindowMs: 60000,
+            breakerCooldownMs: 30000,
+            killSwitchPath,
+            logLevel: "error"
+        });
+        releaseKillSwitch(killSwitchPath);
+    });
+
+    test("should trip after consecutive order failures on one exchange", () => {
+        const breaker = createCircuitBreaker(clock);
+
+        breaker.recordResult(Exchange.PROBO, "order", false);
+        breaker.recordResult(Exchange.PROBO, "order", false);
+        expect(breaker.getTradingBlock()).toBeNull();
+
+        breaker.recordResult(Exchange.PROBO, "order", false);
+        expect(breaker.getStatus().state).toBe(CircuitState.OPEN);
+        expect(breaker.getTradingBlock()).toContain("3 consecutive order failures on probo");
+    });
+
+    test("should reset the count on success and track depth separately from orders", () => {
+        const breaker = createCircuitBreaker(clock);
+
+        breaker.recordResult(Exchange.POLYMARKET, "order", false);
+        breaker.recordResult(Exchange.POLYMARKET, "order", false);
+        breaker.recordResult(Exchange.POLYMARKET, "depth", true);
+        breaker.recordResult(Exchange.POLYMARKET, "order", true);
+        breaker.recordResult(Exchange.POLYMARKET, "order", false);
+        breaker.recordResult(Exchange.PROBO, "order", false);
+
+        expect(breaker.getStatus()).toMatchObject({
+            state: CircuitState.CLOSED,
+            consecutiveFailures: { "polymarket:order": 1, "polymarket:depth": 0, "probo:order": 1 }
+        });
+    });
+
+    test("should trip on one-sided fills within the window only", () => {
+        const breaker = createCircuitBreaker(clock);
+
+        breaker.recordOneSidedFill();
+        now += 61000;
+        breaker.recordOneSidedFill();
+        expect(breaker.getStatus().state).toBe(CircuitState.CLOSED);
+
+        now += 1000;
+        breaker.recordOneSidedFill();
+        expect(breaker.getStatus().state).toBe(CircuitState.OPEN);
+    });
+
+    test("should resume trading after the cool-down", () => {
+        const breaker = createCircuitBreaker(clock);
+        breaker.recordOneSidedFill();
+        breaker.recordOneSidedFill();
+
+        now += 29999;
+        expect(breaker.getTradingBlock()).not.toBeNull();
+
+        now += 1;
+        expect(breaker.getTradingBlock()).toBeNull();
+        expect(breaker.getStatus().recentOneSidedFills).toBe(0);
+    });
+
+    test("should block trading while the kill switch file exists", () => {
+        const breaker = createCircuitBreaker(clock);
+
+        engageKillSwitch("test", killSwitchPath);
+        expect(isKillSwitchEngaged(killSwitchPath)).toBe(true);
+        expect(breaker.getTradingBlock()).toBe("Kill switch engaged");
+        expect(breaker.getStatus().killSwitch).toBe(true);
+
+        expect(releaseKillSwitch(killSwitchPath)).toBe(true);
+        expect(breaker.getTradingBlock()).toBeNull();
+    });
+});
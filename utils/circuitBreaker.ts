@@ -0,0 +1,146 @@
+// Circuit breaker and manual kill switch for order placement
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    BreakerChannel,
+    CircuitBreaker,
+    CircuitBreakerStatus,
+    CircuitState,
+    Exchange
+} from '../types';
+import { getConfig } from '../config';
+import { logger } from './logger';
+
+/**
+ * Whether the kill switch flag file is present
+ * @param filePath Path of the flag file
+ * @returns True if new orders must not be sent
+ */
+export function isKillSwitchEngaged(filePath = getConfig().killSwitchPath): boolean {
+    return fs.existsSync(filePath);
+}
+
+/**
+ * Halt new orders by writing the kill switch flag file. Running bots see it
+ * before their next order.
+ * @param reason Why trading was halted, stored in the flag file
+ * @param filePath Path of the flag file
+ */
+export function engageKillSwitch(reason = 'manual', filePath = getConfig().killSwitchPath): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({ reason, timestamp: new Date().toISOString() }), 'utf8');
+    logger.warn(`Kill switch engaged: ${reason}`, { filePath });
+}
+
+/**
+ * Allow trading again by removing the kill switch flag file
+ * @param filePath Path of the flag file
+ * @returns Whether the kill switch was engaged
+ */
+export function releaseKillSwitch(filePath = getConfig().killSwitchPath): boolean {
+    if (!fs.existsSync(filePath)) {
+        return false;
+    }
+    fs.unlinkSync(filePath);
+    logger.info("Kill switch released", { filePath });
+    return true;
+}
+
+/**
+ * Create a circuit breaker that pauses trading after repeated failures on an
+ * exchange or too many one-sided fills, and resumes after a cool-down.
+ * Depth and order failures are counted separately so a healthy book feed
+ * doesn't mask an exchange that keeps rejecting orders.
+ * @param now Clock, overridable for tests
+ * @returns The circuit breaker
+ */
+export function createCircuitBreaker(now: () => number = Date.now): CircuitBreaker {
+    const consecutiveFailures: Record<string, number> = {};
+    let oneSidedFills: number[] = [];
+    let trippedAt: number | null = null;
+    let reason: string | undefined;
+    
+    const trip = (why: string) => {
+        if (trippedAt !== null) {
+            return;
+        }
+        trippedAt = now();
+        reason = why;
+        logger.error(`Circuit breaker tripped: ${why}`, {
+            cooldownMs: getConfig().breakerCooldownMs
+        });
+    };
+    
+    const reset = () => {
+        for (const key of Object.keys(consecutiveFailures)) {
+            delete consecutiveFailures[key];
+        }
+        oneSidedFills = [];
+        trippedAt = null;
+        reason = undefined;
+    };
+    
+    // Close the breaker again once the cool-down has passed
+    const refresh = () => {
+        if (trippedAt !== null && now() - trippedAt >= getConfig().breakerCooldownMs) {
+            logger.info("Circuit breaker cool-down over, resuming trading", { reason });
+            reset();
+        }
+    };
+    
+    const getStatus = (): CircuitBreakerStatus => {
+        refresh();
+        const config = getConfig();
+        const windowStart = now() - config.breakerOneSidedWindowMs;
+        
+        return {
+            state: trippedAt === null ? CircuitState.CLOSED : CircuitState.OPEN,
+            killSwitch: isKillSwitchEngaged(),
+            reason,
+            trippedAt: trippedAt === null ? undefined : new Date(trippedAt).toISOString(),
+            resumesAt: trippedAt === null ? undefined : new Date(trippedAt + config.breakerCooldownMs).toISOString(),
+            consecutiveFailures: { ...consecutiveFailures },
+            recentOneSidedFills: oneSidedFills.filter(time => time >= windowStart).length
+        };
+    };
+    
+    return {
+        getTradingBlock: () => {
+            if (isKillSwitchEngaged()) {
+                return "Kill switch engaged";
+            }
+            const status = getStatus();
+            return status.state === CircuitState.OPEN
+                ? `Circuit breaker open until ${status.resumesAt}: ${status.reason}`
+                : null;
+        },
+        
+        recordResult: (exchange: Exchange, channel: BreakerChannel, success: boolean) => {
+            const key = `${exchange}:${channel}`;
+            if (success) {
+                consecutiveFailures[key] = 0;
+                return;
+            }
+            
+            consecutiveFailures[key] = (consecutiveFailures[key] || 0) + 1;
+            const limit = getConfig().breakerMaxConsecutiveFailures;
+            if (consecutiveFailures[key] >= limit) {
+                trip(`${consecutiveFailures[key]} consecutive ${channel} failures on ${exchange}`);
+            }
+        },
+        
+        recordOneSidedFill: () => {
+            const config = getConfig();
+            const windowStart = now() - config.breakerOneSidedWindowMs;
+            oneSidedFills = oneSidedFills.filter(time => time >= windowStart);
+            oneSidedFills.push(now());
+            
+            if (oneSidedFills.length >= config.breakerMaxOneSidedFills) {
+                trip(`${oneSidedFills.length} one-sided fills within ${config.breakerOneSidedWindowMs}ms`);
+            }
+        },
+        
+        getStatus,
+        reset
+    };
+}
@@ -0,0 +1,109 @@
+// Trading cost model: exchange fees, taxes, gas and INR/USD conversion
+import { CostBreakdown, Exchange } from '../types';
+import { getConfig } from '../config';
+
+/**
+ * Fees charged by an exchange, in that exchange's native currency
+ */
+export interface FeeSchedule {
+    /** Trading fee as a percentage of order notional */
+    feePercent: number;
+    /** Tax levied on the trading fee (e.g. GST on Probo) */
+    taxOnFeePercent: number;
+    /** Flat cost per order (e.g. Polygon gas on Polymarket) */
+    fixedCostPerOrder: number;
+}
+
+/**
+ * Get the configured fee schedule for an exchange
+ * @param exchange The exchange
+ * @returns The fee schedule
+ */
+export function getFeeSchedule(exchange: Exchange): FeeSchedule {
+    const config = getConfig();
+
+    switch (exchange) {
+        case Exchange.POLYMARKET:
+            return {
+                feePercent: config.polymarketFeeRateBps / 100,
+                taxOnFeePercent: 0,
+                fixedCostPerOrder: config.polygonGasCostUsd
+            };
+        case Exchange.PROBO:
+            return {
+                feePercent: config.proboFeePercent,
+                taxOnFeePercent: config.proboGstPercent,
+                fixedCostPerOrder: 0
+            };
+        default:
+            throw new Error(`No fee schedule configured for exchange ${exchange}`);
+    }
+}
+
+/**
+ * Fee and tax owed on an order
+ * @param notional Order notional in native currency
+ * @param schedule The exchange's fee schedule
+ * @returns Fee and tax amounts
+ */
+function orderFees(notional: number, schedule: FeeSchedule): { fee: number; tax: number } {
+    const fee = notional * schedule.feePercent / 100;
+    return { fee, tax: fee * schedule.taxOnFeePercent / 100 };
+}
+
+/**
+ * Calculate the gross and net profit of buying both legs of an arbitrage.
+ * Profit percentages are relative to the guaranteed payout, the same
+ * basis as the gross `10 - (polyPrice*10 + proboPrice)` formula.
+ * @param polyQty Polymarket shares (each pays $1)
+ * @param polyPrice Average Polymarket price in USD
+ * @param proboQty Probo shares (each pays ₹10)
+ * @param proboPrice Average Probo price in INR
+ * @param includeFixedCosts Whether to charge per-order costs such as gas (off for marginal pricing)
+ * @param fxRate USD/INR rate to convert at
+ * @returns The cost breakdown
+ */
+export function calculateCosts(
+    polyQty: number,
+    polyPrice: number,
+    proboQty: number,
+    proboPrice: number,
+    includeFixedCosts = true,
+    fxRate = getConfig().dollarPriceInr
+): CostBreakdown {
+    const config = getConfig();
+    const polySchedule = getFeeSchedule(Exchange.POLYMARKET);
+    const proboSchedule = getFeeSchedule(Exchange.PROBO);
+    const spread = config.fxSpreadPercent / 100;
+
+    const polyNotionalUsd = polyQty * polyPrice;
+    const polyFees = orderFees(polyNotionalUsd, polySchedule);
+    const polyGasUsd = includeFixedCosts ? polySchedule.fixedCostPerOrder : 0;
+    const polyCostUsd = polyNotionalUsd + polyFees.fee + polyFees.tax + polyGasUsd;
+
+    const proboNotionalInr = proboQty * proboPrice;
+    const proboFees = orderFees(proboNotionalInr, proboSchedule);
+    const proboFixedInr = includeFixedCosts ? proboSchedule.fixedCostPerOrder : 0;
+    const proboCostInr = proboNotionalInr + proboFees.fee + proboFees.tax + proboFixedInr;
+
+    // Guaranteed payout at the mid rate, and after converting Polymarket winnings back to INR
+    const payoutInr = Math.min(polyQty * fxRate, proboQty * 10);
+    const worstPayoutInr = Math.min(polyQty * fxRate * (1 - spread), proboQty * 10);
+
+    const grossProfitInr = payoutInr - polyNotionalUsd * fxRate - proboNotionalInr;
+    const netProfitInr = worstPayoutInr - polyCostUsd * fxRate * (1 + spread) - proboCostInr;
+    const fxCostInr = polyCostUsd * fxRate * spread + (payoutInr - worstPayoutInr);
+
+    return {
+        grossProfitPercent: payoutInr > 0 ? grossProfitInr / payoutInr * 100 : 0,
+        netProfitPercent: payoutInr > 0 ? netProfitInr / payoutInr * 100 : 0,
+        grossProfitInr,
+        netProfitInr,
+        polymarketFeesUsd: polyFees.fee + polyFees.tax,
+        polymarketGasUsd: polyGasUsd,
+        proboFeesInr: proboFees.fee,
+        proboTaxInr: proboFees.tax,
+        fxCostInr,
+        totalCostsInr: grossProfitInr - netProfitInr
+    };
+}
@@ -1,8 +1,25 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ExecutionResult, ArbOpportunity } from '../types';
+import {
+    ExecutionResult,
+    ArbOpportunity,
+    Exchange,
+    LedgerFill,
+    MarketResolution,
+    OrderState,
+    Position,
+    Resolution,
+    Settlement,
+    SettlementReport,
+    RecoveryAction,
+    RecoveryResult,
+    RecoveryStatus,
+    RiskState
+} from '../types';
 import { logger } from './logger';
 import { getConfig } from '../config';
+import { applyFill } from './ledger';
+import { isResolutionMismatch, settlePosition } from './settlement';
 
 // Define the database structure
 interface ArbDatabase {
@@ -13,15 +30,32 @@ interface ArbDatabase {
         polymarketOrderId?: string;
         proboOrderId?: string;
         success?: boolean;
+        polymarketFill?: OrderState;
+        proboFill?: OrderState;
+        recovery?: RecoveryResult;
     }[];
+    /** Position ledger keyed by exchange, market and outcome */
+    positions: Record<string, Position>;
+    resolutions: MarketResolution[];
+    settlements: Settlement[];
     stats: {
         totalOpportunitiesFound: number;
         totalExecuted: number;
         totalSuccessful: number;
         totalFailed: number;
+        totalOneSidedFills: number;
+        totalUnrecovered: number;
+        totalRiskRejections: number;
         avgProfitPercent: number;
         highestProfitPercent: number;
+        /** Sum of the profit percentages of successful executions */
         totalProfit: number;
+        /** P&L locked in by executed trades, before settlement */
+        estimatedPnlInr: number;
+        /** Realised P&L from settled positions, in INR and in USD */
+        realisedProfitInr: number;
+        realisedProfitUsd: number;
+        totalResolutionMismatches: number;
         lastUpdated: string;
     };
 }
@@ -29,14 +63,24 @@ interface ArbDatabase {
 // Default database structure
 const defaultDb: ArbDatabase = {
     opportunities: [],
+    positions: {},
+    resolutions: [],
+    settlements: [],
     stats: {
         totalOpportunitiesFound: 0,
         totalExecuted: 0,
         totalSuccessful: 0,
         totalFailed: 0,
+        totalOneSidedFills: 0,
+        totalUnrecovered: 0,
+        totalRiskRejections: 0,
         avgProfitPercent: 0,
         highestProfitPercent: 0,
         totalProfit: 0,
+        estimatedPnlInr: 0,
+        realisedProfitInr: 0,
+        realisedProfitUsd: 0,
+        totalResolutionMismatches: 0,
         lastUpdated: new Date().toISOString()
     }
 };
@@ -55,11 +99,45 @@ function ensureDbDirectory() {
     }
 }
 
+// The history is parsed once and kept in memory. Trades are written through at
+// once; opportunity logs, which arrive with every book change, are batched
+let cache: ArbDatabase | null = null;
+// File modification time as last read or written, to notice writes by another process such as the CLI
+let cacheMtimeMs: number | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+// Last opportunity logged per pair, so an unchanged book isn't logged on every tick
+const lastLoggedByPair = new Map<string, string>();
+
+/**
+ * Modification time of the database file
+ * @returns The time in ms, or null if there is no file
+ */
+function dbMtimeMs(): number | null {
+    try {
+        return fs.statSync(DB_PATH).mtimeMs;
+    } catch (error) {
+        return null;
+    }
+}
+
 /**
- * Initialize the database
+ * Initialize the database, reading it from disk on first use or when another
+ * process has written it since
  * @returns The database object
  */
 export function initDatabase(): ArbDatabase {
+    if (cache) {
+        const mtime = dbMtimeMs();
+        if (mtime === null || mtime === cacheMtimeMs) {
+            return cache;
+        }
+        if (flushTimer) {
+            logger.warn('Database changed on disk, reloading it over opportunities not yet saved');
+            clearTimeout(flushTimer);
+            flushTimer = null;
+        }
+    }
+    
     try {
         ensureDbDirectory();
         
@@ -70,15 +148,19 @@ export function initDatabase(): ArbDatabase {
                 opportunities: db.opportunities.length,
                 lastUpdated: db.stats.lastUpdated
             });
+            cache = db;
+            cacheMtimeMs = dbMtimeMs();
             return db;
         } else {
-            fs.writeFileSync(DB_PATH, JSON.stringify(defaultDb, null, 2), 'utf8');
+            const db = JSON.parse(JSON.stringify(defaultDb)) as ArbDatabase;
+            saveDatabase(db);
             logger.info('New database created');
-            return defaultDb;
+            return db;
         }
     } catch (error) {
         logger.error('Failed to initialize database', error);
-        return defaultDb;
+        cache = cache || JSON.parse(JSON.stringify(defaultDb)) as ArbDatabase;
+        return cache;
     }
 }
 
@@ -87,15 +169,91 @@ export function initDatabase(): ArbDatabase {
  * @param db The database object
  */
 export function saveDatabase(db: ArbDatabase): void {
+    cache = db;
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+    
     try {
         ensureDbDirectory();
-        fs.writeFileSync(DB_PATH, JSON.stringify(db, null, 2), 'utf8');
+        // Write to a temp file and rename it over the old one, so a crash
+        // mid-write never leaves a truncated history behind
+        const tmpPath = `${DB_PATH}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(db, null, 2), 'utf8');
+        fs.renameSync(tmpPath, DB_PATH);
+        cacheMtimeMs = dbMtimeMs();
         logger.debug('Database saved successfully');
     } catch (error) {
         logger.error('Failed to save database', error);
     }
 }
 
+/**
+ * Save the database once the flush interval has passed, batching every
+ * change made in the meantime into one write
+ * @param db The database object
+ */
+function scheduleSave(db: ArbDatabase): void {
+    cache = db;
+    if (flushTimer) {
+        return;
+    }
+    
+    flushTimer = setTimeout(() => {
+        flushTimer = null;
+        if (cache) {
+            saveDatabase(cache);
+        }
+    }, getConfig().dbFlushIntervalMs);
+    // A pending write must not keep the process alive; shutdown flushes it
+    flushTimer.unref?.();
+}
+
+/**
+ * Write any pending changes and force the database file out to disk, e.g.
+ * before the process exits
+ */
+export function flushDatabase(): void {
+    if (flushTimer && cache) {
+        saveDatabase(cache);
+    }
+    
+    try {
+        if (!fs.existsSync(DB_PATH)) {
+            return;
+        }
+        const fd = fs.openSync(DB_PATH, 'r+');
+        try {
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        logger.debug('Database flushed to disk');
+    } catch (error) {
+        logger.error('Failed to flush database', error);
+    }
+}
+
+/**
+ * What makes an opportunity worth logging again: the outcome and the prices and sizes it was priced at
+ * @param opportunity The arbitrage opportunity
+ * @returns A key that changes whenever any of those change
+ */
+function opportunitySignature(opportunity: ArbOpportunity): string {
+    return JSON.stringify([
+        opportunity.direction,
+        opportunity.found,
+        opportunity.isViable,
+        opportunity.reason,
+        opportunity.profitPercent,
+        opportunity.polymarketPrice,
+        opportunity.proboPrice,
+        opportunity.polymarketQty,
+        opportunity.proboQty
+    ]);
+}
+
 /**
  * Log an arbitrage opportunity to the database
  * @param opportunity The arbitrage opportunity
@@ -103,6 +261,15 @@ export function saveDatabase(db: ArbDatabase): void {
  */
 export function logOpportunity(opportunity: ArbOpportunity, executed = false): void {
     try {
+        // Streaming re-prices a pair on every book change; a repeat of what was last logged adds nothing.
+        // Viable ones are always logged, since each may be executed
+        const pairKey = opportunity.pairId ?? '';
+        const signature = opportunitySignature(opportunity);
+        if (!opportunity.isViable && !executed && lastLoggedByPair.get(pairKey) === signature) {
+            return;
+        }
+        lastLoggedByPair.set(pairKey, signature);
+        
         const db = initDatabase();
         
         db.opportunities.push({
@@ -121,14 +288,31 @@ export function logOpportunity(opportunity: ArbOpportunity, executed = false): v
             db.stats.highestProfitPercent = opportunity.profitPercent;
         }
         
+        if (opportunity.riskRejection) {
+            db.stats.totalRiskRejections = (db.stats.totalRiskRejections || 0) + 1;
+        }
+        
         db.stats.lastUpdated = new Date().toISOString();
         
-        saveDatabase(db);
+        scheduleSave(db);
     } catch (error) {
         logger.error('Failed to log opportunity', error);
     }
 }
 
+/**
+ * Drop the exchange's raw response from an order state before storing it
+ * @param state The order state
+ * @returns The order state without the raw response
+ */
+function withoutRaw(state?: OrderState): OrderState | undefined {
+    if (!state) {
+        return undefined;
+    }
+    const { raw, ...stored } = state;
+    return stored;
+}
+
 /**
  * Log an executed arbitrage result to the database
  * @param result The execution result
@@ -136,7 +320,12 @@ export function logOpportunity(opportunity: ArbOpportunity, executed = false): v
 export function logExecution(result: ExecutionResult): void {
     try {
         const db = initDatabase();
-        const lastIndex = db.opportunities.length - 1;
+        
+        // Pairs are scanned concurrently, so match the latest opportunity for this pair
+        let lastIndex = db.opportunities.length - 1;
+        while (lastIndex >= 0 && db.opportunities[lastIndex].opportunity.pairId !== result.opportunity.pairId) {
+            lastIndex--;
+        }
         
         if (lastIndex >= 0) {
             // Update the last opportunity with execution details
@@ -145,11 +334,16 @@ export function logExecution(result: ExecutionResult): void {
             db.opportunities[lastIndex].proboOrderId = result.proboOrder.orderId;
             db.opportunities[lastIndex].success = 
                 result.polymarketOrder.success && result.proboOrder.success;
+            db.opportunities[lastIndex].polymarketFill = withoutRaw(result.polymarketFill);
+            db.opportunities[lastIndex].proboFill = withoutRaw(result.proboFill);
+            db.opportunities[lastIndex].recovery = result.recovery;
+            db.stats.estimatedPnlInr = (db.stats.estimatedPnlInr || 0) + estimatePnlInr(db.opportunities[lastIndex]);
         }
         
         // Update stats
         db.stats.totalExecuted++;
         
+        // Realised profit is only booked once the market settles
         if (result.polymarketOrder.success && result.proboOrder.success) {
             db.stats.totalSuccessful++;
             db.stats.totalProfit += result.opportunity.profitPercent;
@@ -157,6 +351,14 @@ export function logExecution(result: ExecutionResult): void {
             db.stats.totalFailed++;
         }
         
+        // Older databases predate the recovery counters
+        if (result.recovery) {
+            db.stats.totalOneSidedFills = (db.stats.totalOneSidedFills || 0) + 1;
+            if (result.recovery.status === RecoveryStatus.FAILED) {
+                db.stats.totalUnrecovered = (db.stats.totalUnrecovered || 0) + 1;
+            }
+        }
+        
         db.stats.lastUpdated = new Date().toISOString();
         
         saveDatabase(db);
@@ -165,6 +367,249 @@ export function logExecution(result: ExecutionResult): void {
     }
 }
 
+type OpportunityRecord = ArbDatabase['opportunities'][number];
+
+/**
+ * Estimate the P&L an executed trade has locked in, in INR. Completed trades
+ * count their expected net profit on the quantity both legs filled; recovered
+ * trades add the cost of the hedge slippage or the loss on the unwind.
+ * @param record The executed opportunity record
+ * @returns Estimated P&L in INR
+ */
+function estimatePnlInr(record: OpportunityRecord): number {
+    const { opportunity, recovery } = record;
+    const fxRate = opportunity.fxRate ?? getConfig().dollarPriceInr;
+    const toInr = (exchange: Exchange, amount: number) =>
+        exchange === Exchange.POLYMARKET ? amount * fxRate : amount;
+    const expectedProfitInr = opportunity.costs?.netProfitInr ?? 0;
+    
+    if (record.success) {
+        // Profit is only locked in on the share of the trade both legs filled
+        const filledShare = (fill: OrderState | undefined, plannedQty: number) =>
+            fill?.filledQty !== undefined && plannedQty > 0 ? Math.min(1, fill.filledQty / plannedQty) : 1;
+        return expectedProfitInr * Math.min(
+            filledShare(record.polymarketFill, opportunity.polymarketQty),
+            filledShare(record.proboFill, opportunity.proboQty)
+        );
+    }
+    if (!recovery) {
+        return 0;
+    }
+    
+    if (recovery.status === RecoveryStatus.HEDGED) {
+        const hedge = recovery.steps.find(step => step.action === RecoveryAction.HEDGE_ORDER && step.success);
+        const plannedPrice = recovery.missingExchange === Exchange.POLYMARKET
+            ? opportunity.polymarketPrice
+            : opportunity.proboPrice;
+        const hedgedQty = hedge?.filledQty ?? hedge?.size;
+        const slippage = hedge && hedge.price !== undefined && hedgedQty !== undefined
+            ? (hedge.price - plannedPrice) * hedgedQty
+            : 0;
+        return expectedProfitInr - toInr(recovery.missingExchange, slippage);
+    }
+    
+    if (recovery.status === RecoveryStatus.UNWOUND) {
+        const detected = recovery.steps.find(step => step.action === RecoveryAction.DETECTED);
+        const unwind = recovery.steps.find(step => step.action === RecoveryAction.UNWIND_ORDER && step.success);
+        const unwoundQty = unwind?.filledQty ?? unwind?.size;
+        if (detected?.price === undefined || unwind?.price === undefined || unwoundQty === undefined) {
+            return 0;
+        }
+        return toInr(recovery.filledExchange, (unwind.price - detected.price) * unwoundQty);
+    }
+    
+    // Unrecovered positions are counted as exposure, not as a realised loss
+    return 0;
+}
+
+/**
+ * Build the exposure and activity the pre-trade risk checks run against
+ * @param now Time to evaluate the rolling windows at
+ * @returns The current risk state
+ */
+export function getRiskState(now = new Date()): RiskState {
+    const state: RiskState = {
+        exposureByMarketInr: {},
+        exposureByExchangeInr: {},
+        dailyLossInr: 0,
+        tradesLastHour: 0
+    };
+    
+    try {
+        const db = initDatabase();
+        const hourAgo = now.getTime() - 60 * 60 * 1000;
+        const today = now.toISOString().slice(0, 10);
+        let dailyPnlInr = 0;
+        
+        // Exposure is the cost of everything still held, straight from the ledger
+        for (const position of Object.values(db.positions || {})) {
+            if (position.shares <= 0) {
+                continue;
+            }
+            const pairId = position.pairId || 'default';
+            state.exposureByExchangeInr[position.exchange] =
+                (state.exposureByExchangeInr[position.exchange] || 0) + position.costBasisInr;
+            state.exposureByMarketInr[pairId] = (state.exposureByMarketInr[pairId] || 0) + position.costBasisInr;
+        }
+        
+        for (const record of db.opportunities) {
+            if (!record.executed) {
+                continue;
+            }
+            
+            const executedAt = new Date(record.timestamp).getTime();
+            if (executedAt >= hourAgo) {
+                state.tradesLastHour++;
+            }
+            if (record.timestamp.slice(0, 10) === today) {
+                dailyPnlInr += estimatePnlInr(record);
+            }
+        }
+        
+        state.dailyLossInr = Math.max(0, -dailyPnlInr);
+    } catch (error) {
+        logger.error('Failed to build risk state', error);
+    }
+    
+    return state;
+}
+
+/**
+ * Book confirmed fills into the position ledger
+ * @param fills The fills to book
+ */
+export function recordFills(fills: LedgerFill[]): void {
+    if (fills.length === 0) {
+        return;
+    }
+    
+    try {
+        const db = initDatabase();
+        // Older databases predate the ledger
+        db.positions = db.positions || {};
+        
+        for (const fill of fills) {
+            const position = applyFill(db.positions, fill);
+            logger.info(`Position updated: ${position.exchange} ${position.marketId} ${position.outcome}`, {
+                shares: position.shares,
+                costBasisInr: position.costBasisInr
+            });
+        }
+        
+        saveDatabase(db);
+    } catch (error) {
+        logger.error('Failed to record fills', error);
+    }
+}
+
+/**
+ * Get positions from the ledger
+ * @param filter Only return positions matching these fields
+ * @param includeClosed Whether to include positions with no shares left
+ * @returns The matching positions
+ */
+export function getPositions(
+    filter: Partial<Pick<Position, 'exchange' | 'marketId' | 'outcome' | 'pairId'>> = {},
+    includeClosed = false
+): Position[] {
+    try {
+        const db = initDatabase();
+        return Object.values(db.positions || {}).filter(position =>
+            (includeClosed || position.shares > 0) &&
+            Object.entries(filter).every(([field, value]) =>
+                value === undefined || String(position[field as keyof Position]) === String(value))
+        );
+    } catch (error) {
+        logger.error('Failed to get positions', error);
+        return [];
+    }
+}
+
+/**
+ * Record how a venue resolved a market pair and settle the positions held
+ * on it there. Raises a mismatch when the other venue resolved differently.
+ * @param pairId The market pair
+ * @param exchange The venue that resolved
+ * @param resolution The winning outcome, or void
+ * @param fxRate USD/INR rate to report the P&L at
+ * @returns The settlements made and whether the venues disagree
+ */
+export function recordResolution(
+    pairId: string,
+    exchange: Exchange,
+    resolution: Resolution,
+    fxRate: number
+): SettlementReport {
+    const db = initDatabase();
+    // Older databases predate settlement
+    db.positions = db.positions || {};
+    db.resolutions = db.resolutions || [];
+    db.settlements = db.settlements || [];
+    
+    const resolvedAt = new Date().toISOString();
+    db.resolutions = db.resolutions.filter(entry => !(entry.pairId === pairId && entry.exchange === exchange));
+    db.resolutions.push({ pairId, exchange, resolution, resolvedAt });
+    
+    const settlements: Settlement[] = [];
+    for (const position of Object.values(db.positions)) {
+        if ((position.pairId || 'default') !== pairId || position.exchange !== exchange || position.shares <= 0) {
+            continue;
+        }
+        
+        const settlement = settlePosition(position, resolution, fxRate);
+        settlements.push(settlement);
+        
+        // The position is closed out at its payout
+        position.shares = 0;
+        position.costBasisNative = 0;
+        position.costBasisInr = 0;
+        position.costBasisUsd = 0;
+        position.feesNative = 0;
+        position.realisedPnlNative = settlement.realisedPnlNative;
+        position.updatedAt = settlement.settledAt;
+        
+        db.stats.realisedProfitInr = (db.stats.realisedProfitInr || 0) + settlement.realisedPnlInr;
+        db.stats.realisedProfitUsd = (db.stats.realisedProfitUsd || 0) + settlement.realisedPnlUsd;
+    }
+    db.settlements.push(...settlements);
+    
+    const resolutions: Partial<Record<Exchange, Resolution>> = {};
+    for (const entry of db.resolutions.filter(entry => entry.pairId === pairId)) {
+        resolutions[entry.exchange] = entry.resolution;
+    }
+    const mismatch = isResolutionMismatch(resolutions);
+    
+    if (mismatch) {
+        db.stats.totalResolutionMismatches = (db.stats.totalResolutionMismatches || 0) + 1;
+        logger.error(`Resolution mismatch on ${pairId}: venues settled the event differently`, resolutions);
+    }
+    
+    logger.info(`Recorded ${exchange} resolution for ${pairId}: ${resolution}`, {
+        settledPositions: settlements.length,
+        realisedPnlInr: settlements.reduce((total, settlement) => total + settlement.realisedPnlInr, 0)
+    });
+    
+    db.stats.lastUpdated = resolvedAt;
+    saveDatabase(db);
+    
+    return { pairId, resolutions, mismatch, settlements };
+}
+
+/**
+ * Get settlements made so far
+ * @param pairId Only return settlements on this market pair
+ * @returns The settlements
+ */
+export function getSettlements(pairId?: string): Settlement[] {
+    try {
+        const db = initDatabase();
+        return (db.settlements || []).filter(settlement => pairId === undefined || settlement.pairId === pairId);
+    } catch (error) {
+        logger.error('Failed to get settlements', error);
+        return [];
+    }
+}
+
 /**
  * Get arbitrage statistics
  * @returns The statistics object
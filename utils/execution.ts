@@ -0,0 +1,192 @@
+// Placement of the two legs of an arbitrage, one after the other or both at once
+import { Exchange, ExecutionMode, LegExecution } from '../types';
+import { getConfig } from '../config';
+import { placeOrderWithRetry, sleep } from './helpers';
+import { RecoveryLeg } from './recovery';
+import { logger } from './logger';
+
+/**
+ * Wait for a promise, giving up after a timeout
+ * @param promise The promise to wait for
+ * @param ms How long to wait
+ * @returns What the promise resolved to, or null on timeout
+ */
+async function settleWithin<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<null>(resolve => {
+        timer = setTimeout(() => resolve(null), ms);
+    });
+
+    try {
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Place one leg, giving up on the acknowledgement after a timeout. A timed-out
+ * leg is reconciled before it is reported: no retry starts after the timeout,
+ * an attempt already in flight gets the same time again to answer, and if it
+ * still hasn't, whatever rests on the market is cancelled. Only then can the
+ * other leg be safely hedged or unwound.
+ * @param leg The leg to place
+ * @param timeoutMs How long to wait for the exchange to acknowledge the order
+ * @returns The order outcome with submit/ack timing
+ */
+export async function placeLeg(leg: RecoveryLeg, timeoutMs: number): Promise<LegExecution> {
+    const submitted = Date.now();
+    const abort = new AbortController();
+    const placement = placeOrderWithRetry(leg.adapter, leg.marketId, leg.side, leg.size, leg.price, abort.signal);
+
+    const order = await settleWithin(placement, timeoutMs);
+    if (order !== null) {
+        const acked = Date.now();
+        return {
+            order,
+            submittedAt: new Date(submitted).toISOString(),
+            ackedAt: new Date(acked).toISOString(),
+            latencyMs: acked - submitted,
+            timedOut: false
+        };
+    }
+
+    abort.abort();
+    const details = { marketId: leg.marketId, side: leg.side, size: leg.size, price: leg.price };
+    logger.warn(`${leg.adapter.exchange} leg not acknowledged within ${timeoutMs}ms, reconciling`, details);
+
+    // A late acknowledgement is the real outcome: the order exists and is tracked like any other
+    const late = await settleWithin(placement, timeoutMs);
+    if (late?.success) {
+        const acked = Date.now();
+        logger.warn(`${leg.adapter.exchange} leg acknowledged late`, { ...details, orderId: late.orderId });
+        return {
+            order: late,
+            submittedAt: new Date(submitted).toISOString(),
+            ackedAt: new Date(acked).toISOString(),
+            latencyMs: acked - submitted,
+            timedOut: true
+        };
+    }
+
+    if (late === null) {
+        // The request may still be resting on the book; nothing of this leg may be left behind
+        try {
+            const cancelled = await leg.adapter.cancelAllOrders(leg.marketId);
+            if (cancelled && !cancelled.success) {
+                logger.error(`Failed to cancel resting ${leg.adapter.exchange} orders after a leg timeout`, cancelled.error);
+            }
+        } catch (error) {
+            logger.error(`Failed to cancel resting ${leg.adapter.exchange} orders after a leg timeout`, error);
+        }
+
+        // Should it land after all, it is pulled as soon as it answers
+        void placement.then(async result => {
+            if (result.success && result.orderId) {
+                logger.error(`${leg.adapter.exchange} order ${result.orderId} landed after its leg was abandoned, cancelling`, details);
+                await leg.adapter.cancelOrder(result.orderId);
+            }
+        }).catch(error => logger.error(`Failed to cancel abandoned ${leg.adapter.exchange} order`, error));
+    }
+
+    return {
+        order: {
+            success: false,
+            error: new Error(`${leg.adapter.exchange} leg timed out after ${timeoutMs}ms`),
+            exchangeResponse: late?.exchangeResponse ?? null
+        },
+        submittedAt: new Date(submitted).toISOString(),
+        timedOut: true
+    };
+}
+
+/**
+ * A leg that was never sent because an earlier one failed
+ * @returns The unattempted leg outcome
+ */
+function notAttempted(): LegExecution {
+    return {
+        order: {
+            success: false,
+            error: new Error("Order not attempted"),
+            exchangeResponse: null
+        },
+        timedOut: false
+    };
+}
+
+/**
+ * Share of the visible liquidity at or better than the limit price that a leg would take
+ * @param leg The leg
+ * @param asks Asks on the leg's book, price -> quantity
+ * @returns Fraction of the book taken (Infinity if the book is empty)
+ */
+export function bookShare(leg: Pick<RecoveryLeg, 'size' | 'price'>, asks: Record<string, string>): number {
+    const available = Object.entries(asks)
+        .filter(([price]) => parseFloat(price) <= leg.price)
+        .reduce((total, [, qty]) => total + parseFloat(qty), 0);
+
+    return available > 0 ? leg.size / available : Infinity;
+}
+
+/**
+ * Decide which leg goes first in sequential mode
+ * @param polymarket The Polymarket leg
+ * @param probo The Probo leg
+ * @param asks Asks on each leg's book, used by the `less_liquid` ordering
+ * @returns The exchange to send first
+ */
+export function chooseFirstLeg(
+    polymarket: RecoveryLeg,
+    probo: RecoveryLeg,
+    asks: { polymarket: Record<string, string>; probo: Record<string, string> }
+): Exchange {
+    const config = getConfig();
+
+    switch (config.firstLeg) {
+        case 'probo':
+            return Exchange.PROBO;
+        case 'less_liquid':
+            // The leg most likely to miss goes first, so a miss costs nothing to undo
+            return bookShare(probo, asks.probo) > bookShare(polymarket, asks.polymarket)
+                ? Exchange.PROBO
+                : Exchange.POLYMARKET;
+        default:
+            return Exchange.POLYMARKET;
+    }
+}
+
+/**
+ * Place both legs of an arbitrage
+ * @param first Leg sent first in sequential mode
+ * @param second Leg sent once the first is in (sequential) or alongside it (concurrent)
+ * @param mode How to send the legs
+ * @returns Outcome of the first and second leg, in that order
+ */
+export async function executeLegs(
+    first: RecoveryLeg,
+    second: RecoveryLeg,
+    mode: ExecutionMode
+): Promise<[LegExecution, LegExecution]> {
+    const config = getConfig();
+
+    if (mode === ExecutionMode.CONCURRENT) {
+        return Promise.all([
+            placeLeg(first, config.legTimeoutMs),
+            placeLeg(second, config.legTimeoutMs)
+        ]);
+    }
+
+    const firstLeg = await placeLeg(first, config.legTimeoutMs);
+
+    // Only send the second leg once the first is in, otherwise there is nothing to hedge
+    if (!firstLeg.order.success) {
+        logger.warn(`${first.adapter.exchange} leg failed, skipping ${second.adapter.exchange} leg`);
+        return [firstLeg, notAttempted()];
+    }
+
+    // Wait a short time between orders to avoid rate limiting
+    await sleep(config.requestThrottleMs);
+
+    return [firstLeg, await placeLeg(second, config.legTimeoutMs)];
+}
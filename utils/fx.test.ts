@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import {
+    checkFxRate,
+    createFileFxRateProvider,
+    createHttpFxRateProvider,
+    createStaticFxRateProvider,
+    isFxRateStale
+} from "./fx";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        dollarPriceInr: 85,
+        fxRateMaxAgeMs: 60000,
+        fxMaxMovePercent: 0.5,
+        logLevel: "error"
+    })
+}));
+
+describe("FX Rate Provider Tests", () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let responseBody: any;
+
+    beforeAll(async () => {
+        // Local stub standing in for the HTTP rate source
+        server = http.createServer((req, res) => {
+            res.writeHead(200, { "content-type": "application/json" });
+            res.end(JSON.stringify(responseBody));
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    test("static provider should return the configured rate stamped now", async () => {
+        const fxRate = await createStaticFxRateProvider(85).getRate();
+
+        expect(fxRate.rate).toBe(85);
+        expect(isFxRateStale(fxRate)).toBe(false);
+    });
+
+    test("file provider should read the rate and timestamp from disk", async () => {
+        const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "fx-")), "rate.json");
+        fs.writeFileSync(filePath, JSON.stringify({ rate: 83.4, timestamp: "2020-01-01T00:00:00.000Z" }));
+
+        const fxRate = await createFileFxRateProvider(filePath).getRate();
+
+        expect(fxRate.rate).toBe(83.4);
+        expect(isFxRateStale(fxRate)).toBe(true);
+    });
+
+    test("http provider should accept the rates.INR shape with a unix timestamp", async () => {
+        const now = Math.floor(Date.now() / 1000);
+        responseBody = { rates: { INR: 84.2 }, timestamp: now };
+
+        const fxRate = await createHttpFxRateProvider(`${baseUrl}/latest`).getRate();
+
+        expect(fxRate.rate).toBe(84.2);
+        expect(new Date(fxRate.timestamp).getTime()).toBe(now * 1000);
+        expect(checkFxRate(fxRate)).toBeNull();
+    });
+
+    test("http provider should reject a response without a rate", async () => {
+        responseBody = { error: "rate limited" };
+
+        await expect(createHttpFxRateProvider(`${baseUrl}/latest`).getRate()).rejects.toThrow("Invalid FX rate");
+    });
+
+    test("checkFxRate should refuse a rate that moved beyond the threshold within the cycle", async () => {
+        const priced = await createStaticFxRateProvider(85).getRate();
+        const latest = await createStaticFxRateProvider(85.6).getRate();
+
+        expect(checkFxRate(priced, latest)).toMatch(/moved 0\.71%/);
+    });
+});
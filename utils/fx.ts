@@ -0,0 +1,147 @@
+// USD/INR rate providers and the staleness checks applied before trading
+import axios from 'axios';
+import * as fs from 'fs';
+import { FxRate, FxRateProvider } from '../types';
+import { getConfig } from '../config';
+import { logger } from './logger';
+
+/**
+ * Provider returning a fixed rate, stamped with the time it was asked for
+ * @param rate The USD/INR rate
+ * @returns The FX rate provider
+ */
+export function createStaticFxRateProvider(rate: number): FxRateProvider {
+    return {
+        getRate: async () => ({
+            rate,
+            timestamp: new Date().toISOString(),
+            maxAgeMs: getConfig().fxRateMaxAgeMs,
+            source: 'static'
+        })
+    };
+}
+
+/**
+ * Provider reading `{ "rate": 85.1, "timestamp": "..." }` from a local file.
+ * Without a timestamp the file's modification time is used.
+ * @param filePath Path to the JSON rate file
+ * @returns The FX rate provider
+ */
+export function createFileFxRateProvider(filePath: string): FxRateProvider {
+    return {
+        getRate: async () => {
+            const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            const rate = Number(data.rate);
+            
+            if (!Number.isFinite(rate) || rate <= 0) {
+                throw new Error(`Invalid FX rate in ${filePath}`);
+            }
+            
+            return {
+                rate,
+                timestamp: data.timestamp
+                    ? parseTimestamp(data.timestamp)
+                    : fs.statSync(filePath).mtime.toISOString(),
+                maxAgeMs: getConfig().fxRateMaxAgeMs,
+                source: `file:${filePath}`
+            };
+        }
+    };
+}
+
+/**
+ * Provider fetching the rate over HTTP. Accepts `{ rate, timestamp? }` or
+ * the common `{ rates: { INR }, timestamp? }` shape.
+ * @param url The rate endpoint
+ * @returns The FX rate provider
+ */
+export function createHttpFxRateProvider(url: string): FxRateProvider {
+    return {
+        getRate: async () => {
+            const response = await axios.get(url, { timeout: 5000 });
+            const data = response.data || {};
+            const rate = Number(data.rate ?? data.rates?.INR);
+            
+            if (!Number.isFinite(rate) || rate <= 0) {
+                throw new Error(`Invalid FX rate response from ${url}`);
+            }
+            
+            return {
+                rate,
+                timestamp: data.timestamp !== undefined ? parseTimestamp(data.timestamp) : new Date().toISOString(),
+                maxAgeMs: getConfig().fxRateMaxAgeMs,
+                source: `http:${url}`
+            };
+        }
+    };
+}
+
+/**
+ * Normalise an ISO string or unix time (seconds or milliseconds) to ISO
+ * @param value The raw timestamp
+ * @returns ISO timestamp
+ */
+function parseTimestamp(value: string | number): string {
+    if (typeof value === 'number') {
+        return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+    }
+    return new Date(value).toISOString();
+}
+
+/**
+ * Create the FX rate provider selected in the config
+ * @returns The FX rate provider
+ */
+export function createFxRateProvider(): FxRateProvider {
+    const config = getConfig();
+    
+    switch (config.fxRateSource) {
+        case 'file':
+            return createFileFxRateProvider(config.fxRateFilePath);
+        case 'http':
+            return createHttpFxRateProvider(config.fxRateUrl);
+        case 'static':
+            return createStaticFxRateProvider(config.dollarPriceInr);
+        default:
+            logger.warn(`Unknown FX rate source ${config.fxRateSource}, using the static rate`);
+            return createStaticFxRateProvider(config.dollarPriceInr);
+    }
+}
+
+/**
+ * Check whether an FX rate is too old to trade on
+ * @param fxRate The FX rate
+ * @param now Current time in milliseconds
+ * @returns Whether the rate is stale
+ */
+export function isFxRateStale(fxRate: FxRate, now = Date.now()): boolean {
+    const timestamp = new Date(fxRate.timestamp).getTime();
+    return !Number.isFinite(timestamp) || now - timestamp > fxRate.maxAgeMs;
+}
+
+/**
+ * Decide whether it is safe to trade at a rate, optionally against a fresher quote
+ * @param fxRate The rate the opportunity was priced at
+ * @param latest A quote taken afterwards in the same cycle
+ * @returns The reason to refuse trading, or null if the rate can be used
+ */
+export function checkFxRate(fxRate: FxRate, latest?: FxRate): string | null {
+    const config = getConfig();
+    
+    if (isFxRateStale(fxRate)) {
+        return `FX rate from ${fxRate.source} is stale (as of ${fxRate.timestamp})`;
+    }
+    
+    if (latest) {
+        if (isFxRateStale(latest)) {
+            return `FX rate from ${latest.source} is stale (as of ${latest.timestamp})`;
+        }
+        
+        const movePercent = Math.abs(latest.rate - fxRate.rate) / fxRate.rate * 100;
+        if (movePercent > config.fxMaxMovePercent) {
+            return `FX rate moved ${movePercent.toFixed(2)}% within the cycle (limit ${config.fxMaxMovePercent}%)`;
+        }
+    }
+    
+    return null;
+}
@@ -1,7 +1,10 @@
 // Utility functions for the arbitrage bot
-import { Depth, ArbOpportunity } from '../types';
+import { Depth, ArbDirection, ArbOpportunity, ArbLevel, ExchangeAdapter, MarketPair, OrderResult, OrderSide } from '../types';
 import { getConfig } from '../config';
 import { logger } from './logger';
+import { calculateCosts } from './costs';
+import { checkOrder } from './instruments';
+import { getDefaultMarketPair } from './markets';
 
 /**
  * Find the lowest ask price from a market depth
@@ -42,22 +45,110 @@ export function findHighestBidPrice(depth: Depth): number | null {
 }
 
 /**
- * Calculate arbitrage opportunity between Polymarket and Probo
- * @param polyDepth Polymarket depth data
- * @param proboDepth Probo depth data
+ * Get the ask levels of a market depth, best price first
+ * @param depth The market depth data
+ * @returns Price/quantity pairs sorted by ascending price
+ */
+export function getAskLevels(depth: Depth): { price: number; qty: number }[] {
+    return Object.keys(depth.sell)
+        .map(p => ({ price: Number(p), qty: Number(depth.sell[p]) }))
+        .filter(level => level.qty > 0)
+        .sort((a, b) => a.price - b.price);
+}
+
+/**
+ * Gross profit percentage of buying one Polymarket share and one Probo share at the given prices
+ * @param polyPrice Polymarket price (0-1)
+ * @param proboPrice Probo price (0-10)
+ * @returns Profit as a percentage of the payout
+ */
+export function levelProfitPercent(polyPrice: number, proboPrice: number): number {
+    return (10 - (polyPrice * 10 + proboPrice)) * 10;
+}
+
+/**
+ * Net profit percentage of one more unit at the given prices. Per-order
+ * costs such as gas are left out since they don't grow with size.
+ * @param polyPrice Polymarket price (0-1)
+ * @param proboPrice Probo price (0-10)
+ * @param fxRate USD/INR rate
+ * @returns Marginal net profit as a percentage of the payout
+ */
+function marginalNetProfitPercent(polyPrice: number, proboPrice: number, fxRate: number): number {
+    return calculateCosts(1, polyPrice, fxRate / 10, proboPrice, false, fxRate).netProfitPercent;
+}
+
+/**
+ * Get the Polymarket token and Probo offer type to trade for a direction
+ * @param direction The arbitrage direction
+ * @param pair The market pair being traded
+ * @returns The market identifiers for both legs
+ */
+export function getDirectionLegs(
+    direction: ArbDirection,
+    pair: MarketPair = getDefaultMarketPair()
+): { polymarketTokenId: string; proboSide: OrderSide } {
+    const config = getConfig();
+    
+    if (direction === ArbDirection.POLY_NO_PROBO_YES) {
+        return { polymarketTokenId: pair.polymarketNoTokenId || '', proboSide: config.proboYesSide };
+    }
+    
+    return { polymarketTokenId: pair.polymarketYesTokenId, proboSide: config.proboNoSide };
+}
+
+/**
+ * Pick the better of several candidate opportunities: viable beats found,
+ * then the larger expected profit wins
+ * @param candidates The opportunities priced for each direction
+ * @returns The best opportunity
+ */
+export function selectBestOpportunity(candidates: ArbOpportunity[]): ArbOpportunity {
+    const rank = (opportunity: ArbOpportunity) => (opportunity.isViable ? 2 : 0) + (opportunity.found ? 1 : 0);
+    const expectedProfit = (opportunity: ArbOpportunity) => opportunity.profitPercent * opportunity.polymarketQty;
+    
+    return candidates.reduce((best, candidate) => {
+        if (rank(candidate) !== rank(best)) {
+            return rank(candidate) > rank(best) ? candidate : best;
+        }
+        return expectedProfit(candidate) > expectedProfit(best) ? candidate : best;
+    });
+}
+
+/**
+ * Calculate arbitrage opportunity between Polymarket and Probo.
+ * Walks both ask books level by level and keeps filling while every
+ * marginal unit still clears the pair's minimum profit after costs,
+ * up to the pair's size caps.
+ * @param polyDepth Polymarket depth data for the outcome bought on Polymarket
+ * @param proboDepth Probo depth data (both outcomes)
+ * @param direction Which outcome is bought on each venue
+ * @param fxRate USD/INR rate to size and price at
+ * @param pair The market pair, for its threshold and size caps
  * @returns Arbitrage opportunity details
  */
-export function calculateArbOpportunity(polyDepth: Depth, proboDepth: Depth): ArbOpportunity {
+export function calculateArbOpportunity(
+    polyDepth: Depth,
+    proboDepth: Depth,
+    direction: ArbDirection = ArbDirection.POLY_YES_PROBO_NO,
+    fxRate = getConfig().dollarPriceInr,
+    pair?: MarketPair
+): ArbOpportunity {
     try {
         const config = getConfig();
-        const polyPrice = findLowestAskPrice(polyDepth);
-        const proboPrice = findLowestAskPrice(proboDepth);
+        const { proboSide } = getDirectionLegs(direction, pair);
+        const minProfitPercent = pair?.expectedArbPercentMin ?? config.expectedArbPercentMin;
+        const polyAsks = getAskLevels(polyDepth);
+        // Probo's book is keyed by offer type, one side per outcome
+        const proboAsks = getAskLevels({ buy: {}, sell: proboDepth[proboSide] || {} });
         
-        if (polyPrice === null || proboPrice === null) {
+        if (polyAsks.length === 0 || proboAsks.length === 0) {
             return {
                 found: false,
+                direction,
                 isViable: false,
                 profitPercent: 0,
+                fxRate,
                 polymarketPrice: 0,
                 proboPrice: 0,
                 polymarketQty: 0,
@@ -66,19 +157,19 @@ export function calculateArbOpportunity(polyDepth: Depth, proboDepth: Depth): Ar
             };
         }
         
-        logger.debug('Prices found', { polyPrice, proboPrice });
+        const polyPrice = polyAsks[0].price;
+        const proboPrice = proboAsks[0].price;
         
-        // Convert prices to comparable units
-        const combinedPrice = polyPrice * 10 + proboPrice;
-        const potentialProfit = 10 - combinedPrice;
-        const profitPercent = potentialProfit * 10;
+        logger.debug('Prices found', { polyPrice, proboPrice });
         
-        // Check if arbitrage is possible
-        if (combinedPrice >= 10) {
+        // Check if arbitrage is possible at the top of both books
+        if (polyPrice * 10 + proboPrice > 10) {
             return {
                 found: false,
+                direction,
                 isViable: false,
                 profitPercent: 0,
+                fxRate,
                 polymarketPrice: polyPrice,
                 proboPrice: proboPrice,
                 polymarketQty: 0,
@@ -87,33 +178,107 @@ export function calculateArbOpportunity(polyDepth: Depth, proboDepth: Depth): Ar
             };
         }
         
-        // Determine if profit meets minimum threshold
-        const isViable = profitPercent >= config.expectedArbPercentMin;
+        // One Polymarket share pays $1, one Probo share pays ₹10
+        const proboPerPoly = fxRate / 10;
+        
+        // Size caps, expressed in Polymarket shares
+        let polyCapRemaining = Math.min(
+            pair?.maxPolymarketQty ?? Infinity,
+            (pair?.maxProboQty ?? Infinity) / proboPerPoly
+        );
         
-        // Calculate optimal quantities
-        const polyQty = Number(polyDepth.sell[polyPrice.toString()]);
-        const proboQty = Number(proboDepth.sell[proboPrice.toString()]);
+        const levels: ArbLevel[] = [];
+        let polyIndex = 0;
+        let proboIndex = 0;
+        let polyRemaining = polyAsks[0].qty;
+        let proboRemaining = proboAsks[0].qty;
         
-        let finalPolyQty = 0;
-        let finalProboQty = 0;
+        // Ask prices only get worse, so the first level below the threshold ends the walk
+        while (polyIndex < polyAsks.length && proboIndex < proboAsks.length && polyCapRemaining > 1e-9) {
+            const polyLevel = polyAsks[polyIndex];
+            const proboLevel = proboAsks[proboIndex];
+            const profitPercent = marginalNetProfitPercent(polyLevel.price, proboLevel.price, fxRate);
+            
+            if (profitPercent < minProfitPercent) break;
+            
+            const polyQty = Math.min(polyRemaining, proboRemaining / proboPerPoly, polyCapRemaining);
+            const proboQty = polyQty * proboPerPoly;
+            
+            levels.push({
+                polymarketPrice: polyLevel.price,
+                proboPrice: proboLevel.price,
+                polymarketQty: polyQty,
+                proboQty,
+                profitPercent,
+                grossProfitPercent: levelProfitPercent(polyLevel.price, proboLevel.price)
+            });
+            
+            polyRemaining -= polyQty;
+            proboRemaining -= proboQty;
+            polyCapRemaining -= polyQty;
+            
+            // Tolerate floating point dust when a level is exhausted
+            if (polyRemaining <= 1e-9) {
+                polyIndex++;
+                polyRemaining = polyIndex < polyAsks.length ? polyAsks[polyIndex].qty : 0;
+            }
+            if (proboRemaining <= 1e-9) {
+                proboIndex++;
+                proboRemaining = proboIndex < proboAsks.length ? proboAsks[proboIndex].qty : 0;
+            }
+        }
         
-        if (polyQty * config.dollarPriceInr / 10 <= proboQty) {
-            finalPolyQty = polyQty;
-            finalProboQty = polyQty * (config.dollarPriceInr / 10);
-        } else {
-            finalProboQty = proboQty;
-            finalPolyQty = proboQty / (config.dollarPriceInr / 10);
+        if (levels.length === 0) {
+            // Report the top of book so the shortfall is visible in the logs
+            const polyQty = Math.min(polyAsks[0].qty, proboAsks[0].qty / proboPerPoly, polyCapRemaining);
+            const costs = calculateCosts(polyQty, polyPrice, polyQty * proboPerPoly, proboPrice, true, fxRate);
+            return {
+                found: true,
+                direction,
+                isViable: false,
+                profitPercent: costs.netProfitPercent,
+                grossProfitPercent: costs.grossProfitPercent,
+                costs,
+                fxRate,
+                polymarketPrice: polyPrice,
+                proboPrice: proboPrice,
+                polymarketQty: polyQty,
+                proboQty: polyQty * proboPerPoly,
+                polymarketAvgPrice: polyPrice,
+                proboAvgPrice: proboPrice,
+                levels,
+                reason: levelProfitPercent(polyPrice, proboPrice) >= minProfitPercent
+                    ? 'Profit below minimum threshold after costs'
+                    : 'Profit below minimum threshold'
+            };
         }
         
+        const totalPolyQty = levels.reduce((sum, level) => sum + level.polymarketQty, 0);
+        const totalProboQty = levels.reduce((sum, level) => sum + level.proboQty, 0);
+        const polyAvgPrice = levels.reduce((sum, level) => sum + level.polymarketPrice * level.polymarketQty, 0) / totalPolyQty;
+        const proboAvgPrice = levels.reduce((sum, level) => sum + level.proboPrice * level.proboQty, 0) / totalProboQty;
+        const lastLevel = levels[levels.length - 1];
+        
+        // Per-order costs can still sink a small trade whose every level cleared the threshold
+        const costs = calculateCosts(totalPolyQty, polyAvgPrice, totalProboQty, proboAvgPrice, true, fxRate);
+        const isViable = costs.netProfitPercent >= minProfitPercent;
+        
         return {
             found: true,
+            direction,
             isViable,
-            profitPercent,
-            polymarketPrice: polyPrice,
-            proboPrice: proboPrice,
-            polymarketQty: finalPolyQty,
-            proboQty: finalProboQty,
-            reason: isViable ? undefined : 'Profit below minimum threshold'
+            profitPercent: costs.netProfitPercent,
+            grossProfitPercent: costs.grossProfitPercent,
+            costs,
+            fxRate,
+            polymarketPrice: lastLevel.polymarketPrice,
+            proboPrice: lastLevel.proboPrice,
+            polymarketQty: totalPolyQty,
+            proboQty: totalProboQty,
+            polymarketAvgPrice: polyAvgPrice,
+            proboAvgPrice: proboAvgPrice,
+            levels,
+            reason: isViable ? undefined : 'Profit below minimum threshold after costs'
         };
     } catch (error) {
         logger.error('Error calculating arbitrage opportunity', error);
@@ -125,7 +290,7 @@ export function calculateArbOpportunity(polyDepth: Depth, proboDepth: Depth): Ar
             proboPrice: 0,
             polymarketQty: 0,
             proboQty: 0,
-            reason: `Error: ${error.message}`
+            reason: `Error: ${error instanceof Error ? error.message : String(error)}`
         };
     }
 }
@@ -138,3 +303,72 @@ export function calculateArbOpportunity(polyDepth: Depth, proboDepth: Depth): Ar
 export function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
+
+/**
+ * Place an order on an exchange with retry logic
+ * @param adapter The exchange to place the order on
+ * @param marketId The market ID on that exchange
+ * @param side Order side
+ * @param size Order quantity
+ * @param price Order price
+ * @param signal Once aborted, no further attempt is started
+ * @returns The last order result (unsuccessful if every attempt failed)
+ */
+export async function placeOrderWithRetry(
+    adapter: ExchangeAdapter,
+    marketId: string | number,
+    side: OrderSide,
+    size: number,
+    price: number,
+    signal?: AbortSignal
+): Promise<OrderResult> {
+    const config = getConfig();
+    
+    // The venue would reject it, so it is never sent
+    const invalid = checkOrder(adapter.exchange, size, price);
+    if (invalid) {
+        logger.error(`Refusing to send ${adapter.exchange} order: ${invalid}`, { marketId, side, size, price });
+        return {
+            success: false,
+            error: new Error(invalid),
+            exchangeResponse: null
+        };
+    }
+    
+    let orderResult: OrderResult = {
+        success: false,
+        error: new Error("Order not attempted"),
+        exchangeResponse: null
+    };
+    let retries = 0;
+    
+    while (retries <= config.maxRetries) {
+        // A caller that gave up must not have an order land behind its back
+        if (signal?.aborted) {
+            logger.warn(`Stopped retrying ${adapter.exchange} order after ${retries} attempt(s)`, { marketId, side });
+            return orderResult;
+        }
+        
+        try {
+            orderResult = await adapter.createOrder(marketId, side, size, price);
+            
+            if (orderResult.success) break;
+            
+            logger.warn(`${adapter.exchange} order failed, retrying (${retries + 1}/${config.maxRetries})`);
+        } catch (error) {
+            logger.error(`Error placing ${adapter.exchange} order (attempt ${retries + 1})`, error);
+            orderResult = {
+                success: false,
+                error: error instanceof Error ? error : new Error(String(error)),
+                exchangeResponse: null
+            };
+        }
+        
+        retries++;
+        if (retries <= config.maxRetries) {
+            await sleep(config.retryDelayMs);
+        }
+    }
+    
+    return orderResult;
+}
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import { checkOrder, normaliseOpportunity, roundPrice, roundQty } from "./instruments";
+import { ArbOpportunity, Exchange, OrderSide } from "../types";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        polymarketTickSize: 0.01,
+        polymarketMinQty: 5,
+        polymarketMaxQty: 1000,
+        polymarketQtyStep: 0.01,
+        proboTickSize: 0.5,
+        proboMinQty: 1,
+        proboMaxQty: 10000,
+        proboQtyStep: 1,
+        proboFeePercent: 0,
+        proboGstPercent: 0,
+        polymarketFeeRateBps: 0,
+        polygonGasCostUsd: 0,
+        fxSpreadPercent: 0,
+        dollarPriceInr: 85,
+        expectedArbPercentMin: 5,
+        logLevel: "error"
+    })
+}));
+
+describe("Instrument Tests", () => {
+    const opportunity: ArbOpportunity = {
+        found: true,
+        isViable: true,
+        profitPercent: 10,
+        polymarketPrice: 0.7,
+        proboPrice: 2,
+        polymarketQty: 300,
+        proboQty: 2550,
+        fxRate: 85
+    };
+
+    test("roundPrice should round a limit price toward marketable", () => {
+        expect(roundPrice(0.7000000000000001, 0.01, OrderSide.BUY)).toBe(0.7);
+        expect(roundPrice(0.706, 0.01, OrderSide.BUY)).toBe(0.71);
+        expect(roundPrice(0.706, 0.01, OrderSide.SELL)).toBe(0.7);
+        expect(roundPrice(2.3, 0.5, OrderSide.BUY)).toBe(2.5);
+    });
+
+    test("roundQty should round down onto the quantity step", () => {
+        expect(roundQty(10.6789, 0.01)).toBe(10.67);
+        expect(roundQty(2549.9999999999995, 1)).toBe(2550);
+        expect(roundQty(2549.6, 1)).toBe(2549);
+    });
+
+    test("checkOrder should describe orders the venue would reject", () => {
+        expect(checkOrder(Exchange.PROBO, 10, 2.5)).toBeNull();
+        expect(checkOrder(Exchange.PROBO, 10, 2.3)).toMatch(/tick size/);
+        expect(checkOrder(Exchange.PROBO, 10.5, 2.5)).toMatch(/quantity step/);
+        expect(checkOrder(Exchange.POLYMARKET, 4, 0.5)).toMatch(/order size range/);
+        expect(checkOrder(Exchange.POLYMARKET, 1001, 0.5)).toMatch(/order size range/);
+    });
+
+    test("normaliseOpportunity should leave an opportunity already on every grid untouched", () => {
+        expect(normaliseOpportunity(opportunity)).toBe(opportunity);
+    });
+
+    test("normaliseOpportunity should round sizes down and re-price the trade", () => {
+        const rounded = normaliseOpportunity({ ...opportunity, polymarketQty: 300.456, proboQty: 2553.876 });
+
+        expect(rounded.polymarketQty).toBe(300.45);
+        expect(rounded.proboQty).toBe(2553);
+        expect(rounded.isViable).toBe(true);
+        // Payout is capped by the smaller leg: 2553 * ₹10 = ₹25530
+        expect(rounded.costs?.grossProfitInr).toBeCloseTo(25530 - 300.45 * 0.7 * 85 - 2553 * 2);
+    });
+
+    test("normaliseOpportunity should shrink both legs to the venue maximum", () => {
+        const rounded = normaliseOpportunity({ ...opportunity, polymarketQty: 2000, proboQty: 17000 });
+
+        expect(rounded.polymarketQty).toBe(1000);
+        expect(rounded.proboQty).toBe(8500);
+    });
+
+    test("normaliseOpportunity should refuse trades that fall below a minimum or stop paying", () => {
+        expect(normaliseOpportunity({ ...opportunity, polymarketQty: 4.999, proboQty: 42.49 }).reason)
+            .toMatch(/below venue minimum/);
+
+        // 10% at the ₹2 average, but only 5% if it all fills at the ₹2.5 limit, against an 8% minimum
+        const unprofitable = normaliseOpportunity({ ...opportunity, proboPrice: 2.2, proboAvgPrice: 2, proboQty: 2550.5 }, 8);
+        expect(unprofitable.isViable).toBe(false);
+        expect(unprofitable.proboPrice).toBe(2.5);
+        expect(unprofitable.profitPercent).toBeCloseTo(5);
+        expect(unprofitable.reason).toMatch(/after rounding/);
+    });
+
+    test("normaliseOpportunity should round a limit that would reach the payout down and drop the levels beyond it", () => {
+        const rounded = normaliseOpportunity({
+            ...opportunity,
+            polymarketPrice: 0.02,
+            proboPrice: 9.8,
+            proboQty: 2550,
+            polymarketAvgPrice: 0.02,
+            proboAvgPrice: 9.6,
+            levels: [
+                { polymarketPrice: 0.02, proboPrice: 9.5, polymarketQty: 200, proboQty: 1700, profitPercent: 3, grossProfitPercent: 3 },
+                { polymarketPrice: 0.02, proboPrice: 9.8, polymarketQty: 100, proboQty: 850, profitPercent: 0, grossProfitPercent: 0 }
+            ]
+        }, 1);
+
+        // ₹10 is the payout, so the ₹9.8 limit goes down to ₹9.5 and only the first level is left
+        expect(rounded.proboPrice).toBe(9.5);
+        expect(rounded.polymarketQty).toBe(200);
+        expect(rounded.proboQty).toBe(1700);
+        expect(rounded.proboAvgPrice).toBe(9.5);
+        expect(rounded.levels).toHaveLength(1);
+        expect(rounded.isViable).toBe(true);
+        expect(rounded.profitPercent).toBeCloseTo(3);
+    });
+});
@@ -0,0 +1,211 @@
+// Tick size and order size rules per exchange
+import { ArbLevel, ArbOpportunity, Exchange, InstrumentSpec, OrderSide } from '../types';
+import { getConfig } from '../config';
+import { calculateCosts } from './costs';
+
+// Tolerance for float noise such as 0.7000000000000001
+const EPSILON = 1e-9;
+
+/**
+ * Get the order constraints an exchange enforces
+ * @param exchange The exchange
+ * @returns Tick size, quantity limits and quantity step
+ */
+export function getInstrumentSpec(exchange: Exchange): InstrumentSpec {
+    const config = getConfig();
+
+    switch (exchange) {
+        case Exchange.POLYMARKET:
+            return {
+                tickSize: config.polymarketTickSize,
+                minQty: config.polymarketMinQty,
+                maxQty: config.polymarketMaxQty,
+                qtyStep: config.polymarketQtyStep
+            };
+        case Exchange.PROBO:
+            return {
+                tickSize: config.proboTickSize,
+                minQty: config.proboMinQty,
+                maxQty: config.proboMaxQty,
+                qtyStep: config.proboQtyStep
+            };
+        default:
+            throw new Error(`No instrument metadata configured for exchange ${exchange}`);
+    }
+}
+
+/**
+ * Snap a value to a multiple of a step, dropping float noise
+ * @param value The value
+ * @param step The grid step
+ * @param round Math.floor or Math.ceil
+ * @returns The value on the grid
+ */
+function toGrid(value: number, step: number, round: (x: number) => number): number {
+    const decimals = (String(step).split('.')[1] || '').length;
+    const steps = round === Math.floor ? Math.floor(value / step + EPSILON) : Math.ceil(value / step - EPSILON);
+    return Number((steps * step).toFixed(decimals));
+}
+
+/**
+ * Round a limit price onto the tick grid toward marketable: buys round up
+ * and sells round down, so the order still reaches the levels it was priced against
+ * @param price The limit price
+ * @param tickSize The venue's tick size
+ * @param side The order side
+ * @returns The price on the tick grid
+ */
+export function roundPrice(price: number, tickSize: number, side: OrderSide): number {
+    return toGrid(price, tickSize, side === OrderSide.BUY ? Math.ceil : Math.floor);
+}
+
+/**
+ * Round a buy limit onto the tick grid, up unless that would reach the
+ * share's payout, where no trade pays and venues reject the price
+ * @param price The limit price
+ * @param tickSize The venue's tick size
+ * @param payout What one share pays
+ * @returns The price on the tick grid
+ */
+function roundBuyLimit(price: number, tickSize: number, payout: number): number {
+    const up = roundPrice(price, tickSize, OrderSide.BUY);
+    return up < payout ? up : toGrid(price, tickSize, Math.floor);
+}
+
+/**
+ * Round a quantity down onto the step grid
+ * @param qty The quantity
+ * @param qtyStep The venue's quantity step
+ * @returns The quantity on the step grid
+ */
+export function roundQty(qty: number, qtyStep: number): number {
+    return toGrid(qty, qtyStep, Math.floor);
+}
+
+/**
+ * Whether a value sits on a grid
+ * @param value The value
+ * @param step The grid step
+ * @returns True if the value is a multiple of the step
+ */
+function isOnGrid(value: number, step: number): boolean {
+    const steps = value / step;
+    return Math.abs(steps - Math.round(steps)) < 1e-6;
+}
+
+/**
+ * Check an order against the venue's rules before it is sent
+ * @param exchange The exchange
+ * @param size Order quantity
+ * @param price Order price
+ * @returns Why the venue would reject the order, or null if it is valid
+ */
+export function checkOrder(exchange: Exchange, size: number, price: number): string | null {
+    const spec = getInstrumentSpec(exchange);
+
+    if (!(price > 0) || !isOnGrid(price, spec.tickSize)) {
+        return `Price ${price} is not on the ${exchange} tick size of ${spec.tickSize}`;
+    }
+    if (!isOnGrid(size, spec.qtyStep)) {
+        return `Quantity ${size} is not a multiple of the ${exchange} quantity step of ${spec.qtyStep}`;
+    }
+    if (size < spec.minQty || size > spec.maxQty) {
+        return `Quantity ${size} is outside the ${exchange} order size range of ${spec.minQty}-${spec.maxQty}`;
+    }
+
+    return null;
+}
+
+/**
+ * Round an opportunity's prices and quantities onto each venue's grids and
+ * re-price it. Quantities above a venue's maximum shrink both legs together,
+ * as do levels a limit rounded down no longer reaches.
+ * @param opportunity The viable opportunity
+ * @param minProfitPercent Net profit the rounded trade must still make
+ * @returns The rounded opportunity, marked not viable if rounding broke it
+ */
+export function normaliseOpportunity(
+    opportunity: ArbOpportunity,
+    minProfitPercent = getConfig().expectedArbPercentMin
+): ArbOpportunity {
+    const config = getConfig();
+    const polySpec = getInstrumentSpec(Exchange.POLYMARKET);
+    const proboSpec = getInstrumentSpec(Exchange.PROBO);
+
+    // One Polymarket share pays $1, one Probo share pays ₹10
+    const polymarketPrice = roundBuyLimit(opportunity.polymarketPrice, polySpec.tickSize, 1);
+    const proboPrice = roundBuyLimit(opportunity.proboPrice, proboSpec.tickSize, 10);
+
+    const levels = opportunity.levels ?? [];
+    const reachable = levels.filter(level =>
+        level.polymarketPrice <= polymarketPrice + EPSILON && level.proboPrice <= proboPrice + EPSILON);
+    const levelQty = (from: ArbLevel[]) => from.reduce((sum, level) => sum + level.polymarketQty, 0);
+
+    const scale = Math.min(
+        1,
+        polySpec.maxQty / opportunity.polymarketQty,
+        proboSpec.maxQty / opportunity.proboQty,
+        levels.length > 0 ? levelQty(reachable) / levelQty(levels) : 1
+    );
+    const polymarketQty = roundQty(opportunity.polymarketQty * scale, polySpec.qtyStep);
+    const proboQty = roundQty(opportunity.proboQty * scale, proboSpec.qtyStep);
+
+    if (polymarketQty < polySpec.minQty || proboQty < proboSpec.minQty) {
+        return {
+            ...opportunity,
+            isViable: false,
+            reason: `Order size below venue minimum: ${polymarketQty} on Polymarket (min ${polySpec.minQty}), ` +
+                `${proboQty} on Probo (min ${proboSpec.minQty})`
+        };
+    }
+
+    // Already on every grid, so the original pricing stands
+    if (polymarketQty === opportunity.polymarketQty && proboQty === opportunity.proboQty &&
+        polymarketPrice === opportunity.polymarketPrice && proboPrice === opportunity.proboPrice) {
+        return opportunity;
+    }
+
+    const averageOf = (price: (level: ArbLevel) => number, qty: (level: ArbLevel) => number) =>
+        reachable.reduce((sum, level) => sum + price(level) * qty(level), 0) / reachable.reduce((sum, level) => sum + qty(level), 0);
+    const polymarketAvgPrice = reachable.length > 0
+        ? averageOf(level => level.polymarketPrice, level => level.polymarketQty)
+        : opportunity.polymarketAvgPrice;
+    const proboAvgPrice = reachable.length > 0
+        ? averageOf(level => level.proboPrice, level => level.proboQty)
+        : opportunity.proboAvgPrice;
+
+    // A moved limit can fill anywhere up to it, so the trade must still pay at the limit itself.
+    // Rounding the legs separately can also leave them slightly unbalanced, which the payout reflects
+    const costs = calculateCosts(
+        polymarketQty,
+        polymarketPrice !== opportunity.polymarketPrice ? polymarketPrice : polymarketAvgPrice ?? polymarketPrice,
+        proboQty,
+        proboPrice !== opportunity.proboPrice ? proboPrice : proboAvgPrice ?? proboPrice,
+        true,
+        opportunity.fxRate ?? config.dollarPriceInr
+    );
+
+    const rounded: ArbOpportunity = {
+        ...opportunity,
+        polymarketQty,
+        proboQty,
+        polymarketPrice,
+        proboPrice,
+        polymarketAvgPrice,
+        proboAvgPrice,
+        levels: opportunity.levels && reachable,
+        costs,
+        grossProfitPercent: costs.grossProfitPercent,
+        profitPercent: costs.netProfitPercent
+    };
+
+    if (costs.netProfitPercent < minProfitPercent) {
+        return {
+            ...rounded,
+            isViable: false,
+            reason: `Profit after rounding to venue tick and size rules is ${costs.netProfitPercent.toFixed(2)}%, below the minimum`
+        };
+    }
+
+    return rounded;
+}
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import { applyFill, positionKey, toLedgerFill } from "./ledger";
+import { Exchange, LedgerFill, MarketPair, OrderSide, Position } from "../types";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        proboYesSide: "buy",
+        proboNoSide: "sell",
+        proboFeePercent: 2,
+        proboGstPercent: 18,
+        polymarketFeeRateBps: 0,
+        polygonGasCostUsd: 0.01,
+        logLevel: "error"
+    })
+}));
+
+describe("Position Ledger Tests", () => {
+    const pair: MarketPair = {
+        id: "election",
+        proboEventId: 111,
+        polymarketYesTokenId: "222",
+        polymarketNoTokenId: "333",
+        enabled: true,
+        tradingEnabled: true
+    };
+
+    const fill = (overrides: Partial<LedgerFill>): LedgerFill => ({
+        exchange: Exchange.POLYMARKET,
+        marketId: "222",
+        outcome: "yes",
+        pairId: "election",
+        side: OrderSide.BUY,
+        qty: 100,
+        price: 0.6,
+        fxRate: 85,
+        timestamp: "2026-01-01T00:00:00.000Z",
+        ...overrides
+    });
+
+    test("toLedgerFill should map Probo offer types and Polymarket tokens to outcomes", () => {
+        expect(toLedgerFill(pair, Exchange.PROBO, 111, OrderSide.SELL, 10, 4, 85)).toMatchObject({
+            marketId: "111",
+            outcome: "no",
+            side: OrderSide.BUY
+        });
+        expect(toLedgerFill(pair, Exchange.POLYMARKET, "333", OrderSide.SELL, 10, 0.4, 85)).toMatchObject({
+            outcome: "no",
+            side: OrderSide.SELL
+        });
+        expect(toLedgerFill(pair, Exchange.POLYMARKET, "222", OrderSide.BUY, 10, 0.6, 85).outcome).toBe("yes");
+    });
+
+    test("applyFill should accumulate shares and cost basis in every currency", () => {
+        const positions: Record<string, Position> = {};
+
+        applyFill(positions, fill({}));
+        const position = applyFill(positions, fill({ qty: 50, price: 0.9, fxRate: 86 }));
+
+        expect(position.shares).toBe(150);
+        expect(position.costBasisNative).toBeCloseTo(105);
+        expect(position.costBasisUsd).toBeCloseTo(105);
+        expect(position.costBasisInr).toBeCloseTo(60 * 85 + 45 * 86);
+        expect(positions[positionKey(Exchange.POLYMARKET, "222", "yes")]).toBe(position);
+    });
+
+    test("applyFill should convert Probo INR cost into USD", () => {
+        const positions: Record<string, Position> = {};
+
+        const position = applyFill(positions, fill({ exchange: Exchange.PROBO, marketId: "111", qty: 85, price: 4 }));
+
+        expect(position.costBasisInr).toBeCloseTo(340);
+        expect(position.costBasisUsd).toBeCloseTo(4);
+        // 2% fee on ₹340 plus 18% GST on the fee
+        expect(position.feesNative).toBeCloseTo(8.024);
+    });
+
+    test("applyFill should take sells off at average cost and book the profit", () => {
+        const positions: Record<string, Position> = {};
+        applyFill(positions, fill({}));
+
+        const position = applyFill(positions, fill({ side: OrderSide.SELL, qty: 40, price: 0.7 }));
+
+        expect(position.shares).toBe(60);
+        expect(position.costBasisNative).toBeCloseTo(36);
+        expect(position.realisedPnlNative).toBeCloseTo(4);
+
+        const closed = applyFill(positions, fill({ side: OrderSide.SELL, qty: 100, price: 0.5 }));
+        expect(closed.shares).toBe(0);
+        expect(closed.costBasisInr).toBeCloseTo(0);
+        expect(closed.realisedPnlNative).toBeCloseTo(-2);
+    });
+});
@@ -0,0 +1,113 @@
+// Position ledger: shares and cost basis per exchange, market and outcome
+import { Exchange, LedgerFill, MarketPair, OrderSide, Outcome, Position } from '../types';
+import { getConfig } from '../config';
+import { getFeeSchedule } from './costs';
+
+/**
+ * Key a position is stored under
+ * @param exchange The exchange
+ * @param marketId The market ID on that exchange
+ * @param outcome The outcome held
+ * @returns The position key
+ */
+export function positionKey(exchange: Exchange, marketId: string | number, outcome: Outcome): string {
+    return `${exchange}:${marketId}:${outcome}`;
+}
+
+/**
+ * Describe an order on a market pair as a ledger fill. Probo orders always buy
+ * the outcome named by their offer type, so a Probo "sell" of the YES offer is
+ * a purchase of NO; Polymarket orders buy or sell the token itself.
+ * @param pair The market pair the order was on
+ * @param exchange The exchange
+ * @param marketId The market ID the order was sent to
+ * @param side The order side as sent
+ * @param qty Quantity filled
+ * @param price Average fill price
+ * @param fxRate USD/INR rate at the time of the fill
+ * @param orderId The order ID
+ * @returns The ledger fill
+ */
+export function toLedgerFill(
+    pair: MarketPair,
+    exchange: Exchange,
+    marketId: string | number,
+    side: OrderSide,
+    qty: number,
+    price: number,
+    fxRate: number,
+    orderId?: string
+): LedgerFill {
+    const config = getConfig();
+    const base = {
+        exchange,
+        marketId: String(marketId),
+        pairId: pair.id,
+        qty,
+        price,
+        fxRate,
+        orderId,
+        timestamp: new Date().toISOString()
+    };
+
+    if (exchange === Exchange.PROBO) {
+        return { ...base, outcome: side === config.proboYesSide ? 'yes' : 'no', side: OrderSide.BUY };
+    }
+
+    return {
+        ...base,
+        outcome: String(marketId) === String(pair.polymarketNoTokenId) ? 'no' : 'yes',
+        side
+    };
+}
+
+/**
+ * Book a fill against the positions it belongs to
+ * @param positions Current positions, keyed by positionKey
+ * @param fill The confirmed fill
+ * @returns The updated position
+ */
+export function applyFill(positions: Record<string, Position>, fill: LedgerFill): Position {
+    const key = positionKey(fill.exchange, fill.marketId, fill.outcome);
+    const position: Position = positions[key] || {
+        exchange: fill.exchange,
+        marketId: fill.marketId,
+        outcome: fill.outcome,
+        pairId: fill.pairId,
+        shares: 0,
+        costBasisNative: 0,
+        costBasisInr: 0,
+        costBasisUsd: 0,
+        realisedPnlNative: 0,
+        feesNative: 0,
+        updatedAt: fill.timestamp
+    };
+
+    const schedule = getFeeSchedule(fill.exchange);
+    const fee = fill.qty * fill.price * schedule.feePercent / 100;
+    // Older ledgers predate fee tracking
+    position.feesNative = (position.feesNative || 0) + fee * (1 + schedule.taxOnFeePercent / 100) + schedule.fixedCostPerOrder;
+
+    if (fill.side === OrderSide.BUY) {
+        const costNative = fill.qty * fill.price;
+        const isUsd = fill.exchange === Exchange.POLYMARKET;
+        position.shares += fill.qty;
+        position.costBasisNative += costNative;
+        position.costBasisInr += isUsd ? costNative * fill.fxRate : costNative;
+        position.costBasisUsd += isUsd ? costNative : costNative / fill.fxRate;
+    } else {
+        // Sells come off at average cost; selling more than is held is capped
+        const qty = Math.min(fill.qty, position.shares);
+        const share = position.shares > 0 ? qty / position.shares : 0;
+        position.realisedPnlNative += qty * fill.price - position.costBasisNative * share;
+        position.costBasisNative -= position.costBasisNative * share;
+        position.costBasisInr -= position.costBasisInr * share;
+        position.costBasisUsd -= position.costBasisUsd * share;
+        position.shares -= qty;
+    }
+
+    position.pairId = position.pairId || fill.pairId;
+    position.updatedAt = fill.timestamp;
+    positions[key] = position;
+    return position;
+}
@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    createFileSink,
+    createMemorySink,
+    getLogContext,
+    Logger,
+    newCorrelationId,
+    redact,
+    withLogContext
+} from "./logger";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        proboAuthToken: "probo-secret-token",
+        ethPrivateKey: "0xdeadbeefdeadbeef",
+        polymarketApiKey: "",
+        logFile: "",
+        logLevel: "error"
+    })
+}));
+
+describe("Logger Tests", () => {
+    test("should write one entry per call at or above the level, changeable at runtime", () => {
+        const sink = createMemorySink();
+        const logger = new Logger("warn", [sink]);
+
+        logger.info("ignored");
+        logger.warn("Depth fetch slow", { latencyMs: 1200 });
+        logger.setLevel("debug");
+        logger.debug("now shown");
+
+        expect(sink.entries.map(entry => [entry.level, entry.message])).toEqual([
+            ["warn", "Depth fetch slow"],
+            ["debug", "now shown"]
+        ]);
+        expect(sink.entries[0].data).toEqual({ latencyMs: 1200 });
+        expect(Date.parse(sink.entries[0].timestamp)).not.toBeNaN();
+        expect(logger.getLevel()).toBe("debug");
+    });
+
+    test("should carry correlation IDs across awaits and nested contexts", async () => {
+        const sink = createMemorySink();
+        const logger = new Logger("info", [sink]);
+        const cycleId = newCorrelationId("cycle");
+
+        await withLogContext({ cycleId }, async () => {
+            logger.info("cycle started");
+            await Promise.all(["poly", "probo"].map(leg => withLogContext({ opportunityId: "opp-1" }, async () => {
+                await new Promise(resolve => setTimeout(resolve, 5));
+                logger.info(`${leg} leg placed`);
+            })));
+        });
+        logger.info("between cycles");
+
+        expect(cycleId).toMatch(/^cycle-[0-9a-f]{8}$/);
+        expect(sink.entries.map(({ message, cycleId, opportunityId }) => ({ message, cycleId, opportunityId }))).toEqual([
+            { message: "cycle started", cycleId, opportunityId: undefined },
+            { message: "poly leg placed", cycleId, opportunityId: "opp-1" },
+            { message: "probo leg placed", cycleId, opportunityId: "opp-1" },
+            { message: "between cycles", cycleId: undefined, opportunityId: undefined }
+        ]);
+        expect(getLogContext()).toEqual({});
+    });
+
+    test("should redact secrets by key and by value, and serialise errors", () => {
+        const error = Object.assign(new Error("Request failed with token probo-secret-token"), {
+            response: { status: 401, data: { message: "Unauthorized" } }
+        });
+        const payload: any = {
+            headers: { Authorization: "Bearer abc", POLY_API_KEY: "key", POLY_PASSPHRASE: "pass" },
+            proboAuthToken: "probo-secret-token",
+            privateKey: "0xdeadbeefdeadbeef",
+            polymarketTokenId: "6789",
+            note: "signed with 0xdeadbeefdeadbeef",
+            error
+        };
+        payload.self = payload;
+
+        const redacted = redact(payload) as any;
+
+        expect(redacted.headers).toEqual({
+            Authorization: "[REDACTED]",
+            POLY_API_KEY: "[REDACTED]",
+            POLY_PASSPHRASE: "[REDACTED]"
+        });
+        expect(redacted.proboAuthToken).toBe("[REDACTED]");
+        expect(redacted.privateKey).toBe("[REDACTED]");
+        expect(redacted.polymarketTokenId).toBe("6789");
+        expect(redacted.note).toBe("signed with [REDACTED]");
+        expect(redacted.error).toMatchObject({
+            name: "Error",
+            message: "Request failed with token [REDACTED]",
+            status: 401,
+            response: { message: "Unauthorized" }
+        });
+        expect(redacted.self).toBe("[Circular]");
+        expect(JSON.stringify(redacted)).not.toMatch(/probo-secret-token|deadbeef/);
+    });
+
+    test("should append JSON lines to a file and rotate it by size", () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "logger-"));
+        const filePath = path.join(dir, "logs", "bot.log");
+        const logger = new Logger("info", [createFileSink(filePath, 200, 2)]);
+
+        for (let index = 0; index < 8; index++) {
+            logger.info(`line ${index}`, { index });
+        }
+
+        const files = fs.readdirSync(path.dirname(filePath)).sort();
+        expect(files).toEqual(["bot.log", "bot.log.1", "bot.log.2"]);
+
+        const live = fs.readFileSync(filePath, "utf8").trim().split("\n").map(line => JSON.parse(line));
+        expect(live[live.length - 1]).toMatchObject({ level: "info", message: "line 7", data: { index: 7 } });
+        for (const file of files) {
+            expect(fs.statSync(path.join(path.dirname(filePath), file)).size).toBeLessThanOrEqual(200);
+        }
+
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+});
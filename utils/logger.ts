@@ -1,79 +1,333 @@
-// Logger utility for the arbitrage bot
+// Logger utility for the arbitrage bot: one JSON object per line, fanned out to sinks
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
 import { getConfig } from '../config';
 
-enum LogLevel {
-    DEBUG = 0,
-    INFO = 1,
-    WARN = 2,
-    ERROR = 3
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+    debug: 0,
+    info: 1,
+    warn: 2,
+    error: 3
+};
+
+/** Correlation IDs attached to every line logged while they are in scope */
+export interface LogContext {
+    /** One polling cycle, or one evaluation of a pair on a book change */
+    cycleId?: string;
+    /** One priced opportunity, including both legs and any recovery */
+    opportunityId?: string;
+}
+
+export interface LogEntry extends LogContext {
+    timestamp: string;
+    level: LogLevel;
+    message: string;
+    data?: unknown;
+}
+
+/** Destination for log entries. Entries arrive already redacted */
+export interface LogSink {
+    write(entry: LogEntry): void;
+}
+
+export interface MemorySink extends LogSink {
+    entries: LogEntry[];
+    clear(): void;
+}
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values are never logged, whatever they hold. Token IDs are market identifiers, not secrets
+const SECRET_KEY_PATTERN = /^token$|auth.?token|access.?token|secret|passphrase|password|private.?key|api.?key|authorization|signature|cookie/i;
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Create a short random ID to correlate log lines by
+ * @param prefix What the ID identifies, e.g. `cycle` or `opp`
+ * @returns The ID
+ */
+export function newCorrelationId(prefix: string): string {
+    return `${prefix}-${randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Run a function with correlation IDs attached to everything it logs,
+ * including from callbacks and promises it starts. Nested calls add to the
+ * outer context.
+ * @param context IDs to attach
+ * @param fn The function to run
+ * @returns What the function returned
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+    return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
 }
 
-class Logger {
-    private logLevel: LogLevel;
-    
-    constructor() {
-        const config = getConfig();
-        switch (config.logLevel) {
-            case 'debug':
-                this.logLevel = LogLevel.DEBUG;
-                break;
-            case 'info':
-                this.logLevel = LogLevel.INFO;
-                break;
-            case 'warn':
-                this.logLevel = LogLevel.WARN;
-                break;
-            case 'error':
-                this.logLevel = LogLevel.ERROR;
-                break;
-            default:
-                this.logLevel = LogLevel.INFO;
+/**
+ * Correlation IDs in scope for the current call
+ * @returns The context, empty outside withLogContext
+ */
+export function getLogContext(): LogContext {
+    return contextStorage.getStore() || {};
+}
+
+/**
+ * Configured credentials, so they can be scrubbed from any string they leak into
+ * @returns The non-empty secret values
+ */
+function getSecretValues(): string[] {
+    const config = getConfig();
+    return [
+        config.proboAuthToken,
+        config.ethPrivateKey,
+        config.polymarketApiKey,
+        config.polymarketApiSecret,
+        config.polymarketPassPhrase
+    ].filter((secret): secret is string => typeof secret === 'string' && secret.length >= 8);
+}
+
+/**
+ * Copy a log payload with secrets removed. Values under secret-looking keys
+ * are replaced whole, and configured credentials are cut out of any string.
+ * Errors become plain objects, since their message and stack don't serialise.
+ * @param value The payload
+ * @param secrets Secret values to scrub from strings
+ * @returns A JSON-safe copy
+ */
+export function redact(value: unknown, secrets: string[] = getSecretValues()): unknown {
+    const seen = new WeakSet<object>();
+
+    const visit = (current: unknown): unknown => {
+        if (typeof current === 'string') {
+            return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), current);
         }
-    }
-    
-    private formatMessage(level: string, message: string, data?: any): string {
-        const timestamp = new Date().toISOString();
-        let logMessage = `[${timestamp}] [${level}] ${message}`;
-        
-        if (data) {
-            if (typeof data === 'object') {
-                try {
-                    const jsonStr = JSON.stringify(data, null, 2);
-                    logMessage += `\n${jsonStr}`;
-                } catch (err) {
-                    logMessage += ` ${data}`;
-                }
+        if (typeof current === 'bigint') {
+            return current.toString();
+        }
+        if (current === null || typeof current !== 'object') {
+            return current;
+        }
+        if (seen.has(current)) {
+            return '[Circular]';
+        }
+        seen.add(current);
+
+        if (current instanceof Error) {
+            const error = current as Error & { code?: string; response?: { status?: number; data?: unknown } };
+            return visit({
+                name: error.name,
+                message: error.message,
+                code: error.code,
+                status: error.response?.status,
+                response: error.response?.data,
+                stack: error.stack
+            });
+        }
+        if (current instanceof Date) {
+            return current.toISOString();
+        }
+        if (Array.isArray(current)) {
+            return current.map(visit);
+        }
+
+        const copy: Record<string, unknown> = {};
+        for (const [key, field] of Object.entries(current)) {
+            if (field === undefined) {
+                continue;
+            }
+            copy[key] = SECRET_KEY_PATTERN.test(key) ? REDACTED : visit(field);
+        }
+        return copy;
+    };
+
+    return visit(value);
+}
+
+/**
+ * Sink writing each entry to stdout, or stderr for warnings and errors
+ * @returns The sink
+ */
+export function createConsoleSink(): LogSink {
+    return {
+        write(entry: LogEntry): void {
+            const line = JSON.stringify(entry);
+            if (LEVEL_ORDER[entry.level] >= LEVEL_ORDER.warn) {
+                console.error(line);
             } else {
-                logMessage += ` ${data}`;
+                console.log(line);
             }
         }
-        
-        return logMessage;
-    }
-    
-    debug(message: string, data?: any): void {
-        if (this.logLevel <= LogLevel.DEBUG) {
-            console.log(this.formatMessage('DEBUG', message, data));
+    };
+}
+
+/**
+ * Sink appending entries to a file, rotated by size: `bot.log` moves to
+ * `bot.log.1`, `bot.log.1` to `bot.log.2` and so on, dropping the oldest.
+ * Writes are synchronous so nothing is lost when the process exits.
+ * @param filePath Path of the live log file
+ * @param maxBytes Rotate once the file would grow past this size
+ * @param maxFiles Number of rotated files to keep
+ * @returns The sink
+ */
+export function createFileSink(
+    filePath = getConfig().logFile,
+    maxBytes = getConfig().logMaxFileBytes,
+    maxFiles = getConfig().logMaxFiles
+): LogSink {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    let size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+    let failed = false;
+
+    const rotate = () => {
+        for (let index = maxFiles - 1; index >= 1; index--) {
+            const from = `${filePath}.${index}`;
+            if (fs.existsSync(from)) {
+                fs.renameSync(from, `${filePath}.${index + 1}`);
+            }
         }
-    }
-    
-    info(message: string, data?: any): void {
-        if (this.logLevel <= LogLevel.INFO) {
-            console.log(this.formatMessage('INFO', message, data));
+        if (maxFiles > 0) {
+            fs.renameSync(filePath, `${filePath}.1`);
+        } else {
+            fs.unlinkSync(filePath);
         }
-    }
-    
-    warn(message: string, data?: any): void {
-        if (this.logLevel <= LogLevel.WARN) {
-            console.warn(this.formatMessage('WARN', message, data));
+        size = 0;
+    };
+
+    return {
+        write(entry: LogEntry): void {
+            const line = JSON.stringify(entry) + '\n';
+            const bytes = Buffer.byteLength(line);
+
+            // A failing disk should not stop trading, so this is reported once and skipped
+            try {
+                if (size > 0 && size + bytes > maxBytes) {
+                    rotate();
+                }
+                fs.appendFileSync(filePath, line);
+                size += bytes;
+                failed = false;
+            } catch (error) {
+                if (!failed) {
+                    console.error(`Failed to write log file ${filePath}: ${(error as Error).message}`);
+                }
+                failed = true;
+            }
         }
+    };
+}
+
+/**
+ * Sink keeping entries in memory, for tests
+ * @returns The sink, with the entries written so far
+ */
+export function createMemorySink(): MemorySink {
+    const entries: LogEntry[] = [];
+    return {
+        entries,
+        write(entry: LogEntry): void {
+            entries.push(entry);
+        },
+        clear(): void {
+            entries.length = 0;
+        }
+    };
+}
+
+/**
+ * Parse a level name, falling back to info for anything unknown
+ * @param level The level name
+ * @returns The log level
+ */
+function parseLevel(level: string | undefined): LogLevel {
+    const normalised = (level || '').toLowerCase();
+    return normalised in LEVEL_ORDER ? normalised as LogLevel : 'info';
+}
+
+export class Logger {
+    private level: LogLevel;
+    private sinks: LogSink[];
+
+    constructor(level: string | undefined, sinks: LogSink[]) {
+        this.level = parseLevel(level);
+        this.sinks = sinks;
+    }
+
+    /**
+     * Change the level for every line logged from now on
+     * @param level The new level; unknown names mean info
+     */
+    setLevel(level: string): void {
+        this.level = parseLevel(level);
+    }
+
+    getLevel(): LogLevel {
+        return this.level;
+    }
+
+    /**
+     * Send entries to another sink as well
+     * @param sink The sink to add
+     * @returns Removes the sink again
+     */
+    addSink(sink: LogSink): () => void {
+        this.sinks.push(sink);
+        return () => {
+            this.sinks = this.sinks.filter(existing => existing !== sink);
+        };
     }
-    
-    error(message: string, data?: any): void {
-        if (this.logLevel <= LogLevel.ERROR) {
-            console.error(this.formatMessage('ERROR', message, data));
+
+    private log(level: LogLevel, message: string, data?: unknown): void {
+        if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) {
+            return;
+        }
+
+        const entry: LogEntry = {
+            timestamp: new Date().toISOString(),
+            level,
+            message: redact(message) as string,
+            ...getLogContext()
+        };
+        if (data !== undefined) {
+            entry.data = redact(data);
+        }
+
+        for (const sink of this.sinks) {
+            sink.write(entry);
         }
     }
+
+    debug(message: string, data?: unknown): void {
+        this.log('debug', message, data);
+    }
+
+    info(message: string, data?: unknown): void {
+        this.log('info', message, data);
+    }
+
+    warn(message: string, data?: unknown): void {
+        this.log('warn', message, data);
+    }
+
+    error(message: string, data?: unknown): void {
+        this.log('error', message, data);
+    }
+}
+
+/**
+ * Sinks for the shared logger: the console, plus a rotating file when `LOG_FILE` is set
+ * @returns The sinks
+ */
+function createDefaultSinks(): LogSink[] {
+    const config = getConfig();
+    const sinks = [createConsoleSink()];
+    if (config.logFile) {
+        sinks.push(createFileSink(config.logFile, config.logMaxFileBytes, config.logMaxFiles));
+    }
+    return sinks;
 }
 
-export const logger = new Logger();
+export const logger = new Logger(getConfig().logLevel, createDefaultSinks());
@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+import { checkBookAge, createMarketDataFeed, depthEquals } from "./marketData";
+import { startMarketStreamStub, StubMarketStream } from "../mocks/stubServers";
+import { BookSnapshot, Depth, Exchange, ExchangeAdapter, MarketDataFeed } from "../types";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        polymarketWsUrl: "",
+        wsReconnectDelayMs: 10,
+        pollMinIntervalMs: 5,
+        pollMaxIntervalMs: 40,
+        maxBookAgeMs: 10000,
+        maxBookSkewMs: 2000,
+        logLevel: "error"
+    })
+}));
+
+describe("Market Data Feed Tests", () => {
+    const fakeExchange = (exchange: Exchange, getDepth: () => Promise<Depth>): ExchangeAdapter => ({
+        exchange,
+        getDepth: jest.fn(getDepth),
+        createOrder: jest.fn(),
+        getOrderStatus: jest.fn(),
+        cancelOrder: jest.fn(),
+        cancelAllOrders: jest.fn(),
+        getBalance: jest.fn()
+    });
+
+    // Resolves with the next change the feed reports
+    const nextChange = (feed: MarketDataFeed) => new Promise<BookSnapshot>(resolve => {
+        const unsubscribe = feed.onChange(book => {
+            unsubscribe();
+            resolve(book);
+        });
+    });
+
+    test("depthEquals should compare levels by value", () => {
+        expect(depthEquals({ buy: { "4": "100" }, sell: {} }, { buy: { "4": "100.0" }, sell: {} })).toBe(true);
+        expect(depthEquals({ buy: { "4": "100" }, sell: {} }, { buy: { "4": "90" }, sell: {} })).toBe(false);
+        expect(depthEquals({ buy: { "4": "100" }, sell: {} }, { buy: { "4": "100", "4.5": "1" }, sell: {} })).toBe(false);
+    });
+
+    test("checkBookAge should reject old books and books fetched far apart", () => {
+        const now = Date.parse("2026-01-01T00:00:30.000Z");
+        const book = (fetchedAt?: string): Depth => ({ buy: {}, sell: {}, fetchedAt });
+
+        expect(checkBookAge(book("2026-01-01T00:00:29.000Z"), book("2026-01-01T00:00:30.000Z"), now)).toBeNull();
+        expect(checkBookAge(book("2026-01-01T00:00:10.000Z"), book("2026-01-01T00:00:30.000Z"), now))
+            .toBe("Stale polymarket book: fetched 20000ms ago (max 10000ms)");
+        expect(checkBookAge(book("2026-01-01T00:00:30.000Z"), book("2026-01-01T00:00:25.000Z"), now))
+            .toBe("Books fetched 5000ms apart (max 2000ms)");
+    });
+
+    test("checkBookAge should reject a book with no fetch time", () => {
+        const now = Date.parse("2026-01-01T00:00:30.000Z");
+        const book = (fetchedAt?: string): Depth => ({ buy: {}, sell: {}, fetchedAt });
+
+        expect(checkBookAge(book(), book("2026-01-01T00:00:30.000Z"), now)).toBe("No fetch time on polymarket book");
+        expect(checkBookAge(book("2026-01-01T00:00:30.000Z"), book(), now)).toBe("No fetch time on probo book");
+        expect(checkBookAge(book("not a date"), book("2026-01-01T00:00:30.000Z"), now))
+            .toBe("No fetch time on polymarket book");
+    });
+
+    test("should poll adaptively and only report books that changed", async () => {
+        let depth: Depth = { buy: { "4": "100" }, sell: { "6": "50" } };
+        const probo = fakeExchange(Exchange.PROBO, async () => depth);
+        const polymarket = fakeExchange(Exchange.POLYMARKET, async () => ({ buy: {}, sell: {} }));
+        const onResult = jest.fn();
+        const feed = createMarketDataFeed({ polymarket, probo }, { onResult });
+        const changes: BookSnapshot[] = [];
+        feed.onChange(book => changes.push(book));
+
+        feed.watch(Exchange.PROBO, 111);
+        feed.watch(Exchange.PROBO, 111);
+        await new Promise(resolve => setTimeout(resolve, 150));
+        const pollsWhileUnchanged = (probo.getDepth as jest.Mock).mock.calls.length;
+
+        // Unchanged polls keep confirming the book without a new sequence number
+        const confirmed = feed.getBook(Exchange.PROBO, 111) as BookSnapshot;
+        expect(confirmed.sequence).toBe(1);
+        expect(Date.parse(confirmed.confirmedAt)).toBeGreaterThan(Date.parse(confirmed.receivedAt));
+
+        depth = { buy: { "4": "80" }, sell: { "6": "50" } };
+        const changed = await nextChange(feed);
+        await feed.close();
+
+        expect(changes[0].sequence).toBe(1);
+        expect(changed.sequence).toBe(2);
+        expect(changed.depth.buy).toEqual({ "4": "80" });
+        expect(changed.receivedAt).toBeDefined();
+        expect(feed.getBook(Exchange.PROBO, 111)?.sequence).toBe(2);
+        // Backing off to 40ms means far fewer than 150/5 polls, from a single poller
+        expect(pollsWhileUnchanged).toBeGreaterThan(2);
+        expect(pollsWhileUnchanged).toBeLessThan(15);
+        expect(onResult).toHaveBeenCalledWith(Exchange.PROBO, true);
+    });
+
+    test("should stop polling and forget the book of an unwatched instrument", async () => {
+        const probo = fakeExchange(Exchange.PROBO, async () => ({ buy: { "4": "100" }, sell: {} }));
+        const polymarket = fakeExchange(Exchange.POLYMARKET, async () => ({ buy: {}, sell: {} }));
+        const feed = createMarketDataFeed({ polymarket, probo });
+
+        feed.watch(Exchange.PROBO, 111);
+        await nextChange(feed);
+        feed.unwatch(Exchange.PROBO, 111);
+        feed.unwatch(Exchange.PROBO, 222);
+        const polls = (probo.getDepth as jest.Mock).mock.calls.length;
+        await new Promise(resolve => setTimeout(resolve, 100));
+        await feed.close();
+
+        expect(feed.getBook(Exchange.PROBO, 111)).toBeNull();
+        expect((probo.getDepth as jest.Mock).mock.calls.length).toBe(polls);
+    });
+
+    describe("Polymarket stream", () => {
+        let stub: StubMarketStream;
+        let feed: MarketDataFeed;
+
+        beforeEach(async () => {
+            stub = await startMarketStreamStub();
+            const unused = fakeExchange(Exchange.POLYMARKET, async () => {
+                throw new Error("should stream, not poll");
+            });
+            feed = createMarketDataFeed(
+                { polymarket: unused, probo: fakeExchange(Exchange.PROBO, async () => ({ buy: {}, sell: {} })) },
+                { polymarketWsUrl: stub.url }
+            );
+        });
+
+        afterEach(async () => {
+            await feed.close();
+            await stub.close();
+        });
+
+        test("should build the book from a snapshot and apply level changes", async () => {
+            feed.watch(Exchange.POLYMARKET, "222");
+            await stub.waitForSubscriptions(1);
+            expect(stub.subscriptions[0]).toEqual(["222"]);
+
+            // Changes before the first snapshot can't be applied and are dropped
+            stub.sendPriceChange("222", [{ price: "0.41", size: "5", side: "SELL" }]);
+            const snapshot = nextChange(feed);
+            stub.sendBook("222", { buy: { "0.38": "100" }, sell: { "0.40": "10", "0.42": "20" } }, 1767225600000);
+            const first = await snapshot;
+
+            expect(first.sequence).toBe(1);
+            expect(first.depth).toEqual({ buy: { "0.38": "100" }, sell: { "0.40": "10", "0.42": "20" } });
+            expect(first.exchangeTimestamp).toBe("2026-01-01T00:00:00.000Z");
+
+            const update = nextChange(feed);
+            stub.sendRaw("not json");
+            stub.sendPriceChange("333", [{ price: "0.50", size: "1", side: "SELL" }]);
+            stub.sendPriceChange("222", [
+                { price: "0.40", size: "0", side: "SELL" },
+                { price: "0.39", size: "50", side: "BUY" }
+            ]);
+            const second = await update;
+
+            expect(second.sequence).toBe(2);
+            expect(second.depth).toEqual({ buy: { "0.38": "100", "0.39": "50" }, sell: { "0.42": "20" } });
+            // Earlier snapshots are not changed by later updates
+            expect(first.depth.sell["0.40"]).toBe("10");
+        });
+
+        test("should resubscribe after the connection drops", async () => {
+            feed.watch(Exchange.POLYMARKET, "222");
+            await stub.waitForSubscriptions(1);
+
+            stub.dropConnections();
+            await stub.waitForSubscriptions(2);
+            const resynced = nextChange(feed);
+            stub.sendBook("222", { buy: { "0.37": "10" }, sell: {} });
+
+            expect((await resynced).depth).toEqual({ buy: { "0.37": "10" }, sell: {} });
+            expect(stub.subscriptions[1]).toEqual(["222"]);
+        });
+    });
+});
@@ -0,0 +1,382 @@
+// Market data: live local books per instrument from websocket streams or adaptive polling
+import WebSocket from 'ws';
+import { ArbExchanges, BookSnapshot, Depth, Exchange, ExchangeAdapter, MarketDataFeed } from '../types';
+import { getConfig } from '../config';
+import { logger } from './logger';
+
+// Polymarket drops market channel connections that stay silent, and each
+// PONG confirms the books are still current, so this stays well under MAX_BOOK_AGE_MS
+const WS_PING_INTERVAL_MS = 5000;
+
+/**
+ * Update handed from a stream or poller to the feed
+ */
+type BookUpdate = { depth: Depth; exchangeTimestamp?: string };
+
+/**
+ * Callbacks from a stream or poller to the feed
+ */
+type BookHandlers = {
+    /** A new book that differs from the last one */
+    onUpdate(update: BookUpdate): void;
+    /** The last book is still current */
+    onConfirm(): void;
+    /** Whether a fetch or the stream connection succeeded */
+    onResult?(ok: boolean): void;
+};
+
+/**
+ * A running stream or poller for one instrument
+ */
+type BookSource = { close(): void };
+
+export interface MarketDataOptions {
+    polymarketWsUrl?: string;
+    wsReconnectDelayMs?: number;
+    pollMinIntervalMs?: number;
+    pollMaxIntervalMs?: number;
+    /** Told about every fetch or stream failure and recovery, e.g. for the circuit breaker */
+    onResult?: (exchange: Exchange, ok: boolean) => void;
+}
+
+/**
+ * Whether two books hold the same levels
+ * @param a First book
+ * @param b Second book
+ * @returns True if every price and quantity matches
+ */
+export function depthEquals(a: Depth, b: Depth): boolean {
+    const sameSide = (x: Record<string, string>, y: Record<string, string>) => {
+        const keys = Object.keys(x);
+        return keys.length === Object.keys(y).length && keys.every(key => Number(x[key]) === Number(y[key]));
+    };
+    return sameSide(a.buy, b.buy) && sameSide(a.sell, b.sell);
+}
+
+/**
+ * Reason not to trade on a pair of books: either was fetched too long ago, or
+ * the two were fetched too far apart. Both are measured on fetch times from
+ * our own clock; exchange timestamps are kept for analysis only. A book without
+ * a fetch time cannot be shown to be fresh, so it is rejected.
+ * @param polymarket The Polymarket book
+ * @param probo The Probo book
+ * @param now Current time, in ms
+ * @returns The rejection reason, or null if both books are fresh
+ */
+export function checkBookAge(polymarket: Depth, probo: Depth, now = Date.now()): string | null {
+    const config = getConfig();
+    const fetchedAt = {
+        [Exchange.POLYMARKET]: polymarket.fetchedAt ? Date.parse(polymarket.fetchedAt) : null,
+        [Exchange.PROBO]: probo.fetchedAt ? Date.parse(probo.fetchedAt) : null
+    };
+
+    for (const exchange of [Exchange.POLYMARKET, Exchange.PROBO]) {
+        const time = fetchedAt[exchange];
+        if (time === null || Number.isNaN(time)) {
+            return `No fetch time on ${exchange} book`;
+        }
+        if (now - time > config.maxBookAgeMs) {
+            return `Stale ${exchange} book: fetched ${now - time}ms ago (max ${config.maxBookAgeMs}ms)`;
+        }
+    }
+
+    const polymarketTime = fetchedAt[Exchange.POLYMARKET] as number;
+    const proboTime = fetchedAt[Exchange.PROBO] as number;
+    if (Math.abs(polymarketTime - proboTime) > config.maxBookSkewMs) {
+        return `Books fetched ${Math.abs(polymarketTime - proboTime)}ms apart (max ${config.maxBookSkewMs}ms)`;
+    }
+
+    return null;
+}
+
+/**
+ * Poll an instrument's book, speeding up to the minimum interval after a
+ * change and backing off towards the maximum while it stays the same
+ * @param adapter Exchange to fetch the book from
+ * @param marketId The instrument
+ * @param handlers Told about changed books, unchanged polls and failures
+ * @param minIntervalMs Fastest poll
+ * @param maxIntervalMs Slowest poll
+ * @returns The running poller
+ */
+export function createPollingSource(
+    adapter: ExchangeAdapter,
+    marketId: string | number,
+    handlers: BookHandlers,
+    minIntervalMs: number,
+    maxIntervalMs: number
+): BookSource {
+    let closed = false;
+    let timer: NodeJS.Timeout | undefined;
+    let last: Depth | null = null;
+    let intervalMs = minIntervalMs;
+
+    const poll = async () => {
+        try {
+            const depth = await adapter.getDepth(marketId);
+            handlers.onResult?.(true);
+            if (!last || !depthEquals(last, depth)) {
+                last = depth;
+                intervalMs = minIntervalMs;
+                if (!closed) {
+                    handlers.onUpdate({ depth: { buy: depth.buy, sell: depth.sell }, exchangeTimestamp: depth.exchangeTimestamp });
+                }
+            } else {
+                intervalMs = Math.min(maxIntervalMs, intervalMs * 2);
+                if (!closed) {
+                    handlers.onConfirm();
+                }
+            }
+        } catch (error) {
+            logger.warn(`Failed to poll ${adapter.exchange} book for ${marketId}`, error);
+            handlers.onResult?.(false);
+            intervalMs = Math.min(maxIntervalMs, intervalMs * 2);
+        }
+        if (!closed) {
+            timer = setTimeout(poll, intervalMs);
+        }
+    };
+    void poll();
+
+    return {
+        close() {
+            closed = true;
+            clearTimeout(timer);
+        }
+    };
+}
+
+/**
+ * Apply level updates to a book; a size of zero removes the level
+ * @param depth The book to update in place
+ * @param changes Price level changes, with BUY for bids and SELL for asks
+ */
+function applyLevelChanges(depth: Depth, changes: { price: string; size: string; side: string }[]): void {
+    for (const change of changes) {
+        const levels = String(change.side).toUpperCase() === 'BUY' ? depth.buy : depth.sell;
+        if (Number(change.size) > 0) {
+            levels[String(change.price)] = String(change.size);
+        } else {
+            delete levels[String(change.price)];
+        }
+    }
+}
+
+/**
+ * Convert a Polymarket millisecond timestamp to ISO format
+ * @param timestamp Milliseconds since the epoch, as a string or number
+ * @returns The ISO timestamp, or undefined if missing
+ */
+function toIsoTimestamp(timestamp: unknown): string | undefined {
+    const ms = Number(timestamp);
+    return timestamp !== undefined && Number.isFinite(ms) ? new Date(ms).toISOString() : undefined;
+}
+
+/**
+ * Follow a Polymarket token's book over the CLOB market channel. A `book`
+ * message replaces the local book and `price_change` messages update its
+ * levels; changes before the first snapshot are dropped. A dropped
+ * connection is reopened, and the snapshot sent on resubscribing resyncs it.
+ * Any message on the connection, including PONGs, confirms the book is current.
+ * @param url Market channel websocket URL
+ * @param tokenId The token
+ * @param handlers Told about book changes, confirmations and connection failures
+ * @param reconnectDelayMs Wait before reconnecting
+ * @returns The running stream
+ */
+export function createPolymarketStreamSource(
+    url: string,
+    tokenId: string,
+    handlers: BookHandlers,
+    reconnectDelayMs: number
+): BookSource {
+    let closed = false;
+    let socket: WebSocket | undefined;
+    let pingTimer: NodeJS.Timeout | undefined;
+    let reconnectTimer: NodeJS.Timeout | undefined;
+    let book: Depth | null = null;
+
+    const handleEvent = (event: any) => {
+        if (event?.event_type === 'book' && String(event.asset_id) === tokenId) {
+            book = { buy: {}, sell: {} };
+            applyLevelChanges(book, (event.bids ?? event.buys ?? []).map((level: any) => ({ ...level, side: 'BUY' })));
+            applyLevelChanges(book, (event.asks ?? event.sells ?? []).map((level: any) => ({ ...level, side: 'SELL' })));
+        } else if (event?.event_type === 'price_change' && book) {
+            // Newer messages carry per-asset changes; older ones one asset with `changes`
+            const changes = event.price_changes
+                ? event.price_changes.filter((change: any) => String(change.asset_id) === tokenId)
+                : String(event.asset_id) === tokenId ? event.changes ?? [] : [];
+            if (changes.length === 0) {
+                return;
+            }
+            applyLevelChanges(book, changes);
+        } else {
+            return;
+        }
+        handlers.onUpdate({
+            depth: { buy: { ...book.buy }, sell: { ...book.sell } },
+            exchangeTimestamp: toIsoTimestamp(event.timestamp)
+        });
+    };
+
+    const connect = () => {
+        socket = new WebSocket(url);
+
+        socket.on('open', () => {
+            logger.debug(`Subscribed to Polymarket book stream for ${tokenId}`);
+            handlers.onResult?.(true);
+            socket?.send(JSON.stringify({ type: 'market', assets_ids: [tokenId] }));
+            pingTimer = setInterval(() => socket?.send('PING'), WS_PING_INTERVAL_MS);
+        });
+
+        socket.on('message', (data: WebSocket.RawData) => {
+            if (book) {
+                handlers.onConfirm();
+            }
+            let message: any;
+            try {
+                message = JSON.parse(data.toString());
+            } catch (error) {
+                // PONG replies and anything else that isn't JSON
+                return;
+            }
+            for (const event of Array.isArray(message) ? message : [message]) {
+                handleEvent(event);
+            }
+        });
+
+        socket.on('error', (error: Error) => {
+            logger.warn(`Polymarket book stream for ${tokenId} failed`, error.message);
+            handlers.onResult?.(false);
+        });
+
+        socket.on('close', () => {
+            clearInterval(pingTimer);
+            // The book ages out until the snapshot sent on resubscribing replaces it
+            book = null;
+            if (!closed) {
+                logger.warn(`Polymarket book stream for ${tokenId} closed, reconnecting in ${reconnectDelayMs}ms`);
+                reconnectTimer = setTimeout(connect, reconnectDelayMs);
+            }
+        });
+    };
+    connect();
+
+    return {
+        close() {
+            closed = true;
+            clearInterval(pingTimer);
+            clearTimeout(reconnectTimer);
+            socket?.terminate();
+        }
+    };
+}
+
+/**
+ * Create a feed keeping a live local book for every watched instrument.
+ * Polymarket books are streamed when a websocket URL is configured; other
+ * books are polled adaptively. Every change gets the next sequence number
+ * for its instrument and is passed to the `onChange` listeners.
+ * @param exchanges Exchange adapters to poll
+ * @param options Stream and polling settings, defaulting to the config
+ * @returns The market data feed
+ */
+export function createMarketDataFeed(exchanges: ArbExchanges, options: MarketDataOptions = {}): MarketDataFeed {
+    const config = getConfig();
+    const polymarketWsUrl = options.polymarketWsUrl ?? config.polymarketWsUrl;
+    const wsReconnectDelayMs = options.wsReconnectDelayMs ?? config.wsReconnectDelayMs;
+    const pollMinIntervalMs = options.pollMinIntervalMs ?? config.pollMinIntervalMs;
+    const pollMaxIntervalMs = options.pollMaxIntervalMs ?? config.pollMaxIntervalMs;
+
+    const sources = new Map<string, BookSource>();
+    const books = new Map<string, BookSnapshot>();
+    const listeners = new Set<(book: BookSnapshot) => void>();
+    const keyOf = (exchange: Exchange, marketId: string | number) => `${exchange}:${marketId}`;
+
+    const adapterFor = (exchange: Exchange): ExchangeAdapter => {
+        const adapter = [exchanges.polymarket, exchanges.probo].find(candidate => candidate.exchange === exchange);
+        if (!adapter) {
+            throw new Error(`No exchange adapter for ${exchange}`);
+        }
+        return adapter;
+    };
+
+    return {
+        watch(exchange, marketId) {
+            const key = keyOf(exchange, marketId);
+            if (sources.has(key)) {
+                return;
+            }
+
+            const onUpdate = ({ depth, exchangeTimestamp }: BookUpdate) => {
+                const receivedAt = new Date().toISOString();
+                const book: BookSnapshot = {
+                    exchange,
+                    marketId,
+                    depth,
+                    sequence: (books.get(key)?.sequence ?? 0) + 1,
+                    exchangeTimestamp,
+                    receivedAt,
+                    confirmedAt: receivedAt
+                };
+                books.set(key, book);
+                for (const listener of listeners) {
+                    try {
+                        listener(book);
+                    } catch (error) {
+                        logger.error(`Book listener failed for ${key}`, error);
+                    }
+                }
+            };
+            // Snapshots already handed out are left as they were
+            const onConfirm = () => {
+                const book = books.get(key);
+                if (book) {
+                    books.set(key, { ...book, confirmedAt: new Date().toISOString() });
+                }
+            };
+            const handlers: BookHandlers = {
+                onUpdate,
+                onConfirm,
+                onResult: (ok) => options.onResult?.(exchange, ok)
+            };
+
+            sources.set(key, exchange === Exchange.POLYMARKET && polymarketWsUrl
+                ? createPolymarketStreamSource(polymarketWsUrl, String(marketId), handlers, wsReconnectDelayMs)
+                : createPollingSource(adapterFor(exchange), marketId, handlers, pollMinIntervalMs, pollMaxIntervalMs));
+            logger.info(`Watching ${exchange} book for ${marketId}`);
+        },
+
+        unwatch(exchange, marketId) {
+            const key = keyOf(exchange, marketId);
+            const source = sources.get(key);
+            if (!source) {
+                return;
+            }
+
+            source.close();
+            sources.delete(key);
+            books.delete(key);
+            logger.info(`Stopped watching ${exchange} book for ${marketId}`);
+        },
+
+        getBook(exchange, marketId) {
+            return books.get(keyOf(exchange, marketId)) ?? null;
+        },
+
+        onChange(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+
+        async close() {
+            for (const source of sources.values()) {
+                source.close();
+            }
+            sources.clear();
+            listeners.clear();
+        }
+    };
+}
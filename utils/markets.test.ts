@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getEnabledMarketPairs, loadMarketPairs } from "./markets";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        proboTokenId: 12345,
+        polymarketTokenId: "6789",
+        polymarketNoTokenId: "",
+        marketPairsPath: "",
+        logLevel: "error"
+    })
+}));
+
+describe("Market Pair Registry Tests", () => {
+    const writeRegistry = (fileName: string, content: string): string => {
+        const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "markets-")), fileName);
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    };
+
+    test("should fall back to the pair from the config without a registry file", () => {
+        const pairs = loadMarketPairs("");
+
+        expect(pairs).toHaveLength(1);
+        expect(pairs[0]).toMatchObject({ id: "default", proboEventId: 12345, polymarketYesTokenId: "6789" });
+    });
+
+    test("should load pairs from YAML with per-pair overrides and flags", () => {
+        const filePath = writeRegistry("markets.yaml", [
+            "pairs:",
+            "  - id: election",
+            "    proboEventId: 111",
+            "    polymarketYesTokenId: '222'",
+            "    polymarketNoTokenId: '333'",
+            "    expectedArbPercentMin: 3",
+            "    maxPolymarketQty: 50",
+            "  - id: cricket",
+            "    proboEventId: 444",
+            "    polymarketYesTokenId: '555'",
+            "    enabled: false",
+            "    tradingEnabled: false"
+        ].join("\n"));
+
+        const pairs = loadMarketPairs(filePath);
+
+        expect(pairs[0]).toMatchObject({
+            id: "election",
+            polymarketNoTokenId: "333",
+            expectedArbPercentMin: 3,
+            maxPolymarketQty: 50,
+            enabled: true,
+            tradingEnabled: true
+        });
+        expect(getEnabledMarketPairs(pairs).map(pair => pair.id)).toEqual(["election"]);
+    });
+
+    test("should load a JSON list and reject duplicate ids", () => {
+        const filePath = writeRegistry("markets.json", JSON.stringify([
+            { id: "a", proboEventId: 1, polymarketYesTokenId: "x" },
+            { id: "a", proboEventId: 2, polymarketYesTokenId: "y" }
+        ]));
+
+        expect(() => loadMarketPairs(filePath)).toThrow("Duplicate market pair id a");
+    });
+
+    test("should reject pairs without a Polymarket token", () => {
+        const filePath = writeRegistry("markets.json", JSON.stringify({ pairs: [{ proboEventId: 1 }] }));
+
+        expect(() => loadMarketPairs(filePath)).toThrow("missing polymarketYesTokenId");
+    });
+});
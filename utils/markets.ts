@@ -0,0 +1,103 @@
+// Registry of matched Probo/Polymarket market pairs
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { MarketPair } from '../types';
+import { getConfig } from '../config';
+import { logger } from './logger';
+
+/**
+ * Build the single pair described by the config's market IDs
+ * @returns The default market pair
+ */
+export function getDefaultMarketPair(): MarketPair {
+    const config = getConfig();
+    
+    return {
+        id: 'default',
+        proboEventId: config.proboTokenId,
+        polymarketYesTokenId: config.polymarketTokenId,
+        polymarketNoTokenId: config.polymarketNoTokenId,
+        enabled: true,
+        tradingEnabled: true
+    };
+}
+
+/**
+ * Validate and normalise one raw registry entry
+ * @param raw The parsed entry
+ * @param index Position in the file, for error messages
+ * @returns The market pair
+ */
+function parseMarketPair(raw: any, index: number): MarketPair {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error(`Market pair #${index} is not an object`);
+    }
+    
+    const proboEventId = Number(raw.proboEventId);
+    if (!Number.isInteger(proboEventId) || proboEventId <= 0) {
+        throw new Error(`Market pair #${index} has an invalid proboEventId`);
+    }
+    if (!raw.polymarketYesTokenId) {
+        throw new Error(`Market pair #${index} is missing polymarketYesTokenId`);
+    }
+    
+    const optionalNumber = (value: any): number | undefined =>
+        value === undefined || value === null ? undefined : Number(value);
+    
+    return {
+        id: String(raw.id ?? `${proboEventId}`),
+        name: raw.name,
+        proboEventId,
+        polymarketYesTokenId: String(raw.polymarketYesTokenId),
+        polymarketNoTokenId: raw.polymarketNoTokenId ? String(raw.polymarketNoTokenId) : undefined,
+        expectedArbPercentMin: optionalNumber(raw.expectedArbPercentMin),
+        maxPolymarketQty: optionalNumber(raw.maxPolymarketQty),
+        maxProboQty: optionalNumber(raw.maxProboQty),
+        enabled: raw.enabled !== false,
+        tradingEnabled: raw.tradingEnabled !== false
+    };
+}
+
+/**
+ * Load the market pair registry from a JSON or YAML file. The file holds
+ * either a list of pairs or `{ pairs: [...] }`. Without a file the bot
+ * watches the single pair from the config.
+ * @param filePath Path to the registry file
+ * @returns The market pairs
+ */
+export function loadMarketPairs(filePath = getConfig().marketPairsPath): MarketPair[] {
+    if (!filePath || !fs.existsSync(filePath)) {
+        return [getDefaultMarketPair()];
+    }
+    
+    const content = fs.readFileSync(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+    const data = extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+    const entries = Array.isArray(data) ? data : data?.pairs;
+    
+    if (!Array.isArray(entries)) {
+        throw new Error(`Market pair registry ${filePath} must contain a list of pairs`);
+    }
+    
+    const pairs = entries.map(parseMarketPair);
+    const ids = new Set<string>();
+    pairs.forEach(pair => {
+        if (ids.has(pair.id)) {
+            throw new Error(`Duplicate market pair id ${pair.id} in ${filePath}`);
+        }
+        ids.add(pair.id);
+    });
+    
+    logger.debug(`Loaded ${pairs.length} market pairs from ${filePath}`);
+    return pairs;
+}
+
+/**
+ * Get the pairs that should be scanned
+ * @param pairs The full registry
+ * @returns Enabled pairs only
+ */
+export function getEnabledMarketPairs(pairs: MarketPair[]): MarketPair[] {
+    return pairs.filter(pair => pair.enabled);
+}
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+import axios from "axios";
+import { createMetricsRegistry, startMetricsServer } from "./metrics";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        logLevel: "error"
+    })
+}));
+
+describe("Metrics Tests", () => {
+    test("should render counters and gauges in the text exposition format", () => {
+        const registry = createMetricsRegistry();
+        const orders = registry.counter("test_orders_total", "Orders sent");
+        const spread = registry.gauge("test_spread_percent", "Latest spread");
+
+        orders.inc({ exchange: "probo" });
+        orders.inc({ exchange: "probo" }, 2);
+        orders.inc({ exchange: "polymarket" });
+        spread.set({ pair: 'say "hi"\\' }, -1.5);
+        spread.set({ pair: 'say "hi"\\' }, 2.25);
+
+        expect(orders.get({ exchange: "probo" })).toBe(3);
+        expect(() => orders.inc({}, -1)).toThrow("cannot decrease");
+        expect(() => registry.counter("test_orders_total", "Again")).toThrow("already registered");
+        expect(registry.render()).toBe([
+            "# HELP test_orders_total Orders sent",
+            "# TYPE test_orders_total counter",
+            'test_orders_total{exchange="probo"} 3',
+            'test_orders_total{exchange="polymarket"} 1',
+            "# HELP test_spread_percent Latest spread",
+            "# TYPE test_spread_percent gauge",
+            'test_spread_percent{pair="say \\"hi\\"\\\\"} 2.25',
+            ""
+        ].join("\n"));
+    });
+
+    test("should render cumulative histogram buckets with sum and count", () => {
+        const registry = createMetricsRegistry();
+        const latency = registry.histogram("test_fetch_seconds", "Fetch time", [1, 0.1]);
+
+        latency.observe({ exchange: "probo" }, 0.05);
+        latency.observe({ exchange: "probo" }, 0.5);
+        latency.observe({ exchange: "probo" }, 3);
+
+        expect(latency.count({ exchange: "probo" })).toBe(3);
+        expect(registry.render().split("\n")).toEqual(expect.arrayContaining([
+            'test_fetch_seconds_bucket{exchange="probo",le="0.1"} 1',
+            'test_fetch_seconds_bucket{exchange="probo",le="1"} 2',
+            'test_fetch_seconds_bucket{exchange="probo",le="+Inf"} 3',
+            'test_fetch_seconds_sum{exchange="probo"} 3.55',
+            'test_fetch_seconds_count{exchange="probo"} 3'
+        ]));
+    });
+
+    test("should serve the registry at /metrics, refreshing collected gauges on each scrape", async () => {
+        const registry = createMetricsRegistry();
+        const open = registry.gauge("test_breaker_open", "Breaker open");
+        let state = 0;
+        const stopCollecting = registry.onCollect(() => open.set({}, state));
+        const server = await startMetricsServer(0, registry);
+
+        try {
+            const first = await axios.get(server.url);
+            state = 1;
+            const second = await axios.get(server.url);
+            stopCollecting();
+            state = 0;
+            const third = await axios.get(server.url);
+
+            expect(first.headers["content-type"]).toBe("text/plain; version=0.0.4; charset=utf-8");
+            expect(first.data).toContain("test_breaker_open 0");
+            expect(second.data).toContain("test_breaker_open 1");
+            expect(third.data).toContain("test_breaker_open 1");
+
+            const missing = await axios.get(server.url.replace("/metrics", "/other"), { validateStatus: () => true });
+            expect(missing.status).toBe(404);
+        } finally {
+            await server.close();
+        }
+    });
+});
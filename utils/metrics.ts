@@ -0,0 +1,262 @@
+// Metrics in the Prometheus text exposition format, served over HTTP for scraping
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { logger } from './logger';
+
+export type Labels = Record<string, string>;
+
+export interface Counter {
+    inc(labels?: Labels, value?: number): void;
+    get(labels?: Labels): number;
+}
+
+export interface Gauge {
+    set(labels: Labels, value: number): void;
+    /** Stop exposing a series until it is set again */
+    remove(labels: Labels): void;
+    get(labels?: Labels): number;
+}
+
+export interface Histogram {
+    observe(labels: Labels, value: number): void;
+    /** Number of observations */
+    count(labels?: Labels): number;
+}
+
+export interface MetricsRegistry {
+    counter(name: string, help: string): Counter;
+    gauge(name: string, help: string): Gauge;
+    histogram(name: string, help: string, buckets: number[]): Histogram;
+    /**
+     * Run a hook before every scrape, to refresh gauges read from elsewhere
+     * @returns Removes the hook again
+     */
+    onCollect(hook: () => void): () => void;
+    /** Every series in the text exposition format */
+    render(): string;
+}
+
+export interface MetricsServer {
+    url: string;
+    close(): Promise<void>;
+}
+
+type Series = { labels: Labels; value: number };
+type HistogramSeries = { labels: Labels; bucketCounts: number[]; sum: number; count: number };
+
+/**
+ * Stable key for a label set, independent of key order
+ * @param labels The labels
+ * @returns The key
+ */
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+/**
+ * Format a label set as `{name="value",...}`, escaped per the exposition format
+ * @param labels The labels
+ * @returns The formatted labels, empty when there are none
+ */
+function formatLabels(labels: Labels): string {
+    const pairs = Object.keys(labels).sort().map(name => {
+        const value = labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+        return `${name}="${value}"`;
+    });
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Format a sample value; Prometheus spells the infinities and NaN its own way
+ * @param value The value
+ * @returns The formatted value
+ */
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) {
+        return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+        return value > 0 ? '+Inf' : '-Inf';
+    }
+    return String(value);
+}
+
+/**
+ * Create an empty metrics registry
+ * @returns The registry
+ */
+export function createMetricsRegistry(): MetricsRegistry {
+    const renderers = new Map<string, () => string[]>();
+    const hooks: Array<() => void> = [];
+
+    const register = (name: string, help: string, type: string, samples: () => string[]) => {
+        if (renderers.has(name)) {
+            throw new Error(`Metric ${name} is already registered`);
+        }
+        renderers.set(name, () => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples()]);
+    };
+
+    const createSeriesStore = (name: string) => {
+        const series = new Map<string, Series>();
+        const entry = (labels: Labels): Series => {
+            const key = labelKey(labels);
+            let current = series.get(key);
+            if (!current) {
+                current = { labels: { ...labels }, value: 0 };
+                series.set(key, current);
+            }
+            return current;
+        };
+        const samples = () => [...series.values()].map(({ labels, value }) =>
+            `${name}${formatLabels(labels)} ${formatValue(value)}`);
+        return { series, entry, samples };
+    };
+
+    return {
+        counter(name: string, help: string): Counter {
+            const store = createSeriesStore(name);
+            register(name, help, 'counter', store.samples);
+            return {
+                inc(labels: Labels = {}, value = 1): void {
+                    if (value < 0) {
+                        throw new Error(`Counter ${name} cannot decrease`);
+                    }
+                    store.entry(labels).value += value;
+                },
+                get: (labels: Labels = {}) => store.series.get(labelKey(labels))?.value ?? 0
+            };
+        },
+
+        gauge(name: string, help: string): Gauge {
+            const store = createSeriesStore(name);
+            register(name, help, 'gauge', store.samples);
+            return {
+                set(labels: Labels, value: number): void {
+                    store.entry(labels).value = value;
+                },
+                remove(labels: Labels): void {
+                    store.series.delete(labelKey(labels));
+                },
+                get: (labels: Labels = {}) => store.series.get(labelKey(labels))?.value ?? 0
+            };
+        },
+
+        histogram(name: string, help: string, buckets: number[]): Histogram {
+            const bounds = [...buckets].sort((a, b) => a - b);
+            const series = new Map<string, HistogramSeries>();
+            register(name, help, 'histogram', () => [...series.values()].flatMap(({ labels, bucketCounts, sum, count }) => [
+                ...bounds.map((bound, index) =>
+                    `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${bucketCounts[index]}`),
+                `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+                `${name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+                `${name}_count${formatLabels(labels)} ${count}`
+            ]));
+            return {
+                observe(labels: Labels, value: number): void {
+                    const key = labelKey(labels);
+                    let current = series.get(key);
+                    if (!current) {
+                        current = { labels: { ...labels }, bucketCounts: bounds.map(() => 0), sum: 0, count: 0 };
+                        series.set(key, current);
+                    }
+                    // Buckets are cumulative: each counts every observation at or below its bound
+                    for (let index = 0; index < bounds.length; index++) {
+                        if (value <= bounds[index]) {
+                            current.bucketCounts[index]++;
+                        }
+                    }
+                    current.sum += value;
+                    current.count++;
+                },
+                count: (labels: Labels = {}) => series.get(labelKey(labels))?.count ?? 0
+            };
+        },
+
+        onCollect(hook: () => void): () => void {
+            hooks.push(hook);
+            return () => {
+                const index = hooks.indexOf(hook);
+                if (index >= 0) {
+                    hooks.splice(index, 1);
+                }
+            };
+        },
+
+        render(): string {
+            for (const hook of hooks) {
+                try {
+                    hook();
+                } catch (error) {
+                    logger.warn("Failed to collect metrics", error);
+                }
+            }
+            return [...renderers.values()].flatMap(renderer => renderer()).join('\n') + '\n';
+        }
+    };
+}
+
+/** The registry the bot reports to and the metrics server exposes */
+export const registry = createMetricsRegistry();
+
+/** The bot's series, recorded by startArbBot and findAndExecArb */
+export const botMetrics = {
+    cycles: registry.counter('arb_cycles_total', 'Arbitrage cycles run: every pair scanned when polling, one pair evaluated when streaming'),
+    depthFetchSeconds: registry.histogram(
+        'arb_depth_fetch_duration_seconds',
+        'Time taken by order book requests, by exchange',
+        [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+    ),
+    depthFetchErrors: registry.counter('arb_depth_fetch_errors_total', 'Order book requests that failed, by exchange'),
+    opportunitiesFound: registry.counter('arb_opportunities_found_total', 'Opportunities with a positive spread at the top of both books, by pair'),
+    opportunitiesViable: registry.counter('arb_opportunities_viable_total', 'Opportunities that passed every pre-trade check, by pair'),
+    opportunitiesExecuted: registry.counter('arb_opportunities_executed_total', 'Opportunities both legs were sent for, by pair'),
+    legs: registry.counter('arb_legs_total', 'Legs sent, by exchange and result (filled, partial, unfilled)'),
+    legOrderedShares: registry.counter('arb_leg_ordered_shares_total', 'Shares ordered across all legs, by exchange'),
+    legFilledShares: registry.counter('arb_leg_filled_shares_total', 'Shares filled across all legs, by exchange'),
+    oneSidedFills: registry.counter('arb_one_sided_fills_total', 'Trades where only one leg filled'),
+    spreadPercent: registry.gauge('arb_spread_percent', 'Gross spread between the venues before costs when the pair was last priced, by pair'),
+    profitPercent: registry.gauge('arb_profit_percent', 'Net profit after costs when the pair last had a positive spread, by pair'),
+    breakerOpen: registry.gauge('arb_circuit_breaker_open', 'Whether the circuit breaker is pausing trading (1) or not (0)'),
+    killSwitch: registry.gauge('arb_kill_switch_engaged', 'Whether the kill switch is engaged (1) or not (0)'),
+    breakerFailures: registry.gauge('arb_circuit_breaker_consecutive_failures', 'Consecutive failures counted by the breaker, by exchange and channel'),
+    breakerOneSidedFills: registry.gauge('arb_circuit_breaker_one_sided_fills', 'One-sided fills inside the breaker window')
+};
+
+/**
+ * Serve a registry at `/metrics` for Prometheus to scrape
+ * @param port Port to listen on; 0 picks a free one
+ * @param metrics The registry to serve
+ * @returns The running server
+ */
+export async function startMetricsServer(port: number, metrics: MetricsRegistry = registry): Promise<MetricsServer> {
+    const server = http.createServer((req, res) => {
+        const path = (req.url || '').split('?')[0];
+        if (req.method !== 'GET' || path !== '/metrics') {
+            res.writeHead(404, { 'Content-Type': 'text/plain' });
+            res.end('Not found\n');
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(metrics.render());
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/metrics`;
+    logger.info(`Serving metrics at ${url}`);
+
+    return {
+        url,
+        close: () => new Promise<void>(resolve => {
+            server.close(() => resolve());
+            // Scrapers keep connections alive; don't let them hold up shutdown
+            server.closeAllConnections();
+        })
+    };
+}
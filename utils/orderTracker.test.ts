@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { isTerminalStatus, trackOrder } from "./orderTracker";
+import { getConfig } from "../config";
+import { Exchange, ExchangeAdapter, OrderStatus } from "../types";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        orderPollIntervalMs: 0,
+        orderTrackTimeoutMs: 1000,
+        logLevel: "error"
+    })
+}));
+
+describe("Order Tracker Tests", () => {
+    const createAdapter = (getOrderStatus: jest.Mock): ExchangeAdapter => ({
+        exchange: Exchange.PROBO,
+        getDepth: jest.fn(),
+        createOrder: jest.fn(),
+        getOrderStatus,
+        cancelOrder: jest.fn(),
+        cancelAllOrders: jest.fn(),
+        getBalance: jest.fn()
+    });
+
+    test("should poll through partial fills until the order is terminal", async () => {
+        const getOrderStatus = jest.fn()
+            .mockResolvedValueOnce({ orderId: "o1", exchange: Exchange.PROBO, status: OrderStatus.OPEN })
+            .mockRejectedValueOnce(new Error("502"))
+            .mockResolvedValueOnce({
+                orderId: "o1", exchange: Exchange.PROBO, status: OrderStatus.PARTIALLY_FILLED, filledQty: 40
+            })
+            .mockResolvedValueOnce({
+                orderId: "o1", exchange: Exchange.PROBO, status: OrderStatus.CANCELLED, filledQty: 40, avgFillPrice: 2.1
+            });
+
+        const state = await trackOrder(createAdapter(getOrderStatus), "o1", 100, 2.2);
+
+        expect(getOrderStatus).toHaveBeenCalledTimes(4);
+        expect(state).toMatchObject({ status: OrderStatus.CANCELLED, filledQty: 40, avgFillPrice: 2.1 });
+    });
+
+    test("should default a filled order without details to the full size at the limit price", async () => {
+        const getOrderStatus = jest.fn().mockResolvedValue({ orderId: "o1", exchange: Exchange.PROBO, status: OrderStatus.FILLED });
+
+        const state = await trackOrder(createAdapter(getOrderStatus), "o1", 100, 2.2);
+
+        expect(state).toMatchObject({ filledQty: 100, avgFillPrice: 2.2 });
+    });
+
+    test("should cancel an order still resting after the timeout", async () => {
+        (getConfig as jest.Mock).mockReturnValueOnce({ orderPollIntervalMs: 5, orderTrackTimeoutMs: 20 });
+        const getOrderStatus = jest.fn().mockResolvedValue({
+            orderId: "o1", exchange: Exchange.PROBO, status: OrderStatus.PARTIALLY_FILLED, filledQty: 10
+        });
+        const adapter = createAdapter(getOrderStatus);
+        (adapter.cancelOrder as jest.Mock).mockImplementation(async () => {
+            getOrderStatus.mockResolvedValue({
+                orderId: "o1", exchange: Exchange.PROBO, status: OrderStatus.CANCELLED, filledQty: 10
+            });
+            return { success: true, orderId: "o1" };
+        });
+
+        const state = await trackOrder(adapter, "o1", 100, 2.2);
+
+        expect(adapter.cancelOrder).toHaveBeenCalledWith("o1");
+        expect(state).toMatchObject({ status: OrderStatus.CANCELLED, filledQty: 10 });
+    });
+
+    test("should return the last known state if the stale order can't be cancelled", async () => {
+        (getConfig as jest.Mock).mockReturnValueOnce({ orderPollIntervalMs: 5, orderTrackTimeoutMs: 20 });
+        const getOrderStatus = jest.fn().mockResolvedValue({ orderId: "o1", exchange: Exchange.PROBO, status: OrderStatus.OPEN });
+        const adapter = createAdapter(getOrderStatus);
+        (adapter.cancelOrder as jest.Mock).mockResolvedValue({ success: false, error: new Error("not found") });
+
+        const state = await trackOrder(adapter, "o1", 100, 2.2);
+
+        expect(isTerminalStatus(state.status)).toBe(false);
+    });
+});
@@ -0,0 +1,112 @@
+// Polls orders until the exchange reports a terminal state
+import { ExchangeAdapter, OrderResult, OrderState, OrderStatus } from '../types';
+import { getConfig } from '../config';
+import { sleep } from './helpers';
+import { logger } from './logger';
+
+const TERMINAL_STATUSES = [
+    OrderStatus.FILLED,
+    OrderStatus.CANCELLED,
+    OrderStatus.EXPIRED,
+    OrderStatus.REJECTED
+];
+
+/**
+ * Whether an order can no longer change
+ * @param status The order status
+ * @returns True for filled, cancelled, expired and rejected orders
+ */
+export function isTerminalStatus(status: OrderStatus): boolean {
+    return TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * Fill in what an exchange left out: a filled order without a reported
+ * quantity filled the full size at its limit price
+ * @param state The reported order state
+ * @param size The quantity ordered
+ * @param price The limit price
+ * @returns The order state with fill quantity and price resolved
+ */
+function withFillDefaults(state: OrderState, size: number, price: number): OrderState {
+    const filledQty = state.filledQty ?? (state.status === OrderStatus.FILLED ? size : 0);
+    return {
+        ...state,
+        filledQty,
+        avgFillPrice: state.avgFillPrice ?? (filledQty > 0 ? price : undefined)
+    };
+}
+
+/**
+ * Cancel an order that is still resting after tracking gave up, and read back
+ * what filled before the cancel landed
+ * @param adapter The exchange the order is on
+ * @param state The last known state
+ * @param size The quantity ordered
+ * @param price The limit price
+ * @returns The state after the cancel
+ */
+async function cancelStaleOrder(adapter: ExchangeAdapter, state: OrderState, size: number, price: number): Promise<OrderState> {
+    let result: OrderResult;
+    try {
+        result = await adapter.cancelOrder(state.orderId);
+    } catch (error) {
+        result = { success: false, error: error instanceof Error ? error : new Error(String(error)) };
+    }
+    if (!result.success) {
+        logger.error(`Failed to cancel stale ${adapter.exchange} order ${state.orderId}, it may still fill`, result.error);
+        return state;
+    }
+    
+    try {
+        return withFillDefaults(await adapter.getOrderStatus(state.orderId), size, price);
+    } catch (error) {
+        logger.warn(`Failed to read back cancelled ${adapter.exchange} order ${state.orderId}`, error);
+        return { ...state, status: OrderStatus.CANCELLED };
+    }
+}
+
+/**
+ * Poll an order until it is filled, cancelled, expired or rejected. Orders
+ * still resting when the tracking timeout runs out are cancelled. Polling
+ * errors are logged and retried.
+ * @param adapter The exchange the order is on
+ * @param orderId The order ID
+ * @param size The quantity ordered
+ * @param price The limit price
+ * @returns The last known state; not terminal only if the cancel failed
+ */
+export async function trackOrder(
+    adapter: ExchangeAdapter,
+    orderId: string,
+    size: number,
+    price: number
+): Promise<OrderState> {
+    const config = getConfig();
+    const deadline = Date.now() + config.orderTrackTimeoutMs;
+    let state: OrderState = { orderId, exchange: adapter.exchange, status: OrderStatus.OPEN };
+
+    while (true) {
+        try {
+            state = withFillDefaults(await adapter.getOrderStatus(orderId), size, price);
+            if (isTerminalStatus(state.status)) {
+                logger.info(`${adapter.exchange} order ${orderId} ${state.status}`, {
+                    filledQty: state.filledQty,
+                    avgFillPrice: state.avgFillPrice
+                });
+                return state;
+            }
+        } catch (error) {
+            logger.warn(`Failed to poll ${adapter.exchange} order ${orderId}`, error);
+        }
+
+        if (Date.now() >= deadline) {
+            logger.warn(`${adapter.exchange} order ${orderId} still ${state.status} after ${config.orderTrackTimeoutMs}ms, cancelling`, {
+                filledQty: state.filledQty
+            });
+            return cancelStaleOrder(adapter, state, size, price);
+        }
+
+        await sleep(config.orderPollIntervalMs);
+    }
+}
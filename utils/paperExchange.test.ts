@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { createPaperExchange } from "./paperExchange";
+import { Depth, Exchange, ExchangeAdapter, OrderSide, OrderStatus } from "../types";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        polymarketFeeRateBps: 0,
+        polygonGasCostUsd: 0,
+        proboFeePercent: 2,
+        proboGstPercent: 18,
+        logLevel: "error"
+    })
+}));
+
+describe("Paper Exchange Tests", () => {
+    const liveExchange = (exchange: Exchange, depth: Depth): ExchangeAdapter => ({
+        exchange,
+        getDepth: jest.fn().mockResolvedValue(depth),
+        createOrder: jest.fn(),
+        getOrderStatus: jest.fn(),
+        cancelOrder: jest.fn(),
+        cancelAllOrders: jest.fn(),
+        getBalance: jest.fn()
+    });
+
+    test("should consume book levels across orders until the next fetch", async () => {
+        const live = liveExchange(Exchange.POLYMARKET, {
+            buy: { "0.38": "100" },
+            sell: { "0.40": "10", "0.42": "20" }
+        });
+        const paper = createPaperExchange(live, 1000);
+        await paper.getDepth("222");
+
+        const first = await paper.createOrder("222", OrderSide.BUY, 15, 0.42);
+        const firstState = await paper.getOrderStatus(first.orderId as string);
+        expect(firstState.status).toBe(OrderStatus.FILLED);
+        expect(firstState.filledQty).toBe(15);
+        expect(firstState.avgFillPrice).toBeCloseTo((10 * 0.40 + 5 * 0.42) / 15, 6);
+
+        // Only 15 shares are left at 0.42
+        const second = await paper.createOrder("222", OrderSide.BUY, 20, 0.42);
+        const secondState = await paper.getOrderStatus(second.orderId as string);
+        expect(secondState.status).toBe(OrderStatus.CANCELLED);
+        expect(secondState.filledQty).toBe(15);
+
+        expect(await paper.getBalance()).toBeCloseTo(1000 - 10 * 0.40 - 20 * 0.42, 6);
+        expect(paper.getPositions()).toEqual({ "222": 30 });
+        // The live book is untouched
+        expect((await live.getDepth("222")).sell).toEqual({ "0.40": "10", "0.42": "20" });
+
+        // A fresh fetch restores the book
+        await paper.getDepth("222");
+        const third = await paper.createOrder("222", OrderSide.BUY, 10, 0.40);
+        expect((await paper.getOrderStatus(third.orderId as string)).status).toBe(OrderStatus.FILLED);
+    });
+
+    test("should not fill past the limit price", async () => {
+        const paper = createPaperExchange(liveExchange(Exchange.POLYMARKET, {
+            buy: {},
+            sell: { "0.45": "100" }
+        }), 1000);
+
+        const result = await paper.createOrder("222", OrderSide.BUY, 10, 0.44);
+        const state = await paper.getOrderStatus(result.orderId as string);
+
+        expect(result.success).toBe(true);
+        expect(state.status).toBe(OrderStatus.CANCELLED);
+        expect(state.filledQty).toBe(0);
+        expect(await paper.getBalance()).toBe(1000);
+    });
+
+    test("should reject orders the virtual balance can't cover", async () => {
+        const paper = createPaperExchange(liveExchange(Exchange.POLYMARKET, {
+            buy: {},
+            sell: { "0.50": "100" }
+        }), 10);
+
+        const result = await paper.createOrder("222", OrderSide.BUY, 50, 0.50);
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toContain("insufficient");
+        expect(await paper.getBalance()).toBe(10);
+    });
+
+    test("should only sell Polymarket shares it holds, into the bids", async () => {
+        const paper = createPaperExchange(liveExchange(Exchange.POLYMARKET, {
+            buy: { "0.38": "100", "0.36": "100" },
+            sell: { "0.40": "100" }
+        }), 1000);
+
+        const naked = await paper.createOrder("222", OrderSide.SELL, 10, 0.36);
+        expect(naked.success).toBe(false);
+
+        await paper.createOrder("222", OrderSide.BUY, 10, 0.40);
+        const sell = await paper.createOrder("222", OrderSide.SELL, 10, 0.36);
+        const state = await paper.getOrderStatus(sell.orderId as string);
+
+        expect(state.status).toBe(OrderStatus.FILLED);
+        expect(state.avgFillPrice).toBeCloseTo(0.38, 6);
+        expect(await paper.getBalance()).toBeCloseTo(1000 - 4 + 3.8, 6);
+        expect(paper.getPositions()).toEqual({ "222": 0 });
+    });
+
+    test("should fill Probo orders against the outcome their offer type names, with fees", async () => {
+        const paper = createPaperExchange(liveExchange(Exchange.PROBO, {
+            buy: { "4": "100" },
+            sell: { "6": "50" }
+        }), 1000);
+
+        const no = await paper.createOrder(111, OrderSide.SELL, 20, 6);
+        const state = await paper.getOrderStatus(no.orderId as string);
+
+        expect(state.status).toBe(OrderStatus.FILLED);
+        expect(state.avgFillPrice).toBe(6);
+        // 120 notional plus 2% fee plus 18% GST on the fee
+        expect(await paper.getBalance()).toBeCloseTo(1000 - 120 - 2.832, 6);
+        expect(paper.getPositions()).toEqual({ "111:sell": 20 });
+    });
+});
@@ -0,0 +1,162 @@
+// Paper trading: simulated fills against live books with virtual balances
+import { Depth, ExchangeAdapter, Exchange, OrderSide, OrderState, OrderStatus, PaperExchange } from '../types';
+import { getFeeSchedule } from './costs';
+import { logger } from './logger';
+
+// Quantities below this are float noise
+const EPSILON = 1e-9;
+
+/**
+ * The book an order takes liquidity from. Probo orders buy the outcome named
+ * by their offer type; Polymarket buys lift the asks and sells hit the bids.
+ * @param exchange The exchange
+ * @param depth The market depth
+ * @param side The order side
+ * @returns Price -> quantity levels the order fills against
+ */
+function bookFor(exchange: Exchange, depth: Depth, side: OrderSide): Record<string, string> {
+    if (exchange === Exchange.PROBO) {
+        return depth[side === OrderSide.SELL ? 'sell' : 'buy'];
+    }
+    return side === OrderSide.SELL ? depth.buy : depth.sell;
+}
+
+/**
+ * Wrap an exchange so orders fill against the most recently fetched book
+ * rather than being sent. Each fill takes the quantity at each level it
+ * crosses, so later orders see a thinner book until the next fetch. Orders
+ * are immediate-or-cancel: whatever doesn't fill at once is cancelled.
+ * @param live The exchange to read books from
+ * @param startingBalance Virtual balance in the exchange's currency
+ * @returns The paper exchange
+ */
+export function createPaperExchange(live: ExchangeAdapter, startingBalance: number): PaperExchange {
+    const exchange = live.exchange;
+    const books = new Map<string, Depth>();
+    const orders = new Map<string, OrderState>();
+    const positions: Record<string, number> = {};
+    let balance = startingBalance;
+    let orderCount = 0;
+
+    // A private copy, so filling doesn't change the book the caller priced against
+    const setDepth = (marketId: string | number, depth: Depth) => {
+        books.set(String(marketId), { buy: { ...depth.buy }, sell: { ...depth.sell } });
+    };
+
+    const fetchBook = async (marketId: string | number): Promise<Depth> => {
+        const depth = await live.getDepth(marketId);
+        setDepth(marketId, depth);
+        return depth;
+    };
+
+    return {
+        exchange,
+
+        getDepth: fetchBook,
+
+        async createOrder(marketId, side, size, price) {
+            if (!books.has(String(marketId))) {
+                await fetchBook(marketId);
+            }
+            const book = bookFor(exchange, books.get(String(marketId)) as Depth, side);
+            const isSell = exchange === Exchange.POLYMARKET && side === OrderSide.SELL;
+            // Probo positions are per outcome, which the offer type names
+            const positionKey = exchange === Exchange.PROBO ? `${marketId}:${side}` : String(marketId);
+
+            if (isSell && (positions[positionKey] || 0) < size - EPSILON) {
+                return {
+                    success: false,
+                    error: new Error(`PAPER: cannot sell ${size} shares of ${marketId}, holding ${positions[positionKey] || 0}`),
+                    exchangeResponse: null
+                };
+            }
+
+            const crosses = (level: number) => isSell ? level >= price : level <= price;
+            const levels = Object.entries(book)
+                .map(([key, qty]) => ({ key, price: Number(key), qty: Number(qty) }))
+                .filter(level => level.qty > 0 && crosses(level.price))
+                .sort((a, b) => isSell ? b.price - a.price : a.price - b.price);
+
+            let filled = 0;
+            let notional = 0;
+            const taken: { key: string; qty: number }[] = [];
+            for (const level of levels) {
+                if (filled >= size - EPSILON) {
+                    break;
+                }
+                const qty = Math.min(level.qty, size - filled);
+                taken.push({ key: level.key, qty });
+                filled += qty;
+                notional += qty * level.price;
+            }
+
+            const schedule = getFeeSchedule(exchange);
+            const fees = notional * schedule.feePercent / 100 * (1 + schedule.taxOnFeePercent / 100)
+                + (filled > 0 ? schedule.fixedCostPerOrder : 0);
+
+            if (!isSell && notional + fees > balance + EPSILON) {
+                return {
+                    success: false,
+                    error: new Error(`PAPER: insufficient ${exchange} balance, need ${(notional + fees).toFixed(2)}, have ${balance.toFixed(2)}`),
+                    exchangeResponse: null
+                };
+            }
+
+            for (const { key, qty } of taken) {
+                const remaining = Number(book[key]) - qty;
+                if (remaining > EPSILON) {
+                    book[key] = String(remaining);
+                } else {
+                    delete book[key];
+                }
+            }
+            balance += isSell ? notional - fees : -(notional + fees);
+            positions[positionKey] = (positions[positionKey] || 0) + (isSell ? -filled : filled);
+
+            const orderId = `paper-${exchange}-${++orderCount}`;
+            const fullyFilled = filled >= size - EPSILON;
+            orders.set(orderId, {
+                orderId,
+                exchange,
+                status: fullyFilled ? OrderStatus.FILLED : OrderStatus.CANCELLED,
+                filledQty: filled,
+                avgFillPrice: filled > 0 ? notional / filled : undefined
+            });
+
+            logger.info(`PAPER: ${exchange} ${side} ${filled}/${size} on ${marketId} at limit ${price}`, {
+                orderId,
+                avgFillPrice: filled > 0 ? notional / filled : undefined,
+                balance
+            });
+
+            return { success: true, orderId, exchangeResponse: { paper: true } };
+        },
+
+        async getOrderStatus(orderId) {
+            const state = orders.get(orderId);
+            if (!state) {
+                throw new Error(`PAPER: unknown order ${orderId}`);
+            }
+            return state;
+        },
+
+        // Nothing ever rests, so there is nothing to cancel
+        async cancelOrder(orderId) {
+            return { success: true, orderId, exchangeResponse: { paper: true } };
+        },
+
+        async cancelAllOrders() {
+            return { success: true, exchangeResponse: { paper: true } };
+        },
+
+        async getBalance() {
+            return balance;
+        },
+
+        getPositions() {
+            return { ...positions };
+        },
+
+        setDepth
+    };
+}
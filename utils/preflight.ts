@@ -0,0 +1,126 @@
+// Pre-trade balance checks on both venues
+import { ArbExchanges, ArbOpportunity, Exchange } from '../types';
+import { getConfig } from '../config';
+import { calculateCosts, getFeeSchedule } from './costs';
+import { logger } from './logger';
+
+/**
+ * Funds each leg of an opportunity needs, at its limit price plus fees and
+ * the fixed cost of placing the order
+ * @param opportunity The arbitrage opportunity
+ * @returns USD needed on Polymarket and INR needed on Probo
+ */
+export function getRequiredFunds(opportunity: ArbOpportunity): { polymarketUsd: number; proboInr: number } {
+    const withCosts = (exchange: Exchange, notional: number) => {
+        const schedule = getFeeSchedule(exchange);
+        return notional * (1 + schedule.feePercent / 100 * (1 + schedule.taxOnFeePercent / 100)) + schedule.fixedCostPerOrder;
+    };
+    
+    return {
+        polymarketUsd: withCosts(Exchange.POLYMARKET, opportunity.polymarketQty * opportunity.polymarketPrice),
+        proboInr: withCosts(Exchange.PROBO, opportunity.proboQty * opportunity.proboPrice)
+    };
+}
+
+/**
+ * Size an opportunity down to the funds available on each venue. Both legs
+ * shrink by the same factor so the position stays hedged, and the profit is
+ * re-priced because fixed costs weigh more on a smaller trade.
+ * @param opportunity The viable opportunity
+ * @param balances Polymarket USD and Probo INR balances
+ * @param minProfitPercent Net profit the shrunk trade must still make
+ * @returns The opportunity, shrunk or marked not viable if needed
+ */
+export function fitToBalances(
+    opportunity: ArbOpportunity,
+    balances: { polymarketUsd: number; proboInr: number },
+    minProfitPercent = getConfig().expectedArbPercentMin
+): ArbOpportunity {
+    const config = getConfig();
+    const required = getRequiredFunds(opportunity);
+    // Fixed order costs are paid whatever the size, so only what is left after them scales
+    const scaleFor = (exchange: Exchange, balance: number, needed: number) => {
+        const fixed = getFeeSchedule(exchange).fixedCostPerOrder;
+        return needed > fixed ? Math.max(0, balance - fixed) / (needed - fixed) : 1;
+    };
+    const scale = Math.min(
+        1,
+        scaleFor(Exchange.POLYMARKET, balances.polymarketUsd, required.polymarketUsd),
+        scaleFor(Exchange.PROBO, balances.proboInr, required.proboInr)
+    );
+    
+    if (scale >= 1) {
+        return opportunity;
+    }
+    
+    const shortfall = `Insufficient balance: need $${required.polymarketUsd.toFixed(2)} on Polymarket ` +
+        `and ₹${required.proboInr.toFixed(2)} on Probo, have $${balances.polymarketUsd.toFixed(2)} ` +
+        `and ₹${balances.proboInr.toFixed(2)}`;
+    
+    if (scale <= 0) {
+        return { ...opportunity, isViable: false, reason: shortfall };
+    }
+    
+    const polymarketQty = opportunity.polymarketQty * scale;
+    const proboQty = opportunity.proboQty * scale;
+    const costs = calculateCosts(
+        polymarketQty,
+        opportunity.polymarketAvgPrice ?? opportunity.polymarketPrice,
+        proboQty,
+        opportunity.proboAvgPrice ?? opportunity.proboPrice,
+        true,
+        opportunity.fxRate ?? config.dollarPriceInr
+    );
+    
+    if (costs.netProfitPercent < minProfitPercent) {
+        return {
+            ...opportunity,
+            isViable: false,
+            reason: `${shortfall}; a trade shrunk to fit makes ${costs.netProfitPercent.toFixed(2)}%, below the minimum`
+        };
+    }
+    
+    logger.info(`Shrinking trade to ${(scale * 100).toFixed(1)}% of its size to fit available balances`, {
+        pairId: opportunity.pairId,
+        polymarketQty,
+        proboQty,
+        balances
+    });
+    
+    return {
+        ...opportunity,
+        polymarketQty,
+        proboQty,
+        costs,
+        grossProfitPercent: costs.grossProfitPercent,
+        profitPercent: costs.netProfitPercent
+    };
+}
+
+/**
+ * Check both venues hold enough funds for an opportunity before it is traded
+ * @param opportunity The viable opportunity
+ * @param exchanges Exchange adapters to read balances from
+ * @param minProfitPercent Net profit a trade shrunk to fit must still make
+ * @returns The opportunity, shrunk or marked not viable if funds are short
+ */
+export async function checkBalances(
+    opportunity: ArbOpportunity,
+    exchanges: ArbExchanges,
+    minProfitPercent = getConfig().expectedArbPercentMin
+): Promise<ArbOpportunity> {
+    try {
+        const [polymarketUsd, proboInr] = await Promise.all([
+            exchanges.polymarket.getBalance(),
+            exchanges.probo.getBalance()
+        ]);
+        
+        return fitToBalances(opportunity, { polymarketUsd, proboInr }, minProfitPercent);
+    } catch (error) {
+        return {
+            ...opportunity,
+            isViable: false,
+            reason: `Failed to check balances: ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createDepthRecorder, depthFileName, listDepthFiles, readDepthRecords } from "./recorder";
+import { DepthRecord } from "../types";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        recordDir: "./data/depth",
+        recordRotateMinutes: 60,
+        logLevel: "error"
+    })
+}));
+
+describe("Depth Recorder Tests", () => {
+    const snapshot = (timestamp: string): DepthRecord => ({
+        pairId: "election",
+        timestamp,
+        fxRate: 85,
+        probo: { marketId: 111, depthData: { buy: { "4": "100" }, sell: { "6": "50" } }, timestamp },
+        polymarketYes: { marketId: "222", depthData: { buy: { "0.4": "10" }, sell: { "0.45": "20" } }, timestamp }
+    });
+
+    const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), "depth-"));
+
+    test("depthFileName should name files after the start of their period", () => {
+        const time = Date.parse("2026-01-01T10:42:13.000Z");
+        expect(depthFileName(time, 60 * 60 * 1000)).toBe("depth-2026-01-01T10-00-00-000Z.jsonl.gz");
+        expect(depthFileName(time, 15 * 60 * 1000)).toBe("depth-2026-01-01T10-30-00-000Z.jsonl.gz");
+    });
+
+    test("should rotate files by period and read every snapshot back", async () => {
+        const dir = tempDir();
+        let now = Date.parse("2026-01-01T10:59:00.000Z");
+        const recorder = createDepthRecorder(dir, 60, () => now);
+
+        recorder.record(snapshot("2026-01-01T10:59:00.000Z"));
+        recorder.record(snapshot("2026-01-01T10:59:30.000Z"));
+        now = Date.parse("2026-01-01T11:00:05.000Z");
+        recorder.record(snapshot("2026-01-01T11:00:05.000Z"));
+        await recorder.close();
+
+        const files = listDepthFiles(dir);
+        expect(files.map(file => path.basename(file))).toEqual([
+            "depth-2026-01-01T10-00-00-000Z.jsonl.gz",
+            "depth-2026-01-01T11-00-00-000Z.jsonl.gz"
+        ]);
+        expect(readDepthRecords(files[0]).map(record => record.timestamp))
+            .toEqual(["2026-01-01T10:59:00.000Z", "2026-01-01T10:59:30.000Z"]);
+        expect(readDepthRecords(files[1])[0]).toEqual(snapshot("2026-01-01T11:00:05.000Z"));
+    });
+
+    test("should append to the period's file across restarts", async () => {
+        const dir = tempDir();
+        const now = () => Date.parse("2026-01-01T10:00:00.000Z");
+
+        const first = createDepthRecorder(dir, 60, now);
+        first.record(snapshot("first"));
+        await first.close();
+        const second = createDepthRecorder(dir, 60, now);
+        second.record(snapshot("second"));
+        await second.close();
+
+        const [file] = listDepthFiles(dir);
+        expect(readDepthRecords(file).map(record => record.timestamp)).toEqual(["first", "second"]);
+    });
+
+    test("readDepthRecords should keep what was written before a crash", async () => {
+        const dir = tempDir();
+        const recorder = createDepthRecorder(dir, 60, () => 0);
+        for (let i = 0; i < 50; i++) {
+            recorder.record(snapshot(`t${i}`));
+        }
+        await recorder.close();
+
+        const [file] = listDepthFiles(dir);
+        const content = fs.readFileSync(file);
+        fs.writeFileSync(file, content.subarray(0, content.length - 20));
+
+        const records = readDepthRecords(file);
+        expect(records.length).toBeGreaterThan(0);
+        expect(records[0].timestamp).toBe("t0");
+    });
+});
@@ -0,0 +1,122 @@
+// Depth recorder: timestamped books appended to rotating gzipped JSON-lines files
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { DepthRecord, DepthRecorder } from '../types';
+import { getConfig } from '../config';
+import { logger } from './logger';
+
+/**
+ * Name of the file holding the records for the period a time falls in
+ * @param time Time of the record, in ms
+ * @param rotateMs Length of each file's period
+ * @returns The file name, sortable by time
+ */
+export function depthFileName(time: number, rotateMs: number): string {
+    const periodStart = new Date(Math.floor(time / rotateMs) * rotateMs);
+    return `depth-${periodStart.toISOString().replace(/[:.]/g, '-')}.jsonl.gz`;
+}
+
+/**
+ * Create a recorder that appends depth snapshots to gzipped JSON-lines files,
+ * one file per rotation period. Restarting within a period appends a new gzip
+ * member to the same file, which gunzip reads as one stream.
+ * @param dir Directory to write the files to
+ * @param rotateMinutes Start a new file after this many minutes
+ * @param now Clock, for tests
+ * @returns The depth recorder
+ */
+export function createDepthRecorder(
+    dir = getConfig().recordDir,
+    rotateMinutes = getConfig().recordRotateMinutes,
+    now: () => number = Date.now
+): DepthRecorder {
+    const rotateMs = rotateMinutes * 60 * 1000;
+    let current: { fileName: string; gzip: zlib.Gzip; finished: Promise<void> } | null = null;
+
+    const closeCurrent = (): Promise<void> => {
+        if (!current) {
+            return Promise.resolve();
+        }
+        const { gzip, finished } = current;
+        current = null;
+        gzip.end();
+        return finished;
+    };
+
+    const open = (fileName: string) => {
+        fs.mkdirSync(dir, { recursive: true });
+        const filePath = path.join(dir, fileName);
+        const gzip = zlib.createGzip();
+        const file = fs.createWriteStream(filePath, { flags: 'a' });
+
+        // A failing disk should not stop trading, so errors are only logged
+        const finished = new Promise<void>(resolve => {
+            file.on('close', () => resolve());
+            file.on('error', error => {
+                logger.error(`Failed to write depth file ${filePath}`, error);
+                resolve();
+            });
+        });
+        gzip.on('error', error => logger.error(`Failed to compress depth file ${filePath}`, error));
+        gzip.pipe(file);
+
+        logger.info(`Recording depth to ${filePath}`);
+        return { fileName, gzip, finished };
+    };
+
+    return {
+        record(record: DepthRecord): void {
+            const fileName = depthFileName(now(), rotateMs);
+            if (current?.fileName !== fileName) {
+                void closeCurrent();
+                current = open(fileName);
+            }
+            current.gzip.write(JSON.stringify(record) + '\n');
+        },
+
+        close: closeCurrent
+    };
+}
+
+/**
+ * List recorded depth files, oldest first
+ * @param dir Directory the recorder wrote to
+ * @returns Paths of the depth files
+ */
+export function listDepthFiles(dir = getConfig().recordDir): string[] {
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+
+    return fs.readdirSync(dir)
+        .filter(name => name.startsWith('depth-') && name.endsWith('.jsonl.gz'))
+        .sort()
+        .map(name => path.join(dir, name));
+}
+
+/**
+ * Read the depth snapshots from a recorded file. A truncated final line, as
+ * left by a crash, is skipped.
+ * @param filePath Path to a depth file
+ * @returns The snapshots in the order they were recorded
+ */
+export function readDepthRecords(filePath: string): DepthRecord[] {
+    const compressed = fs.readFileSync(filePath);
+    // A file cut off mid-write still yields everything before the cut
+    const content = zlib.gunzipSync(compressed, { finishFlush: zlib.constants.Z_SYNC_FLUSH }).toString('utf8');
+    const records: DepthRecord[] = [];
+
+    for (const line of content.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            records.push(JSON.parse(line));
+        } catch (error) {
+            logger.warn(`Skipping unreadable line in ${filePath}`);
+        }
+    }
+
+    return records;
+}
@@ -0,0 +1,319 @@
+// Recovery of one-sided fills: hedge the missing leg or unwind the filled one
+import {
+    Depth,
+    ExchangeAdapter,
+    OrderResult,
+    OrderSide,
+    RecoveryAction,
+    RecoveryResult,
+    RecoveryStatus,
+    RecoveryStep
+} from '../types';
+import { getConfig } from '../config';
+import { findHighestBidPrice, findLowestAskPrice, placeOrderWithRetry } from './helpers';
+import { getInstrumentSpec, roundQty } from './instruments';
+import { trackOrder } from './orderTracker';
+import { logger } from './logger';
+
+/**
+ * One leg of an arbitrage as it was (or should have been) sent.
+ * Both legs of an arbitrage buy an outcome, so a higher price is always worse.
+ */
+export interface RecoveryLeg {
+    adapter: ExchangeAdapter;
+    marketId: string | number;
+    side: OrderSide;
+    size: number;
+    price: number;
+    /** What one share pays out in INR; legs hedge each other when their payouts match */
+    payoutInr: number;
+    /** Current price to re-send this order at; defaults to the lowest ask */
+    quote?: (depth: Depth) => number | null;
+    /**
+     * How to close this leg out once filled; defaults to selling into the
+     * highest bid of its own book. A venue whose book is keyed by outcome
+     * offsets by buying the other outcome instead.
+     */
+    unwind?: { side: OrderSide; quote: (depth: Depth) => number | null };
+}
+
+/**
+ * Append a step to the recovery record and log it
+ * @param steps The steps recorded so far
+ * @param step The step to record
+ */
+function recordStep(steps: RecoveryStep[], step: Omit<RecoveryStep, 'timestamp'>): void {
+    const recorded: RecoveryStep = { ...step, timestamp: new Date().toISOString() };
+    steps.push(recorded);
+
+    if (recorded.success) {
+        logger.info(`Recovery step: ${recorded.action}`, recorded);
+    } else {
+        logger.warn(`Recovery step: ${recorded.action}`, recorded);
+    }
+}
+
+/**
+ * Place a recovery order and follow it until it fills or is cancelled
+ * @param adapter The exchange to trade on
+ * @param marketId The market ID on that exchange
+ * @param side Order side
+ * @param size Order quantity
+ * @param price Order price
+ * @returns The order result (unsuccessful if nothing filled) and the quantity filled
+ */
+async function placeAndTrack(
+    adapter: ExchangeAdapter,
+    marketId: string | number,
+    side: OrderSide,
+    size: number,
+    price: number
+): Promise<{ result: OrderResult; filledQty: number; avgFillPrice: number }> {
+    const result = await placeOrderWithRetry(adapter, marketId, side, size, price);
+    if (!result.success || !result.orderId) {
+        return { result, filledQty: 0, avgFillPrice: price };
+    }
+    
+    const state = await trackOrder(adapter, result.orderId, size, price);
+    const filledQty = state.filledQty ?? 0;
+    return {
+        result: filledQty > 0
+            ? result
+            : { ...result, success: false, error: new Error(`Order ${state.status} without filling`) },
+        filledQty,
+        avgFillPrice: state.avgFillPrice ?? price
+    };
+}
+
+/**
+ * Quantity of one leg paying out the same as a quantity of another
+ * @param qty Quantity on the `from` leg
+ * @param from The leg the quantity is on
+ * @param to The leg to express it on
+ * @returns The matching quantity on `to`
+ */
+export function toLegQty(qty: number, from: RecoveryLeg, to: RecoveryLeg): number {
+    return qty * from.payoutInr / to.payoutInr;
+}
+
+/**
+ * Round a recovery order's quantity down onto the venue's quantity step.
+ * Whatever rounding leaves over, or the whole quantity if it is below the
+ * venue's minimum order, is recorded as residual exposure.
+ * @param leg The leg the order is for
+ * @param qty The quantity wanted
+ * @param steps The recovery steps recorded so far
+ * @returns The quantity to order, or 0 if none can be
+ */
+function toOrderQty(leg: RecoveryLeg, qty: number, steps: RecoveryStep[]): number {
+    const exchange = leg.adapter.exchange;
+    const spec = getInstrumentSpec(exchange);
+    const rounded = roundQty(qty, spec.qtyStep);
+    const size = rounded >= spec.minQty ? rounded : 0;
+    const residual = qty - size;
+
+    if (residual > 1e-9) {
+        recordStep(steps, {
+            action: RecoveryAction.RESIDUAL_EXPOSURE,
+            exchange,
+            side: leg.side,
+            size: residual,
+            success: false,
+            reason: size > 0
+                ? `Left over after rounding to the ${exchange} quantity step of ${spec.qtyStep}`
+                : `Below the ${exchange} minimum order of ${spec.minQty}`
+        });
+    }
+
+    return size;
+}
+
+/**
+ * Try to complete the missing leg at a fresh price within the slippage budget,
+ * sized to cover what the filled leg actually filled
+ * @param filled The leg that filled, sized to its filled quantity
+ * @param missing The leg that failed to fill
+ * @param steps The recovery steps recorded so far
+ * @returns Whether the missing leg was placed
+ */
+async function hedgeMissingLeg(filled: RecoveryLeg, missing: RecoveryLeg, steps: RecoveryStep[]): Promise<boolean> {
+    const config = getConfig();
+    const exchange = missing.adapter.exchange;
+    const size = toLegQty(filled.size, filled, missing);
+
+    let price: number | null = null;
+    try {
+        const depth = await missing.adapter.getDepth(missing.marketId);
+        price = missing.quote ? missing.quote(depth) : findLowestAskPrice(depth);
+    } catch (error) {
+        recordStep(steps, {
+            action: RecoveryAction.HEDGE_SKIPPED,
+            exchange,
+            success: false,
+            reason: `Failed to fetch depth: ${error instanceof Error ? error.message : String(error)}`
+        });
+        return false;
+    }
+
+    if (price === null) {
+        recordStep(steps, {
+            action: RecoveryAction.HEDGE_SKIPPED,
+            exchange,
+            success: false,
+            reason: 'No liquidity to complete the missing leg'
+        });
+        return false;
+    }
+
+    // Positive slippage means a worse price than the one the opportunity was sized at
+    const slippagePercent = (price - missing.price) / missing.price * 100;
+
+    if (slippagePercent > config.maxHedgeSlippagePercent) {
+        recordStep(steps, {
+            action: RecoveryAction.HEDGE_SKIPPED,
+            exchange,
+            side: missing.side,
+            price,
+            size: size,
+            success: false,
+            reason: `Slippage ${slippagePercent.toFixed(2)}% exceeds budget of ${config.maxHedgeSlippagePercent}%`
+        });
+        return false;
+    }
+
+    // Too small to hedge here; unwinding on the filled leg's venue may still be possible
+    const orderQty = toOrderQty(missing, size, steps);
+    if (orderQty === 0) {
+        return false;
+    }
+
+    const { result, filledQty, avgFillPrice } =
+        await placeAndTrack(missing.adapter, missing.marketId, missing.side, orderQty, price);
+    recordStep(steps, {
+        action: RecoveryAction.HEDGE_ORDER,
+        exchange,
+        side: missing.side,
+        price: avgFillPrice,
+        size: orderQty,
+        filledQty,
+        success: result.success,
+        orderId: result.orderId,
+        reason: result.error?.message
+    });
+
+    return result.success;
+}
+
+/**
+ * Close out the filled leg at the best available price
+ * @param filled The leg that filled
+ * @param steps The recovery steps recorded so far
+ * @returns UNWOUND if it was closed out, RESIDUAL if it is too small to be, FAILED otherwise
+ */
+async function unwindFilledLeg(filled: RecoveryLeg, steps: RecoveryStep[]): Promise<RecoveryStatus> {
+    const exchange = filled.adapter.exchange;
+    const side = filled.unwind?.side ?? OrderSide.SELL;
+
+    let price: number | null = null;
+    try {
+        const depth = await filled.adapter.getDepth(filled.marketId);
+        price = filled.unwind ? filled.unwind.quote(depth) : findHighestBidPrice(depth);
+    } catch (error) {
+        recordStep(steps, {
+            action: RecoveryAction.UNWIND_SKIPPED,
+            exchange,
+            success: false,
+            reason: `Failed to fetch depth: ${error instanceof Error ? error.message : String(error)}`
+        });
+        return RecoveryStatus.FAILED;
+    }
+
+    if (price === null) {
+        recordStep(steps, {
+            action: RecoveryAction.UNWIND_SKIPPED,
+            exchange,
+            success: false,
+            reason: 'No liquidity to unwind the filled leg'
+        });
+        return RecoveryStatus.FAILED;
+    }
+
+    const size = toOrderQty({ ...filled, side }, filled.size, steps);
+    if (size === 0) {
+        return RecoveryStatus.RESIDUAL;
+    }
+
+    const { result, filledQty, avgFillPrice } = await placeAndTrack(filled.adapter, filled.marketId, side, size, price);
+    recordStep(steps, {
+        action: RecoveryAction.UNWIND_ORDER,
+        exchange,
+        side,
+        price: avgFillPrice,
+        size,
+        filledQty,
+        success: result.success,
+        orderId: result.orderId,
+        reason: result.error?.message
+    });
+
+    return result.success ? RecoveryStatus.UNWOUND : RecoveryStatus.FAILED;
+}
+
+/**
+ * Recover from an arbitrage where one leg filled beyond the other. The
+ * missing leg is re-priced first; if that is outside the slippage budget or
+ * fails, the excess of the filled leg is sold back out.
+ * @param filled The leg that filled, sized to its excess over the other
+ * @param missing The leg that failed or filled short
+ * @param hedge Whether to try completing the missing leg before unwinding
+ * @returns The recovery outcome with every step taken
+ */
+export async function recoverOneSidedFill(
+    filled: RecoveryLeg,
+    missing: RecoveryLeg,
+    hedge = true
+): Promise<RecoveryResult> {
+    const steps: RecoveryStep[] = [];
+
+    recordStep(steps, {
+        action: RecoveryAction.DETECTED,
+        exchange: filled.adapter.exchange,
+        side: filled.side,
+        price: filled.price,
+        size: filled.size,
+        success: true,
+        reason: `${missing.adapter.exchange} leg filled short of the ${filled.adapter.exchange} leg`
+    });
+
+    const status = hedge && await hedgeMissingLeg(filled, missing, steps)
+        ? RecoveryStatus.HEDGED
+        : await unwindFilledLeg(filled, steps);
+
+    const result: RecoveryResult = {
+        status,
+        filledExchange: filled.adapter.exchange,
+        missingExchange: missing.adapter.exchange,
+        steps
+    };
+
+    if (status === RecoveryStatus.FAILED) {
+        logger.error("One-sided fill could not be recovered, position left open", {
+            exchange: filled.adapter.exchange,
+            marketId: filled.marketId,
+            side: filled.side,
+            size: filled.size,
+            price: filled.price
+        });
+    } else if (status === RecoveryStatus.RESIDUAL) {
+        logger.warn("One-sided fill too small to trade out of, residual position left open", {
+            exchange: filled.adapter.exchange,
+            marketId: filled.marketId,
+            side: filled.side,
+            size: filled.size
+        });
+    } else {
+        logger.info(`One-sided fill recovered: ${status}`);
+    }
+
+    return result;
+}
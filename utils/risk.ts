@@ -0,0 +1,89 @@
+// Pre-trade risk limits
+import { ArbOpportunity, Exchange, RiskLimit, RiskRejection, RiskState } from '../types';
+import { getConfig } from '../config';
+
+/**
+ * Notional of each leg of an opportunity in INR
+ * @param opportunity The arbitrage opportunity
+ * @returns Per-exchange notional in INR
+ */
+export function getOpportunityNotionalInr(opportunity: ArbOpportunity): Record<Exchange, number> {
+    const fxRate = opportunity.fxRate ?? getConfig().dollarPriceInr;
+    const polyPrice = opportunity.polymarketAvgPrice ?? opportunity.polymarketPrice;
+    const proboPrice = opportunity.proboAvgPrice ?? opportunity.proboPrice;
+    
+    return {
+        [Exchange.POLYMARKET]: opportunity.polymarketQty * polyPrice * fxRate,
+        [Exchange.PROBO]: opportunity.proboQty * proboPrice
+    };
+}
+
+/**
+ * Check an opportunity against the configured risk limits before execution
+ * @param opportunity The opportunity about to be executed
+ * @param state Current exposure and activity
+ * @returns The first limit breached, or null if the trade may go ahead
+ */
+export function checkRiskLimits(opportunity: ArbOpportunity, state: RiskState): RiskRejection | null {
+    const config = getConfig();
+    const pairId = opportunity.pairId;
+    const notional = getOpportunityNotionalInr(opportunity);
+    const totalNotional = notional[Exchange.POLYMARKET] + notional[Exchange.PROBO];
+    
+    if (totalNotional > config.maxNotionalPerTradeInr) {
+        return {
+            limit: RiskLimit.MAX_NOTIONAL_PER_TRADE,
+            message: `Trade notional ₹${totalNotional.toFixed(2)} exceeds limit of ₹${config.maxNotionalPerTradeInr}`,
+            value: totalNotional,
+            threshold: config.maxNotionalPerTradeInr,
+            pairId
+        };
+    }
+    
+    const marketExposure = (state.exposureByMarketInr[pairId || 'default'] || 0) + totalNotional;
+    if (marketExposure > config.maxExposurePerMarketInr) {
+        return {
+            limit: RiskLimit.MAX_MARKET_EXPOSURE,
+            message: `Exposure on market ${pairId || 'default'} would reach ₹${marketExposure.toFixed(2)}, limit is ₹${config.maxExposurePerMarketInr}`,
+            value: marketExposure,
+            threshold: config.maxExposurePerMarketInr,
+            pairId
+        };
+    }
+    
+    for (const exchange of [Exchange.POLYMARKET, Exchange.PROBO]) {
+        const exchangeExposure = (state.exposureByExchangeInr[exchange] || 0) + notional[exchange];
+        if (exchangeExposure > config.maxExposurePerExchangeInr) {
+            return {
+                limit: RiskLimit.MAX_EXCHANGE_EXPOSURE,
+                message: `Exposure on ${exchange} would reach ₹${exchangeExposure.toFixed(2)}, limit is ₹${config.maxExposurePerExchangeInr}`,
+                value: exchangeExposure,
+                threshold: config.maxExposurePerExchangeInr,
+                exchange,
+                pairId
+            };
+        }
+    }
+    
+    if (state.dailyLossInr >= config.maxDailyLossInr) {
+        return {
+            limit: RiskLimit.MAX_DAILY_LOSS,
+            message: `Daily loss of ₹${state.dailyLossInr.toFixed(2)} has reached the limit of ₹${config.maxDailyLossInr}`,
+            value: state.dailyLossInr,
+            threshold: config.maxDailyLossInr,
+            pairId
+        };
+    }
+    
+    if (state.tradesLastHour >= config.maxTradesPerHour) {
+        return {
+            limit: RiskLimit.MAX_TRADES_PER_HOUR,
+            message: `${state.tradesLastHour} trades in the last hour, limit is ${config.maxTradesPerHour}`,
+            value: state.tradesLastHour,
+            threshold: config.maxTradesPerHour,
+            pairId
+        };
+    }
+    
+    return null;
+}
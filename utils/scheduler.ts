@@ -0,0 +1,62 @@
+// Concurrency and rate limiting primitives for scanning many markets
+import { sleep } from './helpers';
+
+/**
+ * Run an async function over items with at most `limit` in flight at once
+ * @param items The items to process
+ * @param limit Maximum concurrent calls
+ * @param fn The function to run per item
+ * @returns Settled results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let next = 0;
+    
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                results[index] = { status: 'fulfilled', value: await fn(items[index]) };
+            } catch (error) {
+                results[index] = { status: 'rejected', reason: error };
+            }
+        }
+    };
+    
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+    await Promise.all(workers);
+    
+    return results;
+}
+
+export interface RateLimiter {
+    schedule<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Create a limiter that spaces out call starts to a maximum rate
+ * @param requestsPerSecond Maximum calls started per second (0 or less disables limiting)
+ * @returns The rate limiter
+ */
+export function createRateLimiter(requestsPerSecond: number): RateLimiter {
+    const intervalMs = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+    let nextSlot = 0;
+    
+    return {
+        schedule: async <T>(fn: () => Promise<T>): Promise<T> => {
+            const now = Date.now();
+            const slot = Math.max(now, nextSlot);
+            nextSlot = slot + intervalMs;
+            
+            if (slot > now) {
+                await sleep(slot - now);
+            }
+            
+            return fn();
+        }
+    };
+}
@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+import { isResolutionMismatch, payoutPerShare, settlePosition } from "./settlement";
+import { Exchange, Position } from "../types";
+
+jest.mock("../config", () => ({
+    getConfig: jest.fn().mockReturnValue({
+        logLevel: "error"
+    })
+}));
+
+describe("Settlement Tests", () => {
+    const position = (overrides: Partial<Position>): Position => ({
+        exchange: Exchange.POLYMARKET,
+        marketId: "222",
+        outcome: "yes",
+        pairId: "election",
+        shares: 100,
+        costBasisNative: 60,
+        costBasisInr: 5100,
+        costBasisUsd: 60,
+        realisedPnlNative: 0,
+        feesNative: 0.01,
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        ...overrides
+    });
+
+    test("payoutPerShare should pay $1 on Polymarket and ₹10 on Probo", () => {
+        expect(payoutPerShare(Exchange.POLYMARKET)).toBe(1);
+        expect(payoutPerShare(Exchange.PROBO)).toBe(10);
+    });
+
+    test("settlePosition should pay winners out and report P&L after fees in both currencies", () => {
+        const settlement = settlePosition(position({}), "yes", 85);
+
+        expect(settlement.payoutNative).toBe(100);
+        expect(settlement.realisedPnlNative).toBeCloseTo(39.99);
+        expect(settlement.realisedPnlUsd).toBeCloseTo(39.99);
+        expect(settlement.realisedPnlInr).toBeCloseTo(39.99 * 85);
+
+        const lost = settlePosition(
+            position({ exchange: Exchange.PROBO, marketId: "111", outcome: "no", costBasisNative: 400, feesNative: 9.44 }),
+            "yes",
+            85
+        );
+        expect(lost.payoutNative).toBe(0);
+        expect(lost.realisedPnlInr).toBeCloseTo(-409.44);
+        expect(lost.realisedPnlUsd).toBeCloseTo(-409.44 / 85);
+    });
+
+    test("settlePosition should refund the cost of a voided market", () => {
+        const settlement = settlePosition(position({}), "void", 85);
+
+        expect(settlement.payoutNative).toBe(60);
+        expect(settlement.realisedPnlNative).toBeCloseTo(-0.01);
+    });
+
+    test("isResolutionMismatch should flag venues that settled differently", () => {
+        expect(isResolutionMismatch({ [Exchange.POLYMARKET]: "yes" })).toBe(false);
+        expect(isResolutionMismatch({ [Exchange.POLYMARKET]: "yes", [Exchange.PROBO]: "yes" })).toBe(false);
+        expect(isResolutionMismatch({ [Exchange.POLYMARKET]: "yes", [Exchange.PROBO]: "no" })).toBe(true);
+        expect(isResolutionMismatch({ [Exchange.POLYMARKET]: "void", [Exchange.PROBO]: "no" })).toBe(true);
+    });
+});
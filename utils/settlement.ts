@@ -0,0 +1,59 @@
+// Settlement of positions once a matched market resolves
+import { Exchange, Position, Resolution, Settlement } from '../types';
+
+/**
+ * What one share pays out when its market resolves, in the exchange's currency
+ * @param exchange The exchange
+ * @returns $1 per Polymarket share, ₹10 per Probo share
+ */
+export function payoutPerShare(exchange: Exchange): number {
+    return exchange === Exchange.POLYMARKET ? 1 : 10;
+}
+
+/**
+ * Mark a position to its payout
+ * @param position The position to settle
+ * @param resolution How the position's venue resolved the market
+ * @param fxRate USD/INR rate to report the P&L at
+ * @returns The settlement
+ */
+export function settlePosition(position: Position, resolution: Resolution, fxRate: number): Settlement {
+    const feesNative = position.feesNative || 0;
+
+    // Void markets refund what was paid for the shares
+    const payoutNative = resolution === 'void'
+        ? position.costBasisNative
+        : resolution === position.outcome ? position.shares * payoutPerShare(position.exchange) : 0;
+    const realisedPnlNative = payoutNative - position.costBasisNative - feesNative + position.realisedPnlNative;
+    const isUsd = position.exchange === Exchange.POLYMARKET;
+
+    return {
+        pairId: position.pairId || 'default',
+        exchange: position.exchange,
+        marketId: position.marketId,
+        outcome: position.outcome,
+        resolution,
+        shares: position.shares,
+        payoutNative,
+        costBasisNative: position.costBasisNative,
+        feesNative,
+        realisedPnlNative,
+        realisedPnlInr: isUsd ? realisedPnlNative * fxRate : realisedPnlNative,
+        realisedPnlUsd: isUsd ? realisedPnlNative : realisedPnlNative / fxRate,
+        fxRate,
+        settledAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Whether two venues resolved the same event differently. Either side
+ * voiding while the other pays out counts, since one leg is then refunded
+ * while the other loses.
+ * @param resolutions Resolution recorded per exchange
+ * @returns True if both venues resolved and disagree
+ */
+export function isResolutionMismatch(resolutions: Partial<Record<Exchange, Resolution>>): boolean {
+    const polymarket = resolutions[Exchange.POLYMARKET];
+    const probo = resolutions[Exchange.PROBO];
+    return polymarket !== undefined && probo !== undefined && polymarket !== probo;
+}